@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Keyboard,
+} from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { Mail, KeyRound, AlertCircle } from "lucide-react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import { emailRules } from "@/lib/formRules";
+import { Schema } from "@/lib/validation";
+
+type ForgotPasswordValues = {
+  email: string;
+};
+
+const forgotPasswordSchema: Schema<ForgotPasswordValues> = {
+  email: emailRules,
+};
+
+export default function ForgotPassword() {
+  const params = useLocalSearchParams<{ email?: string }>();
+  const { values, errors, validate, setValue, setFieldTouched } = useForm<ForgotPasswordValues>({
+    initialValues: { email: params.email ?? "" },
+    schema: forgotPasswordSchema,
+  });
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const router = useRouter();
+  const { requestPasswordReset } = useAuth();
+  const error = errors.email ?? requestError;
+
+  const handleSendCode = async () => {
+    Keyboard.dismiss();
+    if (!validate()) return;
+    const trimmedEmail = values.email.trim().toLowerCase();
+
+    setIsSending(true);
+    try {
+      await requestPasswordReset(trimmedEmail);
+      router.push({ pathname: "./reset-password", params: { email: trimmedEmail } });
+    } catch (err) {
+      console.error("Password reset request error:", err);
+      setRequestError("Something went wrong. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <LinearGradient colors={["#000000", "#1f2937", "#000000"]} className="flex-1">
+      <View className="flex-1 px-6 justify-center">
+        {/* Header */}
+        <View className="items-center mb-10">
+          <View className="w-20 h-20 bg-orange-500/20 rounded-full justify-center items-center mb-6 border-2 border-orange-500">
+            <KeyRound color="#f97316" size={32} />
+          </View>
+          <Text className="text-orange-500 text-3xl font-bold mb-2">Forgot Password</Text>
+          <Text className="text-orange-300 text-base text-center">
+            {`We'll send a one-time code to reset your password`}
+          </Text>
+        </View>
+
+        {/* Email Input */}
+        <View className="mb-8">
+          <View className="relative">
+            <View className="absolute left-4 top-5 z-10">
+              <Mail color={error ? "#ef4444" : "#fb923c"} size={20} />
+            </View>
+            <TextInput
+              placeholder="Email"
+              placeholderTextColor={error ? "#fca5a5" : "#fb923c"}
+              value={values.email}
+              onChangeText={(text) => {
+                setValue("email", text.trim().toLowerCase());
+                setRequestError(null);
+              }}
+              onBlur={() => setFieldTouched("email")}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+              textContentType="emailAddress"
+              maxLength={254}
+              className={`w-full pl-12 pr-4 py-4 bg-black rounded-xl text-orange-100 text-base border ${error ? "border-red-500" : "border-orange-400"}`}
+            />
+          </View>
+          {error && (
+            <View className="flex-row items-center mt-1 ml-2">
+              <AlertCircle color="#ef4444" size={16} />
+              <Text className="text-red-400 text-sm ml-1">{error}</Text>
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity
+          onPress={handleSendCode}
+          disabled={isSending}
+          className="w-full rounded-xl items-center active:scale-95 disabled:opacity-60"
+          style={{ backgroundColor: "#f97316", paddingVertical: 16 }}
+        >
+          {isSending ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text className="text-white text-base font-semibold">Send Code</Text>
+          )}
+        </TouchableOpacity>
+
+        <View className="items-center mt-8">
+          <Text
+            onPress={() => router.replace("./login")}
+            className="text-orange-500 font-semibold text-base"
+          >
+            Back to Sign In
+          </Text>
+        </View>
+      </View>
+    </LinearGradient>
+  );
+}
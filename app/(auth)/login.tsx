@@ -9,172 +9,78 @@ import {
   Keyboard,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
-import { Mail, Lock, Eye, EyeOff, AlertCircle } from "lucide-react-native";
-import { useRouter } from "expo-router";
+import { Mail, Lock, Eye, EyeOff, AlertCircle, Check } from "lucide-react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import { consumePendingLink } from "@/lib/deepLinks";
+import { currentPasswordRules, emailRules } from "@/lib/formRules";
+import { Schema } from "@/lib/validation";
 
 interface Props {
   setIsAuthenticated?: (value: boolean) => void;
   setHasAccount?: (value: boolean) => void;
 }
 
-interface ValidationErrors {
-  email?: string;
-  password?: string;
-  general?: string;
-}
+type LoginValues = {
+  email: string;
+  password: string;
+};
+
+const loginSchema: Schema<LoginValues> = {
+  email: emailRules,
+  password: currentPasswordRules,
+};
 
 const Login: React.FC<Props> = ({ setIsAuthenticated, setHasAccount }) => {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
+  // The account switcher links here with the account's email filled in
+  const params = useLocalSearchParams<{ email?: string }>();
+  const { values, errors, validate, setValue, setFieldTouched, isFieldValid } = useForm<LoginValues>({
+    initialValues: { email: params.email ?? "", password: "" },
+    schema: loginSchema,
+  });
+  const { email, password } = values;
   const [passwordVisible, setPasswordVisible] = useState(false);
-  const [errors, setErrors] = useState<ValidationErrors>({});
-  const [touched, setTouched] = useState<{ [key: string]: boolean }>({});
-  const [attemptCount, setAttemptCount] = useState(0);
-  const [isBlocked, setIsBlocked] = useState(false);
-  const [blockTimeRemaining, setBlockTimeRemaining] = useState(0);
+  const [rememberMe, setRememberMe] = useState(false);
+  const [generalError, setGeneralError] = useState<string | null>(null);
+  // Lockouts are tracked per email by the auth layer and survive restarts
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
   
   const router = useRouter();
-  const { login, isLoading } = useAuth();
+  const { login, isLoading, getLoginThrottle } = useAuth();
 
-  // Rate limiting - block after 5 failed attempts for 15 minutes
-  const MAX_ATTEMPTS = 5;
-  const BLOCK_DURATION = 15 * 60 * 1000; // 15 minutes
+  const blockTimeRemaining = lockedUntil ? Math.max(lockedUntil - now, 0) : 0;
+  const isBlocked = blockTimeRemaining > 0;
 
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (isBlocked && blockTimeRemaining > 0) {
-      interval = setInterval(() => {
-        setBlockTimeRemaining(prev => {
-          if (prev <= 1000) {
-            setIsBlocked(false);
-            setAttemptCount(0);
-            return 0;
-          }
-          return prev - 1000;
-        });
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [isBlocked, blockTimeRemaining]);
-
-  // Enhanced email validation with industry standards
-  const validateEmail = (email: string): string | null => {
-    const trimmedEmail = email.trim().toLowerCase();
-    
-    if (!trimmedEmail) return "Email is required";
-    
-    // RFC 5321 length limits
-    if (trimmedEmail.length > 254) return "Email address too long (max 254 characters)";
-    
-    // Enhanced email regex - more RFC compliant
-    const emailRegex = /^[a-zA-Z0-9]([a-zA-Z0-9._-])*[a-zA-Z0-9]@[a-zA-Z0-9]([a-zA-Z0-9.-])*[a-zA-Z0-9]\.[a-zA-Z]{2,}$/;
-    if (!emailRegex.test(trimmedEmail)) return "Please enter a valid email address";
-    
-    // Split and validate parts
-    const parts = trimmedEmail.split('@');
-    if (parts.length !== 2) return "Invalid email format";
-    
-    const [localPart, domain] = parts;
-    
-    // Local part validation
-    if (localPart.length > 64) return "Email username too long (max 64 characters)";
-    if (localPart.length < 1) return "Email username required";
-    
-    // Check for consecutive dots or special characters
-    if (/[._-]{2,}/.test(localPart)) return "Email cannot contain consecutive special characters";
-    if (localPart.startsWith('.') || localPart.endsWith('.')) {
-      return "Email cannot start or end with a dot";
-    }
-    
-    // Domain validation
-    if (domain.length > 253) return "Email domain too long";
-    if (domain.startsWith('-') || domain.endsWith('-') || domain.startsWith('.') || domain.endsWith('.')) {
-      return "Invalid domain format";
-    }
-    
-    // Check for valid domain structure
-    const domainParts = domain.split('.');
-    if (domainParts.some(part => part.length === 0 || part.length > 63)) {
-      return "Invalid domain structure";
+    let cancelled = false;
+    if (!email) {
+      setLockedUntil(null);
+      return;
     }
-    
-    // Check for common typos in popular domains
-    const domainSuggestions: { [key: string]: string } = {
-      'gmial.com': 'gmail.com',
-      'gmai.com': 'gmail.com',
-      'yahooo.com': 'yahoo.com',
-      'hotmial.com': 'hotmail.com',
-      'outlok.com': 'outlook.com'
+    getLoginThrottle(email)
+      .then((status) => {
+        if (!cancelled) setLockedUntil(status.lockedUntil);
+      })
+      .catch((error) => console.error("Error reading login throttle:", error));
+    return () => {
+      cancelled = true;
     };
-    
-    if (domainSuggestions[domain]) {
-      return `Did you mean ${domainSuggestions[domain]}?`;
-    }
-    
-    return null;
-  };
+  }, [email, getLoginThrottle]);
 
-  // Enhanced password validation for login
-  const validatePassword = (password: string): string | null => {
-    if (!password) return "Password is required";
-    
-    // Basic length validation (for login, we don't need to check all creation rules)
-    if (password.length < 1) return "Password cannot be empty";
-    if (password.length > 128) return "Password too long (max 128 characters)";
-    
-    // Check for obvious security issues
-    if (password.includes(' ')) return "Password cannot contain spaces";
-    
-    // Check for null bytes or other control characters
-    if (/[\x00-\x1F\x7F]/.test(password)) return "Password contains invalid characters";
-    
-    return null;
-  };
+  useEffect(() => {
+    if (!isBlocked) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isBlocked]);
 
-  // Real-time validation with debouncing
   const handleEmailChange = (text: string) => {
-    const cleanedEmail = text.trim().toLowerCase();
-    setEmail(cleanedEmail);
-    
-    if (touched.email) {
-      const error = validateEmail(cleanedEmail);
-      setErrors(prev => ({ ...prev, email: error || undefined }));
-    }
+    setValue("email", text.trim().toLowerCase());
   };
 
   const handlePasswordChange = (text: string) => {
-    setPassword(text);
-    if (touched.password) {
-      const error = validatePassword(text);
-      setErrors(prev => ({ ...prev, password: error || undefined }));
-    }
-  };
-
-  const handleFieldBlur = (field: string) => {
-    setTouched(prev => ({ ...prev, [field]: true }));
-    
-    if (field === 'email') {
-      const error = validateEmail(email);
-      setErrors(prev => ({ ...prev, email: error || undefined }));
-    } else if (field === 'password') {
-      const error = validatePassword(password);
-      setErrors(prev => ({ ...prev, password: error || undefined }));
-    }
-  };
-
-  const validateForm = (): boolean => {
-    const emailError = validateEmail(email);
-    const passwordError = validatePassword(password);
-    
-    setErrors({
-      email: emailError || undefined,
-      password: passwordError || undefined,
-    });
-    
-    setTouched({ email: true, password: true });
-    
-    return !emailError && !passwordError;
+    setValue("password", text);
   };
 
   const handleLogin = async () => {
@@ -190,53 +96,37 @@ const Login: React.FC<Props> = ({ setIsAuthenticated, setHasAccount }) => {
       return;
     }
 
-    if (!validateForm()) return;
+    if (!validate()) return;
+    setGeneralError(null);
 
     try {
-      // Sanitize inputs before sending
-      const sanitizedEmail = email.trim().toLowerCase();
-      const sanitizedPassword = password.replace(/[<>]/g, '');
-      
-      const success = await login(sanitizedEmail, sanitizedPassword);
+      // The password goes through untouched so it hashes the same as when it was set
+      const result = await login(email.trim().toLowerCase(), password, rememberMe);
       
-      if (success) {
-        // Reset attempt count on success
-        setAttemptCount(0);
-        setErrors({});
-        router.replace("../HomePage");
+      if (result.status === "success") {
+        router.replace(consumePendingLink() ?? "../HomePage");
+      } else if (result.status === "locked") {
+        setNow(Date.now());
+        setLockedUntil(result.lockedUntil);
+        const minutes = Math.ceil((result.lockedUntil - Date.now()) / 60000);
+        Alert.alert(
+          "Account Temporarily Locked",
+          `Too many failed login attempts. Please wait ${minutes} minute(s) before trying again.`
+        );
+      } else if (result.status === "invalid") {
+        setGeneralError(`Invalid email or password. ${result.remainingAttempts} attempt(s) remaining.`);
       } else {
-        // Increment attempt count on failure
-        const newAttemptCount = attemptCount + 1;
-        setAttemptCount(newAttemptCount);
-        
-        if (newAttemptCount >= MAX_ATTEMPTS) {
-          setIsBlocked(true);
-          setBlockTimeRemaining(BLOCK_DURATION);
-          Alert.alert(
-            "Account Temporarily Locked",
-            `Too many failed login attempts. Your account is locked for 15 minutes.`
-          );
-        } else {
-          const remainingAttempts = MAX_ATTEMPTS - newAttemptCount;
-          setErrors({ 
-            general: `Invalid email or password. ${remainingAttempts} attempt(s) remaining.` 
-          });
-        }
+        setGeneralError("Something went wrong. Please try again.");
       }
     } catch (err) {
       console.error('Login error:', err);
-      setErrors({ 
-        general: "Connection error. Please check your internet and try again." 
-      });
+      setGeneralError("Connection error. Please check your internet and try again.");
     }
   };
 
-  const getInputBorderColor = (field: string, hasError: boolean) => {
+  const getInputBorderColor = (field: keyof LoginValues, hasError: boolean) => {
     if (hasError) return "border-red-500";
-    if (touched[field] && !hasError) {
-      if (field === 'email' && email && !validateEmail(email)) return "border-green-500";
-      if (field === 'password' && password && !validatePassword(password)) return "border-green-500";
-    }
+    if (isFieldValid(field)) return "border-green-500";
     return "border-orange-400";
   };
 
@@ -276,10 +166,10 @@ const Login: React.FC<Props> = ({ setIsAuthenticated, setHasAccount }) => {
         </View>
 
         {/* General Error */}
-        {errors.general && (
+        {generalError && (
           <View className="flex-row items-center bg-red-500/10 border border-red-500/50 rounded-lg p-3 mb-4">
             <AlertCircle color="#ef4444" size={20} />
-            <Text className="text-red-400 text-sm ml-2 flex-1">{errors.general}</Text>
+            <Text className="text-red-400 text-sm ml-2 flex-1">{generalError}</Text>
           </View>
         )}
 
@@ -306,7 +196,7 @@ const Login: React.FC<Props> = ({ setIsAuthenticated, setHasAccount }) => {
                 placeholderTextColor={errors.email ? "#fca5a5" : "#fb923c"}
                 value={email}
                 onChangeText={handleEmailChange}
-                onBlur={() => handleFieldBlur('email')}
+                onBlur={() => setFieldTouched("email")}
                 keyboardType="email-address"
                 autoCapitalize="none"
                 autoComplete="email"
@@ -345,12 +235,11 @@ const Login: React.FC<Props> = ({ setIsAuthenticated, setHasAccount }) => {
                 placeholderTextColor={errors.password ? "#fca5a5" : "#fb923c"}
                 value={password}
                 onChangeText={handlePasswordChange}
-                onBlur={() => handleFieldBlur('password')}
+                onBlur={() => setFieldTouched("password")}
                 secureTextEntry={!passwordVisible}
                 autoComplete="current-password"
                 textContentType="password"
                 maxLength={128}
-                editable={!isBlocked}
                 className={`w-full pl-12 pr-12 py-4 bg-black rounded-xl text-orange-100 text-base border ${getInputBorderColor('password', !!errors.password)}`}
               />
             </View>
@@ -362,11 +251,36 @@ const Login: React.FC<Props> = ({ setIsAuthenticated, setHasAccount }) => {
             )}
           </View>
 
+          {/* Remember Me & Forgot Password */}
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity
+              onPress={() => setRememberMe((prev) => !prev)}
+              className="flex-row items-center ml-1"
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: rememberMe }}
+            >
+              <View
+                className={`w-5 h-5 rounded border-2 items-center justify-center mr-3 ${
+                  rememberMe ? "bg-orange-500 border-orange-500" : "border-orange-400"
+                }`}
+              >
+                {rememberMe && <Check color="#fff" size={14} />}
+              </View>
+              <Text className="text-orange-300 text-base">Keep me signed in</Text>
+            </TouchableOpacity>
+            <Text
+              onPress={() => router.push({ pathname: "./forgot-password", params: { email } })}
+              className="text-orange-500 font-semibold"
+            >
+              Forgot password?
+            </Text>
+          </View>
+
           {/* Login Button */}
           <TouchableOpacity
             onPress={handleLogin}
             disabled={isLoading || isBlocked}
-            className="w-full rounded-xl items-center active:scale-95 disabled:opacity-60 mt-6"
+            className="w-full rounded-xl items-center active:scale-95 disabled:opacity-60 mt-2"
             style={{
               backgroundColor: isBlocked ? "#6b7280" : "#f97316",
               paddingVertical: 16,
@@ -0,0 +1,224 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Keyboard,
+} from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { Lock, ShieldCheck, Eye, EyeOff, AlertCircle } from "lucide-react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import PasswordRequirements from "@/components/PasswordRequirements";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import { confirmPasswordRules, newPasswordRules } from "@/lib/formRules";
+import { RESET_CODE_LENGTH, ResetCodeCheck } from "@/lib/passwordReset";
+import { Schema, minLength, required } from "@/lib/validation";
+
+const CODE_ERRORS: Record<Exclude<ResetCodeCheck, "valid">, string> = {
+  invalid: "That code is incorrect",
+  expired: "This code has expired. Request a new one.",
+  too_many_attempts: "Too many incorrect codes. Request a new one.",
+};
+
+type ResetValues = {
+  code: string;
+  password: string;
+  confirmPassword: string;
+};
+
+const resetSchema: Schema<ResetValues> = {
+  code: [
+    required(`Enter the ${RESET_CODE_LENGTH}-digit code`),
+    minLength(RESET_CODE_LENGTH, `Enter the ${RESET_CODE_LENGTH}-digit code`),
+  ],
+  password: newPasswordRules,
+  confirmPassword: confirmPasswordRules<ResetValues>("password"),
+};
+
+export default function ResetPassword() {
+  const { email = "" } = useLocalSearchParams<{ email?: string }>();
+  const { values, errors, validate, setValue, setFieldTouched, isFieldValid } = useForm<ResetValues>({
+    initialValues: { code: "", password: "", confirmPassword: "" },
+    schema: resetSchema,
+  });
+  const { code, password, confirmPassword } = values;
+  const [passwordVisible, setPasswordVisible] = useState(false);
+  // Set when the server rejects the code, which the schema can't know about
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const router = useRouter();
+  const { resetPassword, requestPasswordReset } = useAuth();
+
+  const handleReset = async () => {
+    Keyboard.dismiss();
+    if (!validate()) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await resetPassword(email, code, password);
+      if (result === "valid") {
+        Alert.alert("Password Updated", "Sign in with your new password.", [
+          { text: "OK", onPress: () => router.replace({ pathname: "./login", params: { email } }) },
+        ]);
+        return;
+      }
+      setCodeError(CODE_ERRORS[result]);
+      if (result !== "invalid") setValue("code", "");
+    } catch (err) {
+      console.error("Password reset error:", err);
+      Alert.alert("Error", "We couldn't reset your password. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      await requestPasswordReset(email);
+      setValue("code", "");
+      setCodeError(null);
+    } catch (err) {
+      console.error("Password reset request error:", err);
+    }
+  };
+
+  const fieldError = (field: keyof ResetValues) =>
+    field === "code" ? errors.code ?? codeError ?? undefined : errors[field];
+
+  const getInputBorder = (field: keyof ResetValues) => {
+    if (fieldError(field)) return "border-red-500";
+    if (isFieldValid(field)) return "border-green-500";
+    return "border-orange-400";
+  };
+
+  const FieldError = ({ message }: { message?: string }) =>
+    message ? (
+      <View className="flex-row items-center mt-1 ml-2">
+        <AlertCircle color="#ef4444" size={16} />
+        <Text className="text-red-400 text-sm ml-1 flex-1">{message}</Text>
+      </View>
+    ) : null;
+
+  return (
+    <LinearGradient colors={["#000000", "#1f2937", "#000000"]} className="flex-1">
+      <ScrollView
+        className="flex-1 px-6 mt-10"
+        contentContainerStyle={{ paddingVertical: 50 }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View className="items-center mb-8">
+          <View className="w-20 h-20 bg-orange-500/20 rounded-full justify-center items-center mb-6 border-2 border-orange-500">
+            <ShieldCheck color="#f97316" size={32} />
+          </View>
+          <Text className="text-orange-500 text-3xl font-bold mb-2">Reset Password</Text>
+          <Text className="text-orange-300 text-base text-center">
+            If {email} has an account, a code is on its way
+          </Text>
+        </View>
+
+        <View className="gap-3 mb-8">
+          {/* Code */}
+          <View>
+            <TextInput
+              placeholder="Verification code"
+              placeholderTextColor="#fb923c"
+              value={code}
+              onChangeText={(text) => {
+                setValue("code", text.replace(/\D/g, ""));
+                setCodeError(null);
+              }}
+              onBlur={() => setFieldTouched("code")}
+              keyboardType="number-pad"
+              maxLength={RESET_CODE_LENGTH}
+              textContentType="oneTimeCode"
+              autoComplete="one-time-code"
+              className={`w-full px-4 py-4 bg-black rounded-xl text-orange-100 text-lg text-center tracking-widest border ${getInputBorder("code")}`}
+            />
+            <FieldError message={fieldError("code")} />
+          </View>
+
+          {/* New Password */}
+          <View>
+            <View className="relative">
+              <View className="absolute left-4 top-5 z-10">
+                <Lock color="#fb923c" size={20} />
+              </View>
+              <TouchableOpacity
+                className="absolute right-4 top-5 z-10"
+                onPress={() => setPasswordVisible((prev) => !prev)}
+              >
+                {passwordVisible ? <EyeOff color="#fb923c" size={20} /> : <Eye color="#fb923c" size={20} />}
+              </TouchableOpacity>
+              <TextInput
+                placeholder="New Password"
+                placeholderTextColor="#fb923c"
+                value={password}
+                onChangeText={(text) => setValue("password", text)}
+                onBlur={() => setFieldTouched("password")}
+                secureTextEntry={!passwordVisible}
+                maxLength={128}
+                autoComplete="new-password"
+                className={`w-full pl-12 pr-12 py-4 bg-black rounded-xl text-orange-100 text-base border ${getInputBorder("password")}`}
+              />
+            </View>
+            <FieldError message={errors.password} />
+            {password && <PasswordRequirements password={password} />}
+          </View>
+
+          {/* Confirm Password */}
+          <View>
+            <View className="relative">
+              <View className="absolute left-4 top-5 z-10">
+                <Lock color="#fb923c" size={20} />
+              </View>
+              <TextInput
+                placeholder="Confirm New Password"
+                placeholderTextColor="#fb923c"
+                value={confirmPassword}
+                onChangeText={(text) => setValue("confirmPassword", text)}
+                onBlur={() => setFieldTouched("confirmPassword")}
+                secureTextEntry={!passwordVisible}
+                maxLength={128}
+                autoComplete="new-password"
+                className={`w-full pl-12 pr-4 py-4 bg-black rounded-xl text-orange-100 text-base border ${getInputBorder("confirmPassword")}`}
+              />
+            </View>
+            <FieldError message={errors.confirmPassword} />
+          </View>
+
+          <TouchableOpacity
+            onPress={handleReset}
+            disabled={isSubmitting}
+            className="w-full rounded-xl items-center active:scale-95 disabled:opacity-60 mt-4"
+            style={{ backgroundColor: "#f97316", paddingVertical: 16 }}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text className="text-white text-base font-semibold">Reset Password</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View className="items-center gap-4">
+          <Text onPress={handleResend} className="text-orange-500 font-semibold text-base">
+            Send a new code
+          </Text>
+          <Text
+            onPress={() => router.replace("./login")}
+            className="text-orange-300 text-base"
+          >
+            Back to Sign In
+          </Text>
+        </View>
+      </ScrollView>
+    </LinearGradient>
+  );
+}
@@ -11,144 +11,49 @@ import {
 import { LinearGradient } from "expo-linear-gradient";
 import { User, Mail, Lock, UserPlus, Eye, EyeOff } from "lucide-react-native";
 import { useRouter } from "expo-router";
+import PasswordRequirements from "@/components/PasswordRequirements";
 import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import { consumePendingLink } from "@/lib/deepLinks";
+import { confirmPasswordRules, emailRules, fullNameRules, newPasswordRules } from "@/lib/formRules";
+import { Schema } from "@/lib/validation";
 
 interface Props {
   setHasAccount: (value: boolean) => void;
 }
 
+type SignupValues = {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+};
+
+const signupSchema: Schema<SignupValues> = {
+  name: fullNameRules,
+  email: emailRules,
+  password: newPasswordRules,
+  confirmPassword: confirmPasswordRules<SignupValues>("password"),
+};
+
 const Signup: React.FC<Props> = ({ setHasAccount }) => {
-  const [name, setName] = useState("");
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [confirmPassword, setConfirmPassword] = useState("");
+  const { values, errors, validate, setValue, setFieldTouched, isFieldValid } = useForm<SignupValues>({
+    initialValues: { name: "", email: "", password: "", confirmPassword: "" },
+    schema: signupSchema,
+  });
+  const { name, email, password, confirmPassword } = values;
   const [passwordVisible, setPasswordVisible] = useState(false);
   const [confirmPasswordVisible, setConfirmPasswordVisible] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
-  const [touched, setTouched] = useState<{ [key: string]: boolean }>({});
   const { signup, isLoading } = useAuth();
   const router = useRouter();
 
-  const isValidFullName = (name: string): boolean => {
-    // Must be 2-50 characters, only letters, spaces, hyphens, and apostrophes
-    const nameRegex = /^[a-zA-Z\s\-']{2,50}$/;
-    const trimmedName = name.trim();
-    
-    if (!nameRegex.test(trimmedName)) return false;
-    if (trimmedName.length < 2) return false;
-    
-    // Check for at least one letter
-    if (!/[a-zA-Z]/.test(trimmedName)) return false;
-    
-    // Prevent multiple consecutive spaces or special characters
-    if (/[\s\-']{2,}/.test(trimmedName)) return false;
-    
-    return true;
-  };
-
-  const isValidEmail = (email: string): boolean => {
-    // More comprehensive email validation
-    const emailRegex = /^[a-zA-Z0-9]([a-zA-Z0-9._-])*[a-zA-Z0-9]@[a-zA-Z0-9]([a-zA-Z0-9.-])*[a-zA-Z0-9]\.[a-zA-Z]{2,}$/;
-    const trimmedEmail = email.trim().toLowerCase();
-    
-    if (!emailRegex.test(trimmedEmail)) return false;
-    if (trimmedEmail.length > 254) return false; // RFC 5321 limit
-    
-    // Check for common disposable email domains (basic list)
-    const disposableDomains = ['10minutemail.com', 'tempmail.org', 'guerrillamail.com'];
-    const domain = trimmedEmail.split('@')[1];
-    if (disposableDomains.includes(domain)) return false;
-    
-    return true;
-  };
-
-  const getPasswordRequirements = (password: string) => {
-    return {
-      minLength: { met: password.length >= 8, text: "At least 8 characters" },
-      maxLength: { met: password.length <= 128, text: "Maximum 128 characters" },
-      uppercase: { met: /[A-Z]/.test(password), text: "One uppercase letter" },
-      lowercase: { met: /[a-z]/.test(password), text: "One lowercase letter" },
-      number: { met: /[0-9]/.test(password), text: "One number" },
-      special: { met: /[!@#$%^&*(),.?":{}|<>_+=\[\]\\;'`~\-]/.test(password), text: "One special character" },
-      noSpaces: { met: !/\s/.test(password), text: "No spaces allowed" },
-      noCommon: { met: !isCommonPassword(password), text: "Not a common password" }
-    };
-  };
-
-  const isCommonPassword = (password: string): boolean => {
-    const commonPasswords = [
-      'password', '123456', '123456789', 'qwerty', 'abc123', 'password123',
-      'admin', 'letmein', 'welcome', '12345678', 'monkey', '1234567890'
-    ];
-    return commonPasswords.includes(password.toLowerCase());
-  };
-
-  const checkPasswordStrength = (password: string): string => {
-    const requirements = getPasswordRequirements(password);
-    const unmetRequirements = Object.values(requirements).filter(req => !req.met);
-    
-    if (unmetRequirements.length > 0) {
-      return unmetRequirements[0].text;
-    }
-    return "";
-  };
-
-  const validateForm = () => {
-    const newErrors: { [key: string]: string } = {};
-
-    // Name validation
-    if (!name.trim()) {
-      newErrors.name = "Full name is required";
-    } else if (!isValidFullName(name)) {
-      newErrors.name = "Enter a valid name (2-50 characters, letters only)";
-    }
-
-    // Email validation
-    if (!email.trim()) {
-      newErrors.email = "Email is required";
-    } else if (!isValidEmail(email)) {
-      newErrors.email = "Enter a valid email address";
-    }
-
-    // Password validation
-    const passwordError = checkPasswordStrength(password);
-    if (!password) {
-      newErrors.password = "Password is required";
-    } else if (passwordError) {
-      newErrors.password = passwordError;
-    }
-
-    // Confirm password validation
-    if (!confirmPassword) {
-      newErrors.confirmPassword = "Please confirm your password";
-    } else if (password !== confirmPassword) {
-      newErrors.confirmPassword = "Passwords do not match";
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleFieldBlur = (field: string) => {
-    setTouched(prev => ({ ...prev, [field]: true }));
-    validateForm();
-  };
-
   const handleSignup = async () => {
-    // Mark all fields as touched for validation
-    setTouched({
-      name: true,
-      email: true,
-      password: true,
-      confirmPassword: true
-    });
-
-    if (!validateForm()) return;
+    if (!validate()) return;
 
     const success = await signup(email.trim(), password.trim(), name.trim());
     if (success) {
       Alert.alert("Success", "Account created successfully!", [
-        { text: "OK", onPress: () => router.replace("../HomePage") },
+        { text: "OK", onPress: () => router.replace(consumePendingLink() ?? "../HomePage") },
       ]);
     } else {
       Alert.alert(
@@ -158,35 +63,12 @@ const Signup: React.FC<Props> = ({ setHasAccount }) => {
     }
   };
 
-  const getInputBorder = (field: string) => {
+  const getInputBorder = (field: keyof SignupValues) => {
     if (errors[field]) return "border-red-500";
-    if (field === "password" && password && !checkPasswordStrength(password))
-      return "border-green-500";
-    if (field === "confirmPassword" && confirmPassword && password === confirmPassword)
-      return "border-green-500";
-    if (field === "email" && email && isValidEmail(email)) return "border-green-500";
-    if (field === "name" && name && isValidFullName(name)) return "border-green-500";
+    if (isFieldValid(field)) return "border-green-500";
     return "border-orange-400";
   };
 
-  const PasswordRequirements = ({ password }: { password: string }) => {
-    const requirements = getPasswordRequirements(password);
-    
-    return (
-      <View className="mt-2 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
-        <Text className="text-orange-300 text-sm font-semibold mb-2">Password Requirements:</Text>
-        {Object.entries(requirements).map(([key, req]) => (
-          <View key={key} className="flex-row items-center mb-1">
-            <View className={`w-2 h-2 rounded-full mr-2 ${req.met ? 'bg-green-500' : 'bg-red-500'}`} />
-            <Text className={`text-xs ${req.met ? 'text-green-400' : 'text-red-400'}`}>
-              {req.text}
-            </Text>
-          </View>
-        ))}
-      </View>
-    );
-  };
-
   return (
     <LinearGradient colors={["#000000", "#1f2937", "#000000"]} className="flex-1">
       <ScrollView
@@ -214,11 +96,8 @@ const Signup: React.FC<Props> = ({ setHasAccount }) => {
                 placeholder="Full Name"
                 placeholderTextColor="#fb923c"
                 value={name}
-                onChangeText={(text) => {
-                  setName(text);
-                  if (touched.name || errors.name) validateForm();
-                }}
-                onBlur={() => handleFieldBlur('name')}
+                onChangeText={(text) => setValue("name", text)}
+                onBlur={() => setFieldTouched("name")}
                 className={`w-full pl-12 pr-4 py-4 bg-black rounded-xl text-orange-100 text-base border ${getInputBorder("name")}`}
                 maxLength={50}
                 autoCapitalize="words"
@@ -237,11 +116,8 @@ const Signup: React.FC<Props> = ({ setHasAccount }) => {
                 placeholder="Email"
                 placeholderTextColor="#fb923c"
                 value={email}
-                onChangeText={(text) => {
-                  setEmail(text.trim().toLowerCase());
-                  if (touched.email || errors.email) validateForm();
-                }}
-                onBlur={() => handleFieldBlur('email')}
+                onChangeText={(text) => setValue("email", text.trim().toLowerCase())}
+                onBlur={() => setFieldTouched("email")}
                 keyboardType="email-address"
                 autoCapitalize="none"
                 autoComplete="email"
@@ -268,11 +144,8 @@ const Signup: React.FC<Props> = ({ setHasAccount }) => {
                 placeholder="Password"
                 placeholderTextColor="#fb923c"
                 value={password}
-                onChangeText={(text) => {
-                  setPassword(text);
-                  if (touched.password || errors.password) validateForm();
-                }}
-                onBlur={() => handleFieldBlur('password')}
+                onChangeText={(text) => setValue("password", text)}
+                onBlur={() => setFieldTouched("password")}
                 secureTextEntry={!passwordVisible}
                 className={`w-full pl-12 pr-12 py-4 bg-black rounded-xl text-orange-100 text-base border ${getInputBorder("password")}`}
                 maxLength={128}
@@ -299,11 +172,8 @@ const Signup: React.FC<Props> = ({ setHasAccount }) => {
                 placeholder="Confirm Password"
                 placeholderTextColor="#fb923c"
                 value={confirmPassword}
-                onChangeText={(text) => {
-                  setConfirmPassword(text);
-                  if (touched.confirmPassword || errors.confirmPassword) validateForm();
-                }}
-                onBlur={() => handleFieldBlur('confirmPassword')}
+                onChangeText={(text) => setValue("confirmPassword", text)}
+                onBlur={() => setFieldTouched("confirmPassword")}
                 secureTextEntry={!confirmPasswordVisible}
                 className={`w-full pl-12 pr-12 py-4 bg-black rounded-xl text-orange-100 text-base border ${getInputBorder("confirmPassword")}`}
                 maxLength={128}
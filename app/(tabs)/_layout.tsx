@@ -2,8 +2,13 @@ import React from "react";
 import { Tabs } from "expo-router";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import { COLORS } from "@/constants/theme";
+import { useCart } from "@/contexts/CartContext";
+import { useNotifications } from "@/contexts/NotificationsContext";
 
 export default function TabLayout() {
+  const { totals } = useCart();
+  const { unreadCount } = useNotifications();
+
   return (
     <Tabs
       screenOptions={{
@@ -46,11 +51,23 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="cart"
+        options={{
+          tabBarBadge: totals.itemCount > 0 ? totals.itemCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: "#f97316", color: "white" },
+          tabBarIcon: ({ size, color }) => (
+            <Ionicons name="cart" size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="notifications"
         options={{
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+          tabBarBadgeStyle: { backgroundColor: "#f97316", color: "white" },
           tabBarIcon: ({ size, color }) => (
-            <Ionicons name="heart" size={size} color={color} />
+            <Ionicons name="notifications" size={size} color={color} />
           ),
         }}
       />
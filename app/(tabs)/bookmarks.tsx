@@ -1,10 +1,173 @@
-import { View, Text } from 'react-native'
-import React from 'react'
+import React, { useCallback, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Image,
+  StatusBar,
+  FlatList,
+  RefreshControl,
+} from "react-native";
+import { router, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useCart } from "@/contexts/CartContext";
+import { WishlistEntry, useWishlist } from "@/contexts/WishlistContext";
+import { getQuantityBounds } from "@/lib/cart";
+import { Product, getDiscountedPrice } from "@/lib/catalog";
+
+const LOW_STOCK_THRESHOLD = 5;
+
+const getStockLabel = (product: Product) => {
+  if (product.stock <= 0) return { text: "Out of stock", className: "text-red-400" };
+  if (product.stock <= LOW_STOCK_THRESHOLD) {
+    return { text: `Only ${product.stock} left`, className: "text-yellow-400" };
+  }
+  return { text: "In stock", className: "text-green-400" };
+};
 
 export default function Bookmarks() {
+  const { entries, isLoading, removeBookmark, refreshSnapshots } = useWishlist();
+  const { addItem } = useCart();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isShowingCached, setIsShowingCached] = useState(false);
+  // refreshSnapshots changes identity on every render; keep the latest without re-running focus effects
+  const refreshSnapshotsRef = useRef(refreshSnapshots);
+  refreshSnapshotsRef.current = refreshSnapshots;
+
+  const refresh = useCallback(async (force: boolean) => {
+    setIsRefreshing(true);
+    try {
+      const upToDate = await refreshSnapshotsRef.current({ force });
+      setIsShowingCached(!upToDate);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!isLoading) refresh(false);
+    }, [isLoading, refresh])
+  );
+
+  const handleMoveToCart = async (entry: WishlistEntry) => {
+    const added = await addItem(entry.product, getQuantityBounds(entry.product).min);
+    if (!added) {
+      Alert.alert("Unavailable", "This product is out of stock or already fully in your cart.");
+      return;
+    }
+    await removeBookmark(entry.product.id);
+  };
+
+  const renderEntry = ({ item }: { item: WishlistEntry }) => {
+    const { product } = item;
+    const stock = getStockLabel(product);
+
+    return (
+      <TouchableOpacity
+        onPress={() => router.push(`/product/${product.id}`)}
+        className="bg-gray-800 rounded-2xl p-4 mb-4 border border-orange-500/10"
+      >
+        <View className="flex-row">
+          <View className="bg-white/5 rounded-xl mr-4 overflow-hidden">
+            <Image
+              source={{ uri: product.thumbnail }}
+              className="w-20 h-20"
+              resizeMode="cover"
+            />
+          </View>
+
+          <View className="flex-1">
+            <Text className="text-white font-semibold text-base mb-1" numberOfLines={2}>
+              {product.title}
+            </Text>
+            <View className="flex-row items-center mb-1">
+              <Text className="text-orange-400 font-bold text-lg">
+                ${getDiscountedPrice(product).toFixed(2)}
+              </Text>
+              {product.discountPercentage > 0 && (
+                <Text className="text-gray-500 line-through ml-2 text-sm">
+                  ${product.price.toFixed(2)}
+                </Text>
+              )}
+            </View>
+            <Text className={`text-sm ${stock.className}`}>{stock.text}</Text>
+          </View>
+        </View>
+
+        <View className="flex-row gap-3 mt-4">
+          <TouchableOpacity
+            onPress={() => handleMoveToCart(item)}
+            disabled={product.stock <= 0}
+            className={`flex-1 flex-row items-center justify-center py-3 rounded-xl ${
+              product.stock <= 0 ? "bg-gray-600" : "bg-orange-600"
+            }`}
+          >
+            <Ionicons name="cart-outline" size={18} color="white" />
+            <Text className="text-white font-semibold ml-2">Move to Cart</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => removeBookmark(product.id)}
+            className="flex-row items-center justify-center px-4 py-3 rounded-xl bg-gray-700"
+          >
+            <Ionicons name="trash-outline" size={18} color="#ef4444" />
+            <Text className="text-red-400 font-semibold ml-2">Remove</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   return (
-    <View>
-      <Text>Bookmarks</Text>
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-6 px-6 border-b border-orange-500/10">
+        <Text className="text-white text-2xl font-bold">Wishlist</Text>
+        <Text className="text-gray-400 text-sm">
+          {entries.length} saved product{entries.length === 1 ? "" : "s"}
+        </Text>
+      </View>
+
+      {isShowingCached && entries.length > 0 && (
+        <View className="flex-row items-center bg-yellow-500/10 border-b border-yellow-500/30 px-6 py-2">
+          <Ionicons name="cloud-offline-outline" size={16} color="#eab308" />
+          <Text className="text-yellow-400 text-sm ml-2 flex-1">
+            Showing saved prices. Pull to refresh when back online.
+          </Text>
+        </View>
+      )}
+
+      {isLoading ? (
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#fb923c" />
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={(item) => item.product.id.toString()}
+          contentContainerStyle={{ padding: 24, paddingBottom: 96, flexGrow: 1 }}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={() => refresh(true)} tintColor="#fb923c" />
+          }
+          ListEmptyComponent={
+            <View className="flex-1 justify-center items-center">
+              <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+                <Ionicons name="bookmark-outline" size={40} color="#fb923c" />
+              </View>
+              <Text className="text-orange-300 text-lg font-medium">No saved products</Text>
+              <Text className="text-gray-400 text-center mt-2">
+                Tap the bookmark icon on a product to save it for later
+              </Text>
+            </View>
+          }
+        />
+      )}
     </View>
-  )
-}
\ No newline at end of file
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Image,
+  StatusBar,
+  FlatList,
+} from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import PaymentModal from "@/components/PaymentModal";
+import { useCart } from "@/contexts/CartContext";
+import { CartItem, getQuantityBounds } from "@/lib/cart";
+import { getDiscountedPrice } from "@/lib/catalog";
+
+export default function Cart() {
+  const { items, totals, isLoading, updateQuantity, removeItem, clearCart } = useCart();
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+
+  const handleRemove = (item: CartItem) => {
+    Alert.alert(
+      "Remove Item",
+      `Remove ${item.product.title} from your cart?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => removeItem(item.product.id),
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: CartItem }) => {
+    const { product, quantity } = item;
+    const { min, max } = getQuantityBounds(product);
+
+    return (
+      <View className="bg-gray-800 rounded-2xl p-4 mb-4 border border-orange-500/10">
+        <View className="flex-row">
+          <TouchableOpacity
+            onPress={() => router.push(`/product/${product.id}`)}
+            className="bg-white/5 rounded-xl mr-4 overflow-hidden"
+          >
+            <Image
+              source={{ uri: product.thumbnail }}
+              className="w-20 h-20"
+              resizeMode="cover"
+            />
+          </TouchableOpacity>
+
+          <View className="flex-1">
+            <View className="flex-row items-start justify-between mb-1">
+              <Text className="text-white font-semibold text-base flex-1 mr-2" numberOfLines={2}>
+                {product.title}
+              </Text>
+              <TouchableOpacity onPress={() => handleRemove(item)} className="p-1">
+                <Ionicons name="trash-outline" size={18} color="#ef4444" />
+              </TouchableOpacity>
+            </View>
+
+            <View className="flex-row items-center mb-3">
+              <Text className="text-orange-400 font-bold">
+                ${getDiscountedPrice(product).toFixed(2)}
+              </Text>
+              {product.discountPercentage > 0 && (
+                <Text className="text-gray-500 line-through ml-2 text-sm">
+                  ${product.price.toFixed(2)}
+                </Text>
+              )}
+            </View>
+
+            <View className="flex-row items-center justify-between">
+              <View className="flex-row items-center bg-gray-700 rounded-xl">
+                <TouchableOpacity
+                  onPress={() => updateQuantity(product.id, quantity - 1)}
+                  disabled={quantity <= min}
+                  className="px-3 py-2"
+                >
+                  <Ionicons name="remove" size={16} color={quantity <= min ? "#6b7280" : "#fb923c"} />
+                </TouchableOpacity>
+                <Text className="text-white font-semibold w-8 text-center">{quantity}</Text>
+                <TouchableOpacity
+                  onPress={() => updateQuantity(product.id, quantity + 1)}
+                  disabled={quantity >= max}
+                  className="px-3 py-2"
+                >
+                  <Ionicons name="add" size={16} color={quantity >= max ? "#6b7280" : "#fb923c"} />
+                </TouchableOpacity>
+              </View>
+              <Text className="text-gray-400 text-xs">
+                {min > 1 ? `Min ${min} · ` : ""}{max} in stock
+              </Text>
+            </View>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-6 px-6 border-b border-orange-500/10">
+        <View className="flex-row items-center justify-between">
+          <View>
+            <Text className="text-white text-2xl font-bold">My Cart</Text>
+            <Text className="text-gray-400 text-sm">
+              {totals.itemCount} item{totals.itemCount === 1 ? "" : "s"}
+            </Text>
+          </View>
+          {items.length > 0 && (
+            <TouchableOpacity
+              onPress={() =>
+                Alert.alert("Clear Cart", "Remove all items from your cart?", [
+                  { text: "Cancel", style: "cancel" },
+                  { text: "Clear", style: "destructive", onPress: clearCart },
+                ])
+              }
+              className="px-4 py-2 rounded-xl bg-orange-600/10"
+            >
+              <Text className="text-orange-400 font-medium">Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#fb923c" />
+        </View>
+      ) : items.length === 0 ? (
+        <View className="flex-1 justify-center items-center px-6">
+          <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+            <Ionicons name="cart-outline" size={40} color="#fb923c" />
+          </View>
+          <Text className="text-orange-300 text-lg font-medium">Your cart is empty</Text>
+          <Text className="text-gray-400 text-center mt-2">
+            Browse the store and add products you like
+          </Text>
+          <TouchableOpacity
+            onPress={() => router.replace("/HomePage")}
+            className="mt-6 bg-orange-600 px-8 py-3 rounded-xl"
+          >
+            <Text className="text-white font-semibold">Start Shopping</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={items}
+            renderItem={renderItem}
+            keyExtractor={(item) => item.product.id.toString()}
+            contentContainerStyle={{ padding: 24 }}
+            showsVerticalScrollIndicator={false}
+          />
+
+          {/* Summary */}
+          <View className="bg-gray-800 border-t border-orange-500/10 px-6 pt-4 pb-20">
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-gray-400">Subtotal</Text>
+              <Text className="text-white">${totals.subtotal.toFixed(2)}</Text>
+            </View>
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-gray-400">Discount</Text>
+              <Text className="text-green-400">-${totals.discount.toFixed(2)}</Text>
+            </View>
+            <View className="flex-row justify-between items-center mb-4">
+              <Text className="text-white font-bold text-lg">Total</Text>
+              <Text className="text-orange-400 font-bold text-xl">${totals.total.toFixed(2)}</Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => setShowPaymentModal(true)}
+              className="bg-orange-600 py-4 rounded-xl"
+            >
+              <Text className="text-white text-center font-semibold text-lg">Checkout</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+
+      {/* Payment Modal */}
+      {showPaymentModal && (
+        <PaymentModal
+          visible={showPaymentModal}
+          onClose={() => setShowPaymentModal(false)}
+          items={items}
+          onQuantityChange={updateQuantity}
+          onOrderComplete={clearCart}
+        />
+      )}
+    </View>
+  );
+}
@@ -1,10 +1,145 @@
-import { View, Text } from 'react-native'
-import React from 'react'
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StatusBar,
+  FlatList,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+import ReanimatedSwipeable from "react-native-gesture-handler/ReanimatedSwipeable";
+import { useNotifications } from "@/contexts/NotificationsContext";
+import { AppNotification, NotificationKind } from "@/lib/notifications";
 
-export default function Notifications() {
+const KIND_ICONS: Record<NotificationKind, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+  order_placed: { name: "bag-check-outline", color: "#fb923c" },
+  order_status: { name: "cube-outline", color: "#fb923c" },
+  price_drop: { name: "pricetag-outline", color: "#4ade80" },
+  back_in_stock: { name: "storefront-outline", color: "#4ade80" },
+  new_login: { name: "log-in-outline", color: "#60a5fa" },
+  account_locked: { name: "lock-closed-outline", color: "#ef4444" },
+};
+
+function DismissAction() {
   return (
-    <View>
-      <Text>Notifications</Text>
+    <View className="bg-red-600 rounded-2xl mb-3 ml-3 px-6 items-center justify-center">
+      <Ionicons name="trash-outline" size={22} color="white" />
+      <Text className="text-white text-xs font-semibold mt-1">Dismiss</Text>
     </View>
-  )
-}
\ No newline at end of file
+  );
+}
+
+export default function Notifications() {
+  const { notifications, unreadCount, isLoading, markRead, markAllRead, dismiss } =
+    useNotifications();
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read) markRead(notification.id);
+    const { target } = notification;
+    if (target?.type === "order") router.push(`/orders/${target.orderId}`);
+    if (target?.type === "product") router.push(`/product/${target.productId}`);
+  };
+
+  const renderNotification = ({ item }: { item: AppNotification }) => {
+    const icon = KIND_ICONS[item.kind];
+    return (
+      <ReanimatedSwipeable
+        friction={2}
+        rightThreshold={60}
+        overshootRight={false}
+        renderRightActions={() => <DismissAction />}
+        // The panel is only a cue: swiping it open is the dismissal
+        onSwipeableOpen={() => dismiss(item.id)}
+      >
+        <TouchableOpacity
+          onPress={() => openNotification(item)}
+          activeOpacity={0.8}
+          className={`flex-row items-start rounded-2xl p-4 mb-3 border ${
+            item.read ? "bg-gray-800 border-orange-500/10" : "bg-gray-800 border-orange-500/50"
+          }`}
+        >
+          <View className="bg-white/5 p-2 rounded-full mr-3">
+            <Ionicons name={icon.name} size={20} color={icon.color} />
+          </View>
+          <View className="flex-1">
+            <View className="flex-row items-center">
+              <Text
+                className={`flex-1 ${item.read ? "text-gray-300" : "text-white font-semibold"}`}
+                numberOfLines={1}
+              >
+                {item.title}
+              </Text>
+              {!item.read && <View className="w-2 h-2 rounded-full bg-orange-500 ml-2" />}
+            </View>
+            <Text className="text-gray-400 text-sm mt-1">{item.body}</Text>
+            <Text className="text-gray-500 text-xs mt-2">
+              {new Date(item.createdAt).toLocaleString()}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      </ReanimatedSwipeable>
+    );
+  };
+
+  return (
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <View className="flex-1 bg-gray-900">
+        <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+        {/* Header */}
+        <View className="bg-gray-800 pt-12 pb-6 px-6 border-b border-orange-500/10">
+          <View className="flex-row items-end justify-between">
+            <View>
+              <Text className="text-white text-2xl font-bold">Notifications</Text>
+              <Text className="text-gray-400 text-sm">
+                {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+              </Text>
+            </View>
+            {unreadCount > 0 && (
+              <TouchableOpacity
+                onPress={markAllRead}
+                className="flex-row items-center px-3 py-2 rounded-full bg-orange-600/10"
+              >
+                <Ionicons name="checkmark-done" size={16} color="#fb923c" />
+                <Text className="text-orange-400 text-sm font-medium ml-1">Mark all read</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 justify-center items-center">
+            <ActivityIndicator size="large" color="#fb923c" />
+          </View>
+        ) : (
+          <FlatList
+            data={notifications}
+            renderItem={renderNotification}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={{ padding: 24, paddingBottom: 96, flexGrow: 1 }}
+            showsVerticalScrollIndicator={false}
+            ListHeaderComponent={
+              notifications.length > 0 ? (
+                <Text className="text-gray-500 text-xs mb-3">Swipe left to dismiss</Text>
+              ) : null
+            }
+            ListEmptyComponent={
+              <View className="flex-1 justify-center items-center">
+                <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+                  <Ionicons name="notifications-outline" size={40} color="#fb923c" />
+                </View>
+                <Text className="text-orange-300 text-lg font-medium">No notifications</Text>
+                <Text className="text-gray-400 text-center mt-2">
+                  Order updates, price drops on bookmarks and security alerts show up here
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </GestureHandlerRootView>
+  );
+}
@@ -1,10 +1,316 @@
-import { View, Text } from 'react-native'
-import React from 'react'
+import React, { useCallback, useState } from "react";
+import { View, Text, TouchableOpacity, StatusBar, ScrollView, Alert } from "react-native";
+import { router, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import Avatar from "@/components/Avatar";
+import DeleteAccountModal from "@/components/DeleteAccountModal";
+import { useAddressBook } from "@/contexts/AddressBookContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useOrders } from "@/contexts/OrdersContext";
+import { usePaymentMethods } from "@/contexts/PaymentMethodsContext";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { formatAddressLine } from "@/lib/addresses";
+import { COUNTRY_FORMATS } from "@/lib/countries";
+import { LoginAuditEntry, getLoginAudit } from "@/lib/loginThrottle";
+import { countReviewsByUser } from "@/lib/reviews";
+import { describeCard } from "@/lib/savedCards";
+
+const AUDIT_PREVIEW_COUNT = 5;
+
+const AUDIT_REASON_LABELS: Record<LoginAuditEntry["reason"], string> = {
+  invalid_credentials: "Wrong password",
+  locked_out: "Attempt while locked",
+};
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <View className="flex-1 bg-gray-800 rounded-2xl p-4 border border-orange-500/10">
+      <Text className="text-white text-xl font-bold">{value}</Text>
+      <Text className="text-gray-400 text-xs mt-1">{label}</Text>
+    </View>
+  );
+}
 
 export default function Profile() {
+  const { user, profile, accounts, signedInAccountIds, switchAccount, logout, deleteAccount } =
+    useAuth();
+  const { orders } = useOrders();
+  const { entries: bookmarks } = useWishlist();
+  const { addresses, defaultAddress } = useAddressBook();
+  const { cards, defaultCard } = usePaymentMethods();
+  const [auditLog, setAuditLog] = useState<LoginAuditEntry[]>([]);
+  const [reviewCount, setReviewCount] = useState(0);
+  const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+  const email = user?.email;
+  const userId = user?.id;
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!email || !userId) return;
+      let cancelled = false;
+      getLoginAudit(email)
+        .then((entries) => {
+          if (!cancelled) setAuditLog(entries);
+        })
+        .catch((error) => console.error("Error loading sign-in activity:", error));
+      countReviewsByUser(userId)
+        .then((count) => {
+          if (!cancelled) setReviewCount(count);
+        })
+        .catch((error) => console.error("Error counting reviews:", error));
+      return () => {
+        cancelled = true;
+      };
+    }, [email, userId])
+  );
+
+  // Cancelled orders were refunded, so they don't count towards spending
+  const activeOrders = orders.filter((order) => order.status !== "cancelled");
+  const totalSpent = activeOrders.reduce((sum, order) => sum + order.summary.grandTotal, 0);
+  const memberSince = accounts.find((account) => account.id === userId)?.createdAt;
+
+  const handleLogout = () => {
+    Alert.alert("Logout", "Are you sure you want to logout?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Logout",
+        style: "destructive",
+        onPress: async () => {
+          await logout();
+          router.replace("/(auth)");
+        },
+      },
+    ]);
+  };
+
+  const handleDeleteAccount = async (password: string) => {
+    const result = await deleteAccount(password);
+    if (result.status === "success") {
+      setShowDeleteAccount(false);
+      router.replace("/(auth)");
+      Alert.alert("Account Deleted", "Your account and its data have been removed from this device.");
+    }
+    return result;
+  };
+
+  const handleSwitchAccount = async (accountId: string, email: string) => {
+    const switched = await switchAccount(accountId);
+    if (!switched) {
+      router.push({ pathname: "/login", params: { email } });
+    }
+  };
+
   return (
-    <View>
-      <Text>profile</Text>
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-6 px-6 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <Avatar name={user?.name ?? ""} uri={profile.avatarUri} size={64} />
+          <View className="flex-1 ml-4">
+            <Text className="text-white text-2xl font-bold">{user?.name || "User"}</Text>
+            <Text className="text-gray-400 text-sm">{user?.email}</Text>
+            {memberSince && (
+              <Text className="text-gray-500 text-xs mt-1">
+                Member since {new Date(memberSince).toLocaleDateString()}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => router.push("/account/edit-profile")}
+            className="p-3 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="create-outline" size={20} color="#fb923c" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView className="px-6 py-6" showsVerticalScrollIndicator={false}>
+        {/* Stats */}
+        <View className="flex-row gap-3">
+          <StatTile label="Orders" value={String(activeOrders.length)} />
+          <StatTile label="Spent" value={`$${totalSpent.toFixed(2)}`} />
+        </View>
+        <View className="flex-row gap-3 mt-3 mb-6">
+          <StatTile label="Reviews" value={String(reviewCount)} />
+          <StatTile label="Bookmarks" value={String(bookmarks.length)} />
+        </View>
+
+        {/* Contact */}
+        <TouchableOpacity
+          onPress={() => router.push("/account/edit-profile")}
+          className="flex-row items-center bg-gray-800 rounded-2xl p-4 border border-orange-500/10 mb-3"
+        >
+          <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+            <Ionicons name="call-outline" size={20} color="#fb923c" />
+          </View>
+          <Text className="text-white font-semibold flex-1">
+            {profile.phone && profile.phoneCountry
+              ? `${COUNTRY_FORMATS[profile.phoneCountry].dialCode} ${profile.phone}`
+              : "Add a phone number"}
+          </Text>
+          <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => router.push("/account/addresses")}
+          className="flex-row items-center bg-gray-800 rounded-2xl p-4 border border-orange-500/10 mb-3"
+        >
+          <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+            <Ionicons name="location-outline" size={20} color="#fb923c" />
+          </View>
+          <View className="flex-1">
+            <Text className="text-white font-semibold">
+              Saved Addresses{addresses.length > 0 ? ` (${addresses.length})` : ""}
+            </Text>
+            <Text className="text-gray-400 text-sm" numberOfLines={1}>
+              {defaultAddress ? formatAddressLine(defaultAddress) : "Add an address for checkout"}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => router.push("/account/payment-methods")}
+          className="flex-row items-center bg-gray-800 rounded-2xl p-4 border border-orange-500/10 mb-3"
+        >
+          <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+            <Ionicons name="card-outline" size={20} color="#fb923c" />
+          </View>
+          <View className="flex-1">
+            <Text className="text-white font-semibold">
+              Payment Methods{cards.length > 0 ? ` (${cards.length})` : ""}
+            </Text>
+            <Text className="text-gray-400 text-sm" numberOfLines={1}>
+              {defaultCard ? describeCard(defaultCard) : "Save a card for faster checkout"}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => router.push("/orders")}
+          className="flex-row items-center bg-gray-800 rounded-2xl p-4 border border-orange-500/10"
+        >
+          <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+            <Ionicons name="receipt-outline" size={20} color="#fb923c" />
+          </View>
+          <View className="flex-1">
+            <Text className="text-white font-semibold">My Orders</Text>
+            <Text className="text-gray-400 text-sm">
+              {orders.length} order{orders.length === 1 ? "" : "s"}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => router.push("/account/change-password")}
+          className="flex-row items-center bg-gray-800 rounded-2xl p-4 border border-orange-500/10 mt-3"
+        >
+          <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+            <Ionicons name="key-outline" size={20} color="#fb923c" />
+          </View>
+          <Text className="text-white font-semibold flex-1">Change Password</Text>
+          <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+        </TouchableOpacity>
+
+        {/* Account Switcher */}
+        <Text className="text-orange-400 text-lg font-bold mt-8 mb-3">Accounts</Text>
+        <View className="bg-gray-800 rounded-2xl border border-orange-500/10">
+          {accounts.map((account, index) => {
+            const isCurrent = account.id === user?.id;
+            const isSignedIn = signedInAccountIds.includes(account.id);
+            return (
+              <TouchableOpacity
+                key={account.id}
+                onPress={() => handleSwitchAccount(account.id, account.email)}
+                disabled={isCurrent}
+                className={`flex-row items-center p-4 ${index > 0 ? "border-t border-gray-700" : ""}`}
+              >
+                <View className="mr-4">
+                  <Avatar name={account.name} uri={isCurrent ? profile.avatarUri : undefined} />
+                </View>
+                <View className="flex-1">
+                  <Text className="text-white font-semibold">{account.name}</Text>
+                  <Text className="text-gray-400 text-sm">{account.email}</Text>
+                </View>
+                {isCurrent ? (
+                  <Ionicons name="checkmark-circle" size={22} color="#10b981" />
+                ) : (
+                  <Text className="text-orange-400 text-sm">
+                    {isSignedIn ? "Switch" : "Sign in"}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            onPress={() => router.push("/signup")}
+            className={`flex-row items-center p-4 ${accounts.length > 0 ? "border-t border-gray-700" : ""}`}
+          >
+            <View className="bg-orange-500/10 w-10 h-10 rounded-full items-center justify-center mr-4">
+              <Ionicons name="person-add-outline" size={18} color="#fb923c" />
+            </View>
+            <Text className="text-white font-semibold flex-1">Add another account</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Sign-in Activity */}
+        <Text className="text-orange-400 text-lg font-bold mt-8 mb-3">Failed Sign-in Attempts</Text>
+        <View className="bg-gray-800 rounded-2xl border border-orange-500/10">
+          {auditLog.length === 0 ? (
+            <View className="flex-row items-center p-4">
+              <Ionicons name="shield-checkmark-outline" size={20} color="#10b981" />
+              <Text className="text-gray-400 ml-3">No failed attempts on this account</Text>
+            </View>
+          ) : (
+            auditLog.slice(0, AUDIT_PREVIEW_COUNT).map((entry, index) => (
+              <View
+                key={`${entry.at}-${index}`}
+                className={`flex-row items-center p-4 ${index > 0 ? "border-t border-gray-700" : ""}`}
+              >
+                <Ionicons
+                  name={entry.reason === "locked_out" ? "lock-closed-outline" : "alert-circle-outline"}
+                  size={20}
+                  color="#ef4444"
+                />
+                <Text className="text-white ml-3 flex-1">{AUDIT_REASON_LABELS[entry.reason]}</Text>
+                <Text className="text-gray-400 text-xs">{new Date(entry.at).toLocaleString()}</Text>
+              </View>
+            ))
+          )}
+          {auditLog.length > AUDIT_PREVIEW_COUNT && (
+            <Text className="text-gray-500 text-xs px-4 pb-4">
+              Showing the latest {AUDIT_PREVIEW_COUNT} of {auditLog.length}
+            </Text>
+          )}
+        </View>
+
+        {/* Session */}
+        <TouchableOpacity
+          onPress={handleLogout}
+          className="flex-row items-center justify-center bg-orange-600 rounded-2xl py-4 mt-8"
+        >
+          <Ionicons name="log-out-outline" size={20} color="white" />
+          <Text className="text-white font-semibold ml-2">Logout</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setShowDeleteAccount(true)}
+          className="flex-row items-center justify-center rounded-2xl py-4 mt-3 mb-24 bg-red-500/10 border border-red-500/30"
+        >
+          <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          <Text className="text-red-400 font-semibold ml-2">Delete Account</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <DeleteAccountModal
+        visible={showDeleteAccount}
+        onClose={() => setShowDeleteAccount(false)}
+        email={user?.email ?? ""}
+        onConfirm={handleDeleteAccount}
+      />
     </View>
-  )
-}
\ No newline at end of file
+  );
+}
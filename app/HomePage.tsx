@@ -7,88 +7,96 @@ import {
   Alert,
   ActivityIndicator,
   Image,
-  Dimensions,
   StatusBar,
   FlatList,
+  RefreshControl,
 } from "react-native";
 import { Picker } from "@react-native-picker/picker";
+import Avatar from "@/components/Avatar";
+import PaginationFooter from "@/components/PaginationFooter";
+import ProductFilterSheet from "@/components/ProductFilterSheet";
 import { useAuth } from "@/contexts/AuthContext";
+import { useBrowse } from "@/contexts/BrowseContext";
+import { useCart } from "@/contexts/CartContext";
+import { useNotifications } from "@/contexts/NotificationsContext";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { useCachedResource } from "@/hooks/useCachedResource";
+import { usePaginatedProducts } from "@/hooks/usePaginatedProducts";
 import { router } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
+import {
+  Category,
+  Product,
+  fetchCategories,
+  fetchProducts,
+  fetchProductsByCategory,
+  getDiscountedPrice,
+} from "@/lib/catalog";
+import { CATALOG_TTL, catalogCacheKeys } from "@/lib/catalogCache";
+import {
+  SORT_OPTIONS,
+  applySortAndFilters,
+  countActiveFilters,
+  getFilterChips,
+  removeFilterChip,
+} from "@/lib/productFilters";
 
-interface Category {
-  slug: string;
-  name: string;
-  url: string;
-}
-
-interface Product {
-  id: number;
-  title: string;
-  description: string;
-  price: number;
-  discountPercentage: number;
-  rating: number;
-  stock: number;
-  brand: string;
-  thumbnail: string;
-  [key: string]: any;
-}
-
-const { width } = Dimensions.get("window");
+const FEATURED_PAGE_SIZE = 6;
 
 export default function Home() {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [selectedCategorySlug, setSelectedCategorySlug] = useState<string>("");
-  const [products, setProducts] = useState<Product[]>([]);
-  const [showProducts, setShowProducts] = useState<boolean>(false);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
-  const { logout: authLogout, user } = useAuth();
+  const [showFilters, setShowFilters] = useState(false);
+  const {
+    categorySlug: selectedCategorySlug,
+    sort,
+    filters,
+    selectCategory,
+    setSort,
+    setFilters,
+    clearFilters,
+  } = useBrowse();
+  const { user, profile } = useAuth();
+  const { totals: cartTotals } = useCart();
+  const { unreadCount } = useNotifications();
+  const { isBookmarked, toggleBookmark } = useWishlist();
+
+  // Both lists are keyed off browse state, so coming back from a product reloads the same ones
+  const categoryList = usePaginatedProducts(
+    selectedCategorySlug ? `category:${selectedCategorySlug}` : null,
+    (options) => fetchProductsByCategory(selectedCategorySlug, options),
+    { cacheTtl: CATALOG_TTL.productList }
+  );
+  // Sorting, filtering and the filter sheet's facets have to see the whole category rather
+  // than the pages scrolled through so far, so while any of them is in use it's loaded in one go
+  const activeFilterCount = countActiveFilters(filters);
+  const isSortedOrFiltered = sort !== "featured" || activeFilterCount > 0;
+  const wholeCategory = usePaginatedProducts(
+    selectedCategorySlug && (isSortedOrFiltered || showFilters)
+      ? `category:${selectedCategorySlug}:all`
+      : null,
+    (options) => fetchProductsByCategory(selectedCategorySlug, options),
+    { pageSize: 0, cacheTtl: CATALOG_TTL.productList }
+  );
+  const productList = isSortedOrFiltered ? wholeCategory : categoryList;
+  const featured = usePaginatedProducts("featured", fetchProducts, {
+    pageSize: FEATURED_PAGE_SIZE,
+    cacheTtl: CATALOG_TTL.productList,
+  });
+  const categoryResource = useCachedResource(
+    catalogCacheKeys.categories(),
+    CATALOG_TTL.categories,
+    fetchCategories
+  );
+  const categories: Category[] = categoryResource.data ?? [];
+
+  const products = productList.items;
+  const isLoading = productList.status === "loading";
+  const showProducts = productList.status === "success";
 
   useEffect(() => {
-    const fetchInitialData = async () => {
-      try {
-        // Fetch categories
-        const categoriesResponse = await fetch(
-          "https://dummyjson.com/products/categories"
-        );
-        const categoriesData = await categoriesResponse.json();
-        setCategories(categoriesData);
-
-        // Fetch featured products
-        const featuredResponse = await fetch(
-          "https://dummyjson.com/products?limit=6&skip=0"
-        );
-        const featuredData = await featuredResponse.json();
-        setFeaturedProducts(featuredData.products || []);
-      } catch (error) {
-        console.error("Failed to fetch initial data:", error);
-        Alert.alert("Error", "Failed to load data");
-      }
-    };
-
-    fetchInitialData();
-  }, []);
-
-  const fetchProductsForCategory = async (categorySlug: string) => {
-    try {
-      setIsLoading(true);
-      const response = await fetch(`https://dummyjson.com/products/category/${categorySlug}`);
-      const data = await response.json();
-
-      setTimeout(() => {
-        setProducts(data.products || []);
-        setSelectedCategorySlug(categorySlug);
-        setShowProducts(true);
-        setIsLoading(false);
-      }, 300);
-    } catch (error) {
-      console.error("Failed to fetch products:", error);
-      Alert.alert("Error", "Failed to fetch products");
-      setIsLoading(false);
-    }
-  };
+    if (categoryResource.status !== "error") return;
+    console.error("Failed to fetch categories:", categoryResource.error);
+    Alert.alert("Error", "Failed to load data");
+  }, [categoryResource.status, categoryResource.error]);
 
   const handleProductClick = (product: Product) => {
     router.push(`/product/${product.id}`);
@@ -96,39 +104,21 @@ export default function Home() {
 
   const handleCategoryChange = (slug: string) => {
     if (slug && slug !== selectedCategorySlug) {
-      setShowProducts(false);
-      setTimeout(() => {
-        fetchProductsForCategory(slug);
-      }, 200);
+      selectCategory(slug);
     }
   };
 
-  const handleLogout = async () => {
-    Alert.alert(
-      "Logout",
-      "Are you sure you want to logout?",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Logout",
-          style: "destructive",
-          onPress: async () => {
-            try {
-              await authLogout();
-              router.replace("/(auth)");
-            } catch (error) {
-              console.error("Logout failed:", error);
-              Alert.alert("Error", "Failed to logout");
-            }
-          },
-        },
-      ]
-    );
+  const handleRefresh = () => {
+    if (selectedCategorySlug) {
+      productList.refresh();
+    } else {
+      featured.refresh();
+      categoryResource.refresh();
+    }
   };
 
-  const getDiscountedPrice = (price: number, discountPercentage: number) => {
-    return price - (price * discountPercentage / 100);
-  };
+  const visibleProducts = applySortAndFilters(products, sort, filters);
+  const filterChips = getFilterChips(filters);
 
   const renderStars = (rating: number) => {
     const stars = [];
@@ -178,6 +168,13 @@ export default function Home() {
                 </Text>
               </View>
             )}
+            <TouchableOpacity onPress={() => toggleBookmark(item)} className="ml-2 p-1">
+              <Ionicons
+                name={isBookmarked(item.id) ? "bookmark" : "bookmark-outline"}
+                size={18}
+                color="#fb923c"
+              />
+            </TouchableOpacity>
           </View>
           
           <Text className="text-orange-300 text-sm mb-2">{item.brand}</Text>
@@ -190,7 +187,7 @@ export default function Home() {
           <View className="flex-row items-center justify-between">
             <View className="flex-row items-center">
               <Text className="text-orange-400 font-bold text-lg">
-                ${getDiscountedPrice(item.price, item.discountPercentage).toFixed(2)}
+                ${getDiscountedPrice(item).toFixed(2)}
               </Text>
               {item.discountPercentage > 0 && (
                 <Text className="text-gray-500 line-through ml-2 text-sm">
@@ -208,170 +205,374 @@ export default function Home() {
     </TouchableOpacity>
   );
 
-  return (
-    <View className="flex-1 bg-gray-900">
-      <StatusBar barStyle="light-content" backgroundColor="#111827" />
-      
-      {/* Header */}
-      <View className="bg-gray-800 pt-12 pb-6 px-6 border-b border-orange-500/10">
-        <View className="flex-row items-center justify-between">
-          <View className="flex-1">
-            <Text className="text-gray-400 text-sm">Welcome back,</Text>
-            <Text className="text-white text-2xl font-bold">
-              {user?.name || "User"}!
-            </Text>
+  const renderFeaturedProduct = ({ item }: { item: Product }) => (
+    <TouchableOpacity
+      onPress={() => handleProductClick(item)}
+      className="bg-gray-800 rounded-2xl p-3 mr-3 w-40 border border-orange-500/10"
+    >
+      <View className="bg-white/5 rounded-xl overflow-hidden mb-2">
+        <Image source={{ uri: item.thumbnail }} className="w-full h-28" resizeMode="cover" />
+      </View>
+      <Text className="text-white font-semibold text-sm" numberOfLines={2}>
+        {item.title}
+      </Text>
+      <Text className="text-orange-400 font-bold mt-1">
+        ${getDiscountedPrice(item).toFixed(2)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderFeatured = () => {
+    if (featured.status === "idle" || featured.status === "error") return null;
+
+    return (
+      <View className="pb-6">
+        <View className="flex-row items-center px-6 mb-4">
+          <View className="bg-orange-500/10 p-2 rounded-full mr-3">
+            <Ionicons name="sparkles-outline" size={20} color="#fb923c" />
           </View>
-          
-          <View className="flex-row items-center gap-2">
-            <TouchableOpacity className="p-3 rounded-full bg-orange-600/10">
-              <Ionicons name="search-outline" size={20} color="#fb923c" />
-            </TouchableOpacity>
-            
-            <TouchableOpacity className="p-3 rounded-full bg-orange-600/10">
-              <Ionicons name="notifications-outline" size={20} color="#fb923c" />
-            </TouchableOpacity>
-            
-            <TouchableOpacity
-              onPress={handleLogout}
-              className="bg-orange-600 px-4 py-2 rounded-xl"
+          <Text className="text-white text-xl font-bold">Featured</Text>
+        </View>
+        {featured.status === "loading" ? (
+          <ActivityIndicator size="small" color="#fb923c" />
+        ) : (
+          <FlatList
+            horizontal
+            data={featured.items}
+            renderItem={renderFeaturedProduct}
+            keyExtractor={(item) => item.id.toString()}
+            contentContainerStyle={{ paddingHorizontal: 24 }}
+            showsHorizontalScrollIndicator={false}
+            onEndReached={featured.loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              featured.isLoadingMore ? (
+                <View className="w-16 h-full items-center justify-center">
+                  <ActivityIndicator size="small" color="#fb923c" />
+                </View>
+              ) : featured.loadMoreFailed ? (
+                <TouchableOpacity onPress={featured.retry} className="w-24 h-full items-center justify-center">
+                  <Ionicons name="refresh" size={20} color="#fb923c" />
+                  <Text className="text-orange-400 text-xs mt-1">Retry</Text>
+                </TouchableOpacity>
+              ) : null
+            }
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderListHeader = () => (
+    <>
+      {/* Category Selection */}
+      <View className="px-6 py-6 pb-6">
+        <View className="bg-gray-800 rounded-2xl p-6 border border-orange-500/10">
+          <View className="flex-row items-center mb-4">
+            <View className="bg-orange-500/10 p-2 rounded-full mr-3">
+              <Ionicons name="grid-outline" size={20} color="#fb923c" />
+            </View>
+            <Text className="text-white text-xl font-bold">Browse Categories</Text>
+          </View>
+
+          <View className="bg-gray-700 rounded-xl border border-orange-500/20 overflow-hidden">
+            <Picker
+              selectedValue={selectedCategorySlug}
+              onValueChange={handleCategoryChange}
+              enabled={!isLoading}
+              style={{ color: "white", backgroundColor: "transparent" }}
+              dropdownIconColor="#fb923c"
             >
-              <Text className="text-white font-medium">Logout</Text>
-            </TouchableOpacity>
+              <Picker.Item label="Choose a category..." value="" />
+              {categories.map((category) => (
+                <Picker.Item
+                  key={category.slug}
+                  label={category.name}
+                  value={category.slug}
+                />
+              ))}
+            </Picker>
           </View>
+
+          {selectedCategorySlug && (
+            <View className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 mt-4">
+              <View className="flex-row items-center">
+                <Ionicons name="checkmark-circle" size={16} color="#fb923c" />
+                <Text className="text-orange-300 text-sm font-medium ml-2">
+                  Selected Category:
+                </Text>
+              </View>
+              <Text className="text-white font-semibold mt-1">
+                {categories.find((cat) => cat.slug === selectedCategorySlug)?.name}
+              </Text>
+            </View>
+          )}
         </View>
       </View>
 
-      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+      {!selectedCategorySlug && renderFeatured()}
 
-        {/* Category Selection */}
-        <View className="px-6 py-6 pb-6">
-          <View className="bg-gray-800 rounded-2xl p-6 border border-orange-500/10">
-            <View className="flex-row items-center mb-4">
+      {/* Products Header */}
+      {showProducts && (
+        <View className="px-6 pb-2">
+          <View className="flex-row items-center justify-between mb-4">
+            <View className="flex-row items-center">
               <View className="bg-orange-500/10 p-2 rounded-full mr-3">
-                <Ionicons name="grid-outline" size={20} color="#fb923c" />
+                <Ionicons name="bag-outline" size={20} color="#fb923c" />
+              </View>
+              <View>
+                <Text className="text-white text-xl font-bold">Products</Text>
+                <Text className="text-gray-400 text-sm">
+                  {categories.find((cat) => cat.slug === selectedCategorySlug)?.name}
+                </Text>
               </View>
-              <Text className="text-white text-xl font-bold">Browse Categories</Text>
             </View>
 
-            <View className="bg-gray-700 rounded-xl border border-orange-500/20 overflow-hidden">
-              <Picker
-                selectedValue={selectedCategorySlug}
-                onValueChange={handleCategoryChange}
-                enabled={!isLoading}
-                style={{ color: "white", backgroundColor: "transparent" }}
-                dropdownIconColor="#fb923c"
-              >
-                <Picker.Item label="Choose a category..." value="" />
-                {categories.map((category) => (
-                  <Picker.Item
-                    key={category.slug}
-                    label={category.name}
-                    value={category.slug}
-                  />
-                ))}
-              </Picker>
+            <View className="bg-orange-500/20 px-3 py-2 rounded-full">
+              <Text className="text-orange-300 text-sm font-medium">
+                {visibleProducts.length === productList.total
+                  ? `${productList.total} items`
+                  : `${visibleProducts.length} of ${productList.total}`}
+              </Text>
             </View>
+          </View>
 
-            {selectedCategorySlug && (
-              <View className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 mt-4">
-                <View className="flex-row items-center">
-                  <Ionicons name="checkmark-circle" size={16} color="#fb923c" />
-                  <Text className="text-orange-300 text-sm font-medium ml-2">
-                    Selected Category:
+          {/* Sort & Filter */}
+          {products.length > 0 && (
+            <View className="mb-4">
+              <View className="flex-row items-center">
+                <TouchableOpacity
+                  onPress={() => setShowFilters(true)}
+                  className={`flex-row items-center px-3 py-2 rounded-full border mr-2 ${
+                    activeFilterCount > 0 ? "bg-orange-500/10 border-orange-500" : "border-gray-600"
+                  }`}
+                >
+                  <Ionicons name="options-outline" size={16} color="#fb923c" />
+                  <Text className="text-orange-300 text-sm font-medium ml-1">
+                    Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ""}
                   </Text>
+                </TouchableOpacity>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View className="flex-row gap-2">
+                    {SORT_OPTIONS.map((option) => (
+                      <TouchableOpacity
+                        key={option.value}
+                        onPress={() => setSort(option.value)}
+                        className={`px-3 py-2 rounded-full ${
+                          sort === option.value ? "bg-orange-600" : "bg-gray-700"
+                        }`}
+                      >
+                        <Text
+                          className={`text-sm ${
+                            sort === option.value ? "text-white font-semibold" : "text-gray-300"
+                          }`}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </ScrollView>
+              </View>
+
+              {filterChips.length > 0 && (
+                <View className="flex-row flex-wrap gap-2 mt-3">
+                  {filterChips.map((chip) => (
+                    <TouchableOpacity
+                      key={`${chip.kind}-${chip.label}`}
+                      onPress={() => setFilters(removeFilterChip(filters, chip))}
+                      className="flex-row items-center bg-orange-500/10 border border-orange-500/40 px-3 py-1 rounded-full"
+                    >
+                      <Text className="text-orange-300 text-xs mr-1">{chip.label}</Text>
+                      <Ionicons name="close" size={12} color="#fb923c" />
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity onPress={clearFilters} className="px-2 py-1">
+                    <Text className="text-gray-400 text-xs underline">Clear all</Text>
+                  </TouchableOpacity>
                 </View>
-                <Text className="text-white font-semibold mt-1">
-                  {categories.find((cat) => cat.slug === selectedCategorySlug)?.name}
+              )}
+            </View>
+          )}
+        </View>
+      )}
+    </>
+  );
+
+  const renderListEmpty = () => {
+    // Loading Indicator
+    if (isLoading) {
+      return (
+        <View className="px-6 pb-6">
+          <View className="bg-gray-800 rounded-2xl p-12 items-center border border-orange-500/10">
+            <ActivityIndicator size="large" color="#fb923c" />
+            <Text className="text-orange-300 text-lg mt-4 font-medium">
+              Loading products...
+            </Text>
+            <Text className="text-gray-400 text-sm mt-2">
+              Please wait while we fetch the latest products
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
+    if (productList.status === "error") {
+      return (
+        <View className="px-6 pb-6">
+          <View className="bg-gray-800 rounded-2xl p-12 items-center border border-orange-500/10">
+            <View className="bg-red-500/10 p-4 rounded-full mb-4">
+              <Ionicons name="cloud-offline-outline" size={40} color="#ef4444" />
+            </View>
+            <Text className="text-red-400 text-lg font-medium">Failed to fetch products</Text>
+            <TouchableOpacity onPress={productList.retry} className="bg-orange-600 px-4 py-2 rounded-xl mt-4">
+              <Text className="text-white font-medium">Retry</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    if (showProducts) {
+      return (
+        <View className="px-6">
+          <View className="items-center py-12">
+            <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+              <Ionicons name="bag-outline" size={40} color="#fb923c" />
+            </View>
+            <Text className="text-orange-300 text-lg font-medium">
+              No products found
+            </Text>
+            {products.length > 0 ? (
+              <>
+                <Text className="text-gray-400 text-center mt-2">
+                  None of the products in this category match your filters
                 </Text>
-              </View>
+                <TouchableOpacity onPress={clearFilters} className="bg-orange-600 px-4 py-2 rounded-xl mt-4">
+                  <Text className="text-white font-medium">Clear filters</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <Text className="text-gray-400 text-center mt-2">
+                This category {`doesn't`} have any products available right now
+              </Text>
             )}
           </View>
         </View>
+      );
+    }
 
-        {/* Loading Indicator */}
-        {isLoading && (
-          <View className="px-6 pb-6">
-            <View className="bg-gray-800 rounded-2xl p-12 items-center border border-orange-500/10">
-              <ActivityIndicator size="large" color="#fb923c" />
-              <Text className="text-orange-300 text-lg mt-4 font-medium">
-                Loading products...
-              </Text>
-              <Text className="text-gray-400 text-sm mt-2">
-                Please wait while we fetch the latest products
-              </Text>
-            </View>
+    // Empty State
+    return (
+      <View className="px-6 pb-6">
+        <View className="bg-gray-800 rounded-2xl p-12 items-center border border-orange-500/10">
+          <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+            <Ionicons name="storefront-outline" size={40} color="#fb923c" />
           </View>
-        )}
+          <Text className="text-orange-300 text-lg font-medium">
+            Ready to explore?
+          </Text>
+          <Text className="text-gray-400 text-center mt-2">
+            Select a category above to discover amazing products
+          </Text>
+        </View>
+      </View>
+    );
+  };
 
-        {/* Products List */}
-        {showProducts && !isLoading && (
-          <View className="px-6 pb-6">
-            <View className="bg-gray-800 rounded-2xl p-6 border border-orange-500/10">
-              <View className="flex-row items-center justify-between mb-6">
-                <View className="flex-row items-center">
-                  <View className="bg-orange-500/10 p-2 rounded-full mr-3">
-                    <Ionicons name="bag-outline" size={20} color="#fb923c" />
-                  </View>
-                  <View>
-                    <Text className="text-white text-xl font-bold">Products</Text>
-                    <Text className="text-gray-400 text-sm">
-                      {categories.find((cat) => cat.slug === selectedCategorySlug)?.name}
-                    </Text>
-                  </View>
-                </View>
-                
-                <View className="bg-orange-500/20 px-3 py-2 rounded-full">
-                  <Text className="text-orange-300 text-sm font-medium">
-                    {products.length} items
-                  </Text>
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+      
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-6 px-6 border-b border-orange-500/10">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text className="text-gray-400 text-sm">Welcome back,</Text>
+            <Text className="text-white text-2xl font-bold">
+              {user?.name || "User"}!
+            </Text>
+          </View>
+          
+          <View className="flex-row items-center gap-2">
+            <TouchableOpacity
+              onPress={() => router.push("/search")}
+              className="p-3 rounded-full bg-orange-600/10"
+            >
+              <Ionicons name="search-outline" size={20} color="#fb923c" />
+            </TouchableOpacity>
+            
+            <TouchableOpacity
+              onPress={() => router.push("/notifications")}
+              className="p-3 rounded-full bg-orange-600/10"
+            >
+              <Ionicons name="notifications-outline" size={20} color="#fb923c" />
+              {unreadCount > 0 && (
+                <View className="absolute -top-1 -right-1 bg-orange-600 rounded-full min-w-5 h-5 px-1 items-center justify-center">
+                  <Text className="text-white text-xs font-bold">{unreadCount}</Text>
                 </View>
-              </View>
+              )}
+            </TouchableOpacity>
 
-              {products.length > 0 ? (
-                <FlatList
-                  data={products}
-                  renderItem={renderProduct}
-                  keyExtractor={(item) => item.id.toString()}
-                  scrollEnabled={false}
-                  showsVerticalScrollIndicator={false}
-                />
-              ) : (
-                <View className="items-center py-12">
-                  <View className="bg-orange-500/10 p-4 rounded-full mb-4">
-                    <Ionicons name="bag-outline" size={40} color="#fb923c" />
-                  </View>
-                  <Text className="text-orange-300 text-lg font-medium">
-                    No products found
-                  </Text>
-                  <Text className="text-gray-400 text-center mt-2">
-                    This category doesn't have any products available right now
-                  </Text>
+            <TouchableOpacity
+              onPress={() => router.push("/cart")}
+              className="p-3 rounded-full bg-orange-600/10"
+            >
+              <Ionicons name="cart-outline" size={20} color="#fb923c" />
+              {cartTotals.itemCount > 0 && (
+                <View className="absolute -top-1 -right-1 bg-orange-600 rounded-full min-w-5 h-5 px-1 items-center justify-center">
+                  <Text className="text-white text-xs font-bold">{cartTotals.itemCount}</Text>
                 </View>
               )}
-            </View>
+            </TouchableOpacity>
+            
+            <TouchableOpacity onPress={() => router.push("/profile")} className="ml-1">
+              <Avatar name={user?.name ?? ""} uri={profile.avatarUri} size={40} />
+            </TouchableOpacity>
           </View>
-        )}
+        </View>
+      </View>
 
-        {/* Empty State */}
-        {!showProducts && !isLoading && (
+      <FlatList
+        data={showProducts ? visibleProducts : []}
+        renderItem={({ item }) => <View className="px-6">{renderProduct({ item })}</View>}
+        keyExtractor={(item) => item.id.toString()}
+        ListHeaderComponent={renderListHeader()}
+        ListEmptyComponent={renderListEmpty()}
+        ListFooterComponent={
           <View className="px-6 pb-6">
-            <View className="bg-gray-800 rounded-2xl p-12 items-center border border-orange-500/10">
-              <View className="bg-orange-500/10 p-4 rounded-full mb-4">
-                <Ionicons name="storefront-outline" size={40} color="#fb923c" />
-              </View>
-              <Text className="text-orange-300 text-lg font-medium">
-                Ready to explore?
-              </Text>
-              <Text className="text-gray-400 text-center mt-2">
-                Select a category above to discover amazing products
-              </Text>
-            </View>
+            {showProducts && (
+              <PaginationFooter
+                isLoadingMore={productList.isLoadingMore}
+                loadMoreFailed={productList.loadMoreFailed}
+                hasMore={productList.hasMore}
+                itemCount={products.length}
+                onRetry={productList.retry}
+              />
+            )}
           </View>
-        )}
+        }
+        onEndReached={productList.loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={selectedCategorySlug ? productList.isRefreshing : featured.isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor="#fb923c"
+            colors={["#fb923c"]}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
 
-        {/* Bottom spacing */}
-        <View className="h-6" />
-      </ScrollView>
+      <ProductFilterSheet
+        visible={showFilters}
+        onClose={() => setShowFilters(false)}
+        products={wholeCategory.items}
+        isLoading={wholeCategory.status === "loading"}
+        filters={filters}
+        onApply={setFilters}
+      />
     </View>
   );
 }
\ No newline at end of file
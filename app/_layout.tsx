@@ -1,19 +1,83 @@
 import "../global.css";
 
-import { Slot } from "expo-router";
+import { ReactNode, useEffect, useRef } from "react";
+import { Alert } from "react-native";
+import { Slot, router, useGlobalSearchParams, usePathname, useSegments } from "expo-router";
 import { SafeAreaProvider, SafeAreaView } from "react-native-safe-area-context";
-import { AuthProvider } from "../contexts/AuthContext";
+import { AddressBookProvider } from "../contexts/AddressBookContext";
+import { AuthProvider, useAuth } from "../contexts/AuthContext";
+import { BrowseProvider } from "../contexts/BrowseContext";
+import { CartProvider } from "../contexts/CartContext";
+import { NotificationsProvider } from "../contexts/NotificationsContext";
+import { OrdersProvider } from "../contexts/OrdersContext";
+import { PaymentMethodsProvider } from "../contexts/PaymentMethodsContext";
+import { WishlistProvider } from "../contexts/WishlistContext";
 import { StatusBar } from "expo-status-bar";
+import LocalNotificationHost from "@/components/LocalNotificationHost";
+import OfflineBanner from "@/components/OfflineBanner";
+import { currentRoutePath, isLinkableRoute, setPendingLink } from "@/lib/deepLinks";
+import { isSessionValid } from "@/lib/session";
+
+// Any touch counts as activity for the session's idle timeout. When the session
+// lapses, send the user back to the auth screens. A deep link opened while
+// signed out is held and followed once the user logs in.
+function SessionGate({ children }: { children: ReactNode }) {
+  const { session, isLoading, sessionExpired, clearSessionExpired, recordActivity } = useAuth();
+  const pathname = usePathname();
+  const segments = useSegments();
+  const params = useGlobalSearchParams();
+  const isSignedIn = isSessionValid(session);
+  const needsLogin = !isLoading && !isSignedIn && isLinkableRoute(segments[0]);
+  const routeRef = useRef({ pathname, segments: segments as string[], params });
+  routeRef.current = { pathname, segments: segments as string[], params };
+
+  useEffect(() => {
+    if (!sessionExpired) return;
+    clearSessionExpired();
+    // On a linkable route the effect below redirects instead, keeping the link to come back to
+    if (!needsLogin) router.replace("/(auth)");
+    Alert.alert("Session expired", "Please sign in again to continue.");
+  }, [sessionExpired, needsLogin, clearSessionExpired]);
+
+  useEffect(() => {
+    if (!needsLogin) return;
+    const route = routeRef.current;
+    setPendingLink(currentRoutePath(route.pathname, route.segments, route.params));
+    router.replace("/(auth)/login");
+  }, [needsLogin]);
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: "black" }} onTouchStart={recordActivity}>
+      <OfflineBanner />
+      {children}
+      <LocalNotificationHost />
+    </SafeAreaView>
+  );
+}
 
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <SafeAreaProvider>
-        <SafeAreaView style={{ flex: 1, backgroundColor: "black" }}>
-          <StatusBar style="light" /> {/* Recommended for consistent status bar theme */}
-          <Slot /> {/* Automatically renders routes */}
-        </SafeAreaView>
-      </SafeAreaProvider>
+      <CartProvider>
+        <WishlistProvider>
+          <OrdersProvider>
+            <AddressBookProvider>
+              <PaymentMethodsProvider>
+                <NotificationsProvider>
+                  <BrowseProvider>
+                    <SafeAreaProvider>
+                      <SessionGate>
+                        <StatusBar style="light" /> {/* Recommended for consistent status bar theme */}
+                        <Slot /> {/* Automatically renders routes */}
+                      </SessionGate>
+                    </SafeAreaProvider>
+                  </BrowseProvider>
+                </NotificationsProvider>
+              </PaymentMethodsProvider>
+            </AddressBookProvider>
+          </OrdersProvider>
+        </WishlistProvider>
+      </CartProvider>
     </AuthProvider>
   );
 }
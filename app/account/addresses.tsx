@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, StatusBar, FlatList, Alert } from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import AddressFormModal from "@/components/AddressFormModal";
+import { useAddressBook } from "@/contexts/AddressBookContext";
+import { AddressInput, SavedAddress, addressTitle, formatAddressLine } from "@/lib/addresses";
+import { COUNTRY_FORMATS } from "@/lib/countries";
+
+export default function Addresses() {
+  const { addresses, defaultAddress, addAddress, updateAddress, removeAddress, setDefaultAddress } =
+    useAddressBook();
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<SavedAddress | undefined>();
+
+  const openForm = (address?: SavedAddress) => {
+    setEditing(address);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (input: AddressInput) => {
+    if (editing) {
+      await updateAddress(editing.id, input);
+    } else {
+      await addAddress(input);
+    }
+  };
+
+  const handleDelete = (address: SavedAddress) => {
+    Alert.alert("Delete Address", `Remove "${addressTitle(address)}" from your addresses?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => removeAddress(address.id) },
+    ]);
+  };
+
+  const renderAddress = ({ item }: { item: SavedAddress }) => {
+    const isDefault = item.id === defaultAddress?.id;
+    return (
+      <View
+        className={`bg-gray-800 rounded-2xl p-4 mb-3 border ${
+          isDefault ? "border-orange-500/60" : "border-orange-500/10"
+        }`}
+      >
+        <View className="flex-row items-center">
+          <Text className="text-white font-semibold flex-1" numberOfLines={1}>
+            {addressTitle(item)}
+          </Text>
+          {isDefault && (
+            <View className="bg-orange-500/10 px-2 py-1 rounded-full">
+              <Text className="text-orange-400 text-xs font-semibold">Default</Text>
+            </View>
+          )}
+        </View>
+        {item.label ? <Text className="text-gray-300 mt-1">{item.fullName}</Text> : null}
+        <Text className="text-gray-400 text-sm mt-1">{formatAddressLine(item)}</Text>
+        <Text className="text-gray-400 text-sm">
+          {COUNTRY_FORMATS[item.country].dialCode} {item.phone}
+        </Text>
+
+        <View className="flex-row items-center gap-4 mt-3 pt-3 border-t border-gray-700">
+          {!isDefault && (
+            <TouchableOpacity onPress={() => setDefaultAddress(item.id)}>
+              <Text className="text-orange-400 text-sm font-medium">Set as default</Text>
+            </TouchableOpacity>
+          )}
+          <View className="flex-1" />
+          <TouchableOpacity onPress={() => openForm(item)} className="p-1">
+            <Ionicons name="create-outline" size={20} color="#fb923c" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(item)} className="p-1">
+            <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-lg font-bold text-white flex-1">Saved Addresses</Text>
+          <TouchableOpacity onPress={() => openForm()} className="p-2 rounded-full bg-orange-600/10">
+            <Ionicons name="add" size={24} color="#fb923c" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={addresses}
+        renderItem={renderAddress}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View className="flex-1 justify-center items-center px-6">
+            <Ionicons name="location-outline" size={64} color="#fb923c" />
+            <Text className="text-white text-lg font-bold mt-4">No saved addresses</Text>
+            <Text className="text-gray-400 text-center mt-2">
+              Save an address to fill in checkout faster.
+            </Text>
+            <TouchableOpacity
+              onPress={() => openForm()}
+              className="mt-6 bg-orange-600 px-6 py-3 rounded-xl"
+            >
+              <Text className="text-white font-semibold">Add Address</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      <AddressFormModal
+        visible={showForm}
+        onClose={() => setShowForm(false)}
+        address={editing}
+        onSubmit={handleSubmit}
+      />
+    </View>
+  );
+}
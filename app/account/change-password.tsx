@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  StatusBar,
+  Keyboard,
+} from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import PasswordRequirements from "@/components/PasswordRequirements";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import { confirmPasswordRules, newPasswordRules } from "@/lib/formRules";
+import { Schema, required } from "@/lib/validation";
+
+type PasswordValues = {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+};
+
+const passwordSchema: Schema<PasswordValues> = {
+  currentPassword: [required("Current password is required")],
+  newPassword: [
+    ...newPasswordRules,
+    (value, values) =>
+      value === values.currentPassword ? "Choose a password you haven't used here" : null,
+  ],
+  confirmPassword: confirmPasswordRules<PasswordValues>("newPassword"),
+};
+
+export default function ChangePassword() {
+  const { changePassword } = useAuth();
+  const { values, errors, validate, setValue, setFieldTouched } = useForm<PasswordValues>({
+    initialValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+    schema: passwordSchema,
+  });
+  const { currentPassword, newPassword } = values;
+  // Set when the account rejects the current password, which the schema can't know about
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    Keyboard.dismiss();
+    if (!validate()) return;
+
+    setIsSaving(true);
+    const result = await changePassword(currentPassword, newPassword);
+    setIsSaving(false);
+
+    if (result.status === "invalid") {
+      setSubmitError(
+        `Current password is incorrect. ${result.remainingAttempts} attempt(s) remaining.`
+      );
+      return;
+    }
+    if (result.status === "locked") {
+      const minutes = Math.ceil((result.lockedUntil - Date.now()) / 60000);
+      setSubmitError(`Too many incorrect attempts. Please wait ${minutes} minute(s) and try again.`);
+      return;
+    }
+    if (result.status === "error") {
+      Alert.alert("Error", "We couldn't update your password. Please try again.");
+      return;
+    }
+    Alert.alert("Password Changed", "Your password has been updated.", [
+      { text: "OK", onPress: () => router.back() },
+    ]);
+  };
+
+  const renderField = (label: string, field: keyof PasswordValues) => {
+    const error =
+      field === "currentPassword" ? errors.currentPassword ?? submitError ?? undefined : errors[field];
+    return (
+      <View className="mb-4">
+        <Text className="text-gray-300 mb-2">{label}</Text>
+        <TextInput
+          value={values[field]}
+          onChangeText={(text) => {
+            setValue(field, text);
+            if (field === "currentPassword") setSubmitError(null);
+          }}
+          onBlur={() => setFieldTouched(field)}
+          secureTextEntry
+          maxLength={128}
+          autoCapitalize="none"
+          className={`bg-gray-800 border rounded-xl px-4 py-3 text-white ${
+            error ? "border-red-500" : "border-gray-700"
+          }`}
+        />
+        {error && (
+          <View className="flex-row items-center mt-1">
+            <Ionicons name="alert-circle" size={16} color="#ef4444" />
+            <Text className="text-red-400 text-sm ml-1">{error}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-lg font-bold text-white">Change Password</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        className="flex-1 px-4 py-6"
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {renderField("Current Password", "currentPassword")}
+        {renderField("New Password", "newPassword")}
+        {newPassword ? (
+          <View className="-mt-2 mb-4">
+            <PasswordRequirements password={newPassword} />
+          </View>
+        ) : null}
+        {renderField("Confirm New Password", "confirmPassword")}
+
+        <TouchableOpacity
+          onPress={handleSave}
+          disabled={isSaving}
+          className={`py-4 rounded-xl items-center mt-4 ${isSaving ? "bg-gray-600" : "bg-orange-600"}`}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text className="text-white font-bold text-lg">Update Password</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  StatusBar,
+  Keyboard,
+  TextInputProps,
+} from "react-native";
+import { router } from "expo-router";
+import * as ImagePicker from "expo-image-picker";
+import { Ionicons } from "@expo/vector-icons";
+import Avatar from "@/components/Avatar";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import {
+  COUNTRY_CODES,
+  COUNTRY_FORMATS,
+  CountryCode,
+  DEFAULT_COUNTRY,
+  normalizePhone,
+} from "@/lib/countries";
+import { fullNameRules, phoneRules } from "@/lib/formRules";
+import { Schema, optional } from "@/lib/validation";
+
+type ProfileValues = {
+  name: string;
+  phone: string;
+};
+
+const profileSchema = (country: CountryCode): Schema<ProfileValues> => ({
+  name: fullNameRules,
+  phone: [optional(...phoneRules(country))],
+});
+
+export default function EditProfile() {
+  const { user, profile, updateProfile, updateAvatar } = useAuth();
+  const savedCountry = profile.phoneCountry ?? DEFAULT_COUNTRY;
+  const [country, setCountry] = useState<CountryCode>(savedCountry);
+  const { values, errors, isDirty, setValue, setFieldTouched, validate } = useForm<ProfileValues>({
+    initialValues: { name: user?.name ?? "", phone: profile.phone ?? "" },
+    schema: profileSchema(country),
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUpdatingAvatar, setIsUpdatingAvatar] = useState(false);
+  const hasChanges = isDirty || country !== savedCountry;
+  const countryFormat = COUNTRY_FORMATS[country];
+
+  const changeAvatar = async (sourceUri: string | null) => {
+    setIsUpdatingAvatar(true);
+    const updated = await updateAvatar(sourceUri);
+    setIsUpdatingAvatar(false);
+    if (!updated) Alert.alert("Error", "Failed to update your photo");
+  };
+
+  const pickAvatar = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("Photos Unavailable", "Allow access to your photos to choose a profile picture.");
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.7,
+    });
+    if (!result.canceled && result.assets[0]) {
+      await changeAvatar(result.assets[0].uri);
+    }
+  };
+
+  const handleAvatarPress = () => {
+    if (!profile.avatarUri) {
+      pickAvatar();
+      return;
+    }
+    Alert.alert("Profile Photo", undefined, [
+      { text: "Choose New Photo", onPress: pickAvatar },
+      { text: "Remove Photo", style: "destructive", onPress: () => changeAvatar(null) },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleSave = async () => {
+    Keyboard.dismiss();
+    if (!validate()) return;
+
+    const phone = values.phone.trim() ? normalizePhone(values.phone, country) : undefined;
+    setIsSaving(true);
+    const saved = await updateProfile({
+      name: values.name.trim(),
+      phone,
+      phoneCountry: phone ? country : undefined,
+    });
+    setIsSaving(false);
+
+    if (!saved) {
+      Alert.alert("Error", "Failed to save your profile");
+      return;
+    }
+    Alert.alert("Profile Updated", "Your details have been saved.", [
+      { text: "OK", onPress: () => router.back() },
+    ]);
+  };
+
+  const renderField = (
+    label: string,
+    field: keyof ProfileValues,
+    inputProps: TextInputProps = {}
+  ) => (
+    <View className="mb-4">
+      <Text className="text-gray-300 mb-2">{label}</Text>
+      <TextInput
+        value={values[field]}
+        onChangeText={(text) => setValue(field, text)}
+        onBlur={() => setFieldTouched(field)}
+        placeholderTextColor="#6b7280"
+        className={`bg-gray-800 border rounded-xl px-4 py-3 text-white ${
+          errors[field] ? "border-red-500" : "border-gray-700"
+        }`}
+        {...inputProps}
+      />
+      {errors[field] && (
+        <View className="flex-row items-center mt-1">
+          <Ionicons name="alert-circle" size={16} color="#ef4444" />
+          <Text className="text-red-400 text-sm ml-1 flex-1">{errors[field]}</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-lg font-bold text-white">Edit Profile</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        className="flex-1 px-4 py-6"
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Avatar */}
+        <View className="items-center mb-6">
+          <TouchableOpacity onPress={handleAvatarPress} disabled={isUpdatingAvatar}>
+            <Avatar name={values.name || user?.name || ""} uri={profile.avatarUri} size={96} />
+            <View className="absolute bottom-0 right-0 bg-orange-600 p-2 rounded-full">
+              {isUpdatingAvatar ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Ionicons name="camera" size={16} color="white" />
+              )}
+            </View>
+          </TouchableOpacity>
+          <Text className="text-gray-400 text-sm mt-2">{user?.email}</Text>
+        </View>
+
+        {renderField("Full Name", "name", { autoCapitalize: "words", maxLength: 50 })}
+
+        <Text className="text-gray-300 mb-2">Country</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+          <View className="flex-row gap-2">
+            {COUNTRY_CODES.map((code) => (
+              <TouchableOpacity
+                key={code}
+                onPress={() => setCountry(code)}
+                className={`px-4 py-2 rounded-full border ${
+                  country === code ? "bg-orange-500/10 border-orange-500" : "bg-gray-800 border-gray-700"
+                }`}
+              >
+                <Text className={country === code ? "text-orange-400" : "text-white"}>
+                  {COUNTRY_FORMATS[code].name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+
+        <View className="flex-row items-start gap-2">
+          <View className="bg-gray-800 border border-gray-700 rounded-xl px-3 py-3 mt-8">
+            <Text className="text-gray-300">{countryFormat.dialCode}</Text>
+          </View>
+          <View className="flex-1">
+            {renderField("Phone (optional)", "phone", {
+              keyboardType: "phone-pad",
+              placeholder: countryFormat.phoneExample,
+            })}
+          </View>
+        </View>
+
+        <TouchableOpacity
+          onPress={handleSave}
+          disabled={isSaving || !hasChanges}
+          className={`py-4 rounded-xl items-center mt-4 mb-12 ${
+            isSaving || !hasChanges ? "bg-gray-600" : "bg-orange-600"
+          }`}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text className="text-white font-bold text-lg">Save Changes</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
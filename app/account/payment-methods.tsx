@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, StatusBar, FlatList, Alert } from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import CardBrandIcon from "@/components/CardBrandIcon";
+import CardFormModal from "@/components/CardFormModal";
+import { usePaymentMethods } from "@/contexts/PaymentMethodsContext";
+import { SavedCard, describeCard, isCardExpired } from "@/lib/savedCards";
+
+export default function PaymentMethods() {
+  const { cards, defaultCard, addCard, removeCard, setDefaultCard } = usePaymentMethods();
+  const [showForm, setShowForm] = useState(false);
+
+  const handleAdd = async (cardNumber: string, expiryDate: string) => {
+    await addCard(cardNumber, expiryDate);
+  };
+
+  const handleRemove = (card: SavedCard) => {
+    Alert.alert("Remove Card", `Remove ${describeCard(card)} from your payment methods?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Remove", style: "destructive", onPress: () => removeCard(card.id) },
+    ]);
+  };
+
+  const renderCard = ({ item }: { item: SavedCard }) => {
+    const isDefault = item.id === defaultCard?.id;
+    const isExpired = isCardExpired(item);
+    return (
+      <View
+        className={`bg-gray-800 rounded-2xl p-4 mb-3 border ${
+          isDefault ? "border-orange-500/60" : "border-orange-500/10"
+        }`}
+      >
+        <View className="flex-row items-center">
+          <View className="w-10 items-center mr-3">
+            <CardBrandIcon brand={item.brand} />
+          </View>
+          <View className="flex-1">
+            <Text className="text-white font-semibold">{describeCard(item)}</Text>
+            <Text className={`text-sm ${isExpired ? "text-red-400" : "text-gray-400"}`}>
+              {isExpired ? `Expired ${item.expiryDate}` : `Expires ${item.expiryDate}`}
+            </Text>
+          </View>
+          {isDefault && (
+            <View className="bg-orange-500/10 px-2 py-1 rounded-full">
+              <Text className="text-orange-400 text-xs font-semibold">Default</Text>
+            </View>
+          )}
+        </View>
+
+        <View className="flex-row items-center gap-4 mt-3 pt-3 border-t border-gray-700">
+          {!isDefault && !isExpired && (
+            <TouchableOpacity onPress={() => setDefaultCard(item.id)}>
+              <Text className="text-orange-400 text-sm font-medium">Set as default</Text>
+            </TouchableOpacity>
+          )}
+          <View className="flex-1" />
+          <TouchableOpacity onPress={() => handleRemove(item)} className="p-1">
+            <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-lg font-bold text-white flex-1">Payment Methods</Text>
+          <TouchableOpacity
+            onPress={() => setShowForm(true)}
+            className="p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="add" size={24} color="#fb923c" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={cards}
+        renderItem={renderCard}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View className="flex-1 justify-center items-center px-6">
+            <Ionicons name="card-outline" size={64} color="#fb923c" />
+            <Text className="text-white text-lg font-bold mt-4">No saved cards</Text>
+            <Text className="text-gray-400 text-center mt-2">
+              Save a card to pay with just its CVV at checkout.
+            </Text>
+            <TouchableOpacity
+              onPress={() => setShowForm(true)}
+              className="mt-6 bg-orange-600 px-6 py-3 rounded-xl"
+            >
+              <Text className="text-white font-semibold">Add Card</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      <CardFormModal visible={showForm} onClose={() => setShowForm(false)} onSubmit={handleAdd} />
+    </View>
+  );
+}
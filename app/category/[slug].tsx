@@ -0,0 +1,24 @@
+import React, { useEffect } from "react";
+import { View, ActivityIndicator } from "react-native";
+import { Redirect, useLocalSearchParams } from "expo-router";
+import { useBrowse } from "@/contexts/BrowseContext";
+
+// Entry point for category links: picks the category, then shows it on the home screen
+export default function CategoryLink() {
+  const { slug } = useLocalSearchParams<{ slug: string }>();
+  const { categorySlug, selectCategory } = useBrowse();
+
+  useEffect(() => {
+    if (slug) selectCategory(slug);
+  }, [slug, selectCategory]);
+
+  if (!slug || categorySlug === slug) {
+    return <Redirect href="/HomePage" />;
+  }
+
+  return (
+    <View className="flex-1 bg-gray-900 justify-center items-center">
+      <ActivityIndicator size="large" color="#fb923c" />
+    </View>
+  );
+}
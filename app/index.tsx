@@ -4,9 +4,10 @@ import React from 'react';
 import { View, ActivityIndicator } from 'react-native';
 import { Redirect } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { isSessionValid } from '@/lib/session';
 
 export default function Index() {
-  const { user, isLoading } = useAuth();
+  const { session, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -16,7 +17,7 @@ export default function Index() {
     );
   }
 
-  if (user) {
+  if (isSessionValid(session)) {
     return <Redirect href="/HomePage" />;
   }
 
@@ -0,0 +1,268 @@
+import React from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Image,
+  StatusBar,
+} from "react-native";
+import { useLocalSearchParams, router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { useCart } from "@/contexts/CartContext";
+import { useOrders } from "@/contexts/OrdersContext";
+import { getDiscountedPrice } from "@/lib/catalog";
+import { COUNTRY_FORMATS } from "@/lib/countries";
+import {
+  ORDER_STATUS_FLOW,
+  ORDER_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  canCancelOrder,
+} from "@/lib/orders";
+
+export default function OrderDetail() {
+  const { id } = useLocalSearchParams();
+  const { getOrder, cancelOrder } = useOrders();
+  const { addItem } = useCart();
+  const order = getOrder(String(id));
+
+  if (!order) {
+    return (
+      <View className="flex-1 bg-gray-900 justify-center items-center px-6">
+        <StatusBar barStyle="light-content" backgroundColor="#111827" />
+        <Ionicons name="alert-circle-outline" size={80} color="#fb923c" />
+        <Text className="text-white text-xl font-bold mt-4">Order not found</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          className="mt-6 bg-orange-600 px-8 py-3 rounded-xl"
+        >
+          <Text className="text-white font-semibold">Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const handleCancel = () => {
+    Alert.alert("Cancel Order", `Cancel order #${order.id}?`, [
+      { text: "Keep Order", style: "cancel" },
+      {
+        text: "Cancel Order",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await cancelOrder(order.id);
+          } catch (error) {
+            console.error("Failed to cancel order:", error);
+            Alert.alert("Error", "We couldn't cancel this order. Please try again.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleReorder = async () => {
+    let skipped = 0;
+    for (const { product, quantity } of order.items) {
+      const added = await addItem(product, quantity);
+      if (!added) skipped += 1;
+    }
+    if (skipped > 0) {
+      Alert.alert(
+        "Some items unavailable",
+        `${skipped} item(s) could not be added because they are out of stock or already in your cart.`
+      );
+    }
+    router.push("/cart");
+  };
+
+  const reachedAt = (status: string) =>
+    order.statusHistory.find((event) => event.status === status)?.at;
+  const cancelledAt = reachedAt("cancelled");
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-lg font-bold text-white flex-1" numberOfLines={1}>
+            Order #{order.id}
+          </Text>
+          <OrderStatusBadge status={order.status} />
+        </View>
+      </View>
+
+      <ScrollView className="flex-1 px-4 py-4" showsVerticalScrollIndicator={false}>
+        {/* Status Timeline */}
+        <View className="bg-gray-800 rounded-2xl p-6 mb-4">
+          <Text className="text-orange-400 text-lg font-bold mb-4">Status</Text>
+          {ORDER_STATUS_FLOW.map((status) => {
+            const at = reachedAt(status);
+            return (
+              <View key={status} className="flex-row items-center mb-3">
+                <Ionicons
+                  name={at ? "checkmark-circle" : "ellipse-outline"}
+                  size={20}
+                  color={at ? "#10b981" : "#6b7280"}
+                />
+                <Text className={`ml-3 flex-1 ${at ? "text-white font-medium" : "text-gray-500"}`}>
+                  {ORDER_STATUS_LABELS[status]}
+                </Text>
+                {at && (
+                  <Text className="text-gray-400 text-xs">{new Date(at).toLocaleString()}</Text>
+                )}
+              </View>
+            );
+          })}
+          {cancelledAt && (
+            <View className="flex-row items-center">
+              <Ionicons name="close-circle" size={20} color="#ef4444" />
+              <Text className="ml-3 flex-1 text-red-400 font-medium">Cancelled</Text>
+              <Text className="text-gray-400 text-xs">{new Date(cancelledAt).toLocaleString()}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Items */}
+        <View className="bg-gray-800 rounded-2xl p-6 mb-4">
+          <Text className="text-orange-400 text-lg font-bold mb-4">Items</Text>
+          <View className="gap-4">
+            {order.items.map(({ product, quantity }) => {
+              const unitPrice = getDiscountedPrice(product);
+              return (
+                <TouchableOpacity
+                  key={product.id}
+                  onPress={() => router.push(`/product/${product.id}`)}
+                  className="flex-row items-center"
+                >
+                  <Image
+                    source={{ uri: product.thumbnail }}
+                    className="w-12 h-12 rounded-lg bg-white/5"
+                  />
+                  <View className="flex-1 ml-3">
+                    <Text className="text-white font-medium" numberOfLines={1}>
+                      {product.title}
+                    </Text>
+                    <Text className="text-gray-400 text-sm">
+                      ${unitPrice.toFixed(2)} × {quantity}
+                    </Text>
+                  </View>
+                  <Text className="text-white font-semibold">
+                    ${(unitPrice * quantity).toFixed(2)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View className="border-t border-gray-700 mt-4 pt-4 gap-2">
+            <View className="flex-row justify-between">
+              <Text className="text-gray-400">Subtotal</Text>
+              <Text className="text-white">${order.summary.subtotal.toFixed(2)}</Text>
+            </View>
+            {order.summary.discount > 0 && (
+              <View className="flex-row justify-between">
+                <Text className="text-gray-400">Discount</Text>
+                <Text className="text-green-400">-${order.summary.discount.toFixed(2)}</Text>
+              </View>
+            )}
+            {order.summary.promotion && (
+              <View className="flex-row justify-between">
+                <Text className="text-gray-400">Promo ({order.summary.promotion.code})</Text>
+                <Text className="text-green-400">
+                  -${order.summary.promotion.discount.toFixed(2)}
+                </Text>
+              </View>
+            )}
+            <View className="flex-row justify-between">
+              <Text className="text-gray-400">Tax</Text>
+              <Text className="text-white">${order.summary.tax.toFixed(2)}</Text>
+            </View>
+            <View className="flex-row justify-between">
+              <Text className="text-gray-400">Shipping</Text>
+              <Text className="text-white">
+                {order.summary.shipping === 0 ? "Free" : `$${order.summary.shipping.toFixed(2)}`}
+              </Text>
+            </View>
+            <View className="flex-row justify-between mt-2">
+              <Text className="text-white font-bold text-lg">Total</Text>
+              <Text className="text-orange-400 font-bold text-lg">
+                ${order.summary.grandTotal.toFixed(2)}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Shipping & Payment */}
+        <View className="bg-gray-800 rounded-2xl p-6 mb-4">
+          <Text className="text-orange-400 text-lg font-bold mb-4">Shipping & Payment</Text>
+          <View className="flex-row items-start mb-4">
+            <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+              <Ionicons name="location-outline" size={20} color="#fb923c" />
+            </View>
+            <View className="flex-1">
+              <Text className="text-white font-medium mb-1">{order.shipping.fullName}</Text>
+              <Text className="text-gray-400 text-sm">{order.shipping.address}</Text>
+              <Text className="text-gray-400 text-sm">
+                {order.shipping.city} {order.shipping.zipCode}
+              </Text>
+              {order.shipping.country && (
+                <Text className="text-gray-400 text-sm">
+                  {COUNTRY_FORMATS[order.shipping.country].name}
+                </Text>
+              )}
+              <Text className="text-gray-400 text-sm">
+                {order.shipping.country && `${COUNTRY_FORMATS[order.shipping.country].dialCode} `}
+                {order.shipping.phone}
+              </Text>
+              <Text className="text-gray-400 text-sm">{order.shipping.email}</Text>
+            </View>
+          </View>
+          <View className="flex-row items-center">
+            <View className="bg-orange-500/10 p-2 rounded-full mr-4">
+              <Ionicons name="card-outline" size={20} color="#fb923c" />
+            </View>
+            <View className="flex-1">
+              <Text className="text-white font-medium">
+                {PAYMENT_METHOD_LABELS[order.paymentMethod]}
+              </Text>
+              {order.status === "cancelled" && order.paymentId && (
+                <Text className="text-green-400 text-sm">Refunded</Text>
+              )}
+            </View>
+          </View>
+        </View>
+
+        <View className="h-8" />
+      </ScrollView>
+
+      {/* Actions */}
+      <View className="bg-gray-800 border-t border-orange-500/10 px-4 py-4 flex-row gap-3">
+        {canCancelOrder(order) && (
+          <TouchableOpacity
+            onPress={handleCancel}
+            className="flex-1 bg-gray-700 py-3 rounded-xl items-center"
+          >
+            <Text className="text-red-400 font-semibold">Cancel Order</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={handleReorder}
+          className="flex-1 bg-orange-600 py-3 rounded-xl flex-row items-center justify-center"
+        >
+          <Ionicons name="refresh" size={18} color="white" />
+          <Text className="text-white font-semibold ml-2">Reorder</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,104 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  StatusBar,
+  FlatList,
+} from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { useOrders } from "@/contexts/OrdersContext";
+import { Order } from "@/lib/orders";
+
+export default function Orders() {
+  const { orders, isLoading } = useOrders();
+
+  const renderOrder = ({ item }: { item: Order }) => {
+    const itemCount = item.items.reduce((count, line) => count + line.quantity, 0);
+
+    return (
+      <TouchableOpacity
+        onPress={() => router.push(`/orders/${item.id}`)}
+        className="bg-gray-800 rounded-2xl p-4 mb-4 border border-orange-500/10"
+      >
+        <View className="flex-row items-center justify-between mb-3">
+          <View>
+            <Text className="text-white font-bold">#{item.id}</Text>
+            <Text className="text-gray-400 text-xs mt-1">
+              {new Date(item.createdAt).toLocaleString()}
+            </Text>
+          </View>
+          <OrderStatusBadge status={item.status} />
+        </View>
+
+        <View className="flex-row items-center justify-between">
+          <View className="flex-row">
+            {item.items.slice(0, 4).map(({ product }) => (
+              <Image
+                key={product.id}
+                source={{ uri: product.thumbnail }}
+                className="w-12 h-12 rounded-lg mr-2 bg-white/5"
+              />
+            ))}
+          </View>
+          <View className="items-end">
+            <Text className="text-gray-400 text-xs">
+              {itemCount} item{itemCount === 1 ? "" : "s"}
+            </Text>
+            <Text className="text-orange-400 font-bold text-lg">
+              ${item.summary.grandTotal.toFixed(2)}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-lg font-bold text-white flex-1">My Orders</Text>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color="#fb923c" />
+        </View>
+      ) : (
+        <FlatList
+          data={orders}
+          renderItem={renderOrder}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View className="flex-1 justify-center items-center">
+              <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+                <Ionicons name="receipt-outline" size={40} color="#fb923c" />
+              </View>
+              <Text className="text-orange-300 text-lg font-medium">No orders yet</Text>
+              <Text className="text-gray-400 text-center mt-2">
+                Orders you place will show up here
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
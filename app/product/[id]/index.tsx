@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -9,75 +9,60 @@ import {
   Image,
   Dimensions,
   StatusBar,
+  Share,
 } from "react-native";
 import { useLocalSearchParams, router } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
+import { Image as ExpoImage } from "expo-image";
+import ImageGallery from "@/components/ImageGallery";
 import PaymentModal from "@/components/PaymentModal";
-
-interface Review {
-  rating: number;
-  comment: string;
-  date: string;
-  reviewerName: string;
-  reviewerEmail: string;
-}
-
-interface Product {
-  id: number;
-  title: string;
-  description: string;
-  category: string;
-  price: number;
-  discountPercentage: number;
-  rating: number;
-  stock: number;
-  tags: string[];
-  brand: string;
-  sku: string;
-  weight: number;
-  dimensions: {
-    width: number;
-    height: number;
-    depth: number;
-  };
-  warrantyInformation: string;
-  shippingInformation: string;
-  availabilityStatus: string;
-  reviews: Review[];
-  returnPolicy: string;
-  minimumOrderQuantity: number;
-  images: string[];
-  thumbnail: string;
-}
+import ReviewCard from "@/components/ReviewCard";
+import { useCart } from "@/contexts/CartContext";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { useCachedResource } from "@/hooks/useCachedResource";
+import { useProductReviews } from "@/hooks/useProductReviews";
+import { getQuantityBounds } from "@/lib/cart";
+import { CatalogNotFoundError, fetchProduct, getDiscountedPrice } from "@/lib/catalog";
+import { CATALOG_TTL, catalogCacheKeys } from "@/lib/catalogCache";
+import { goBackOrHome, productLink } from "@/lib/deepLinks";
+import { sortReviews } from "@/lib/reviews";
 
 const { width } = Dimensions.get("window");
 
 export default function ProductDetail() {
   const { id } = useLocalSearchParams();
-  const [product, setProduct] = useState<Product | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const productResource = useCachedResource(
+    id ? catalogCacheKeys.product(String(id)) : null,
+    CATALOG_TTL.product,
+    (options) => fetchProduct(String(id), options)
+  );
+  const product = productResource.data;
+  const { reviews, summary, myReview } = useProductReviews(product);
+  const isLoading = productResource.status === "loading" || productResource.status === "idle";
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+  const carouselRef = useRef<ScrollView>(null);
+  const { addItem } = useCart();
+  const { isBookmarked, toggleBookmark } = useWishlist();
 
+  // Warm the image cache so the full-screen gallery opens without a blank frame
   useEffect(() => {
-    const fetchProduct = async () => {
-      try {
-        setIsLoading(true);
-        const response = await fetch(`https://dummyjson.com/products/${id}`);
-        const data = await response.json();
-        setProduct(data);
-      } catch (error) {
-        console.error("Failed to fetch product:", error);
-        Alert.alert("Error", "Failed to fetch product details");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    if (id) {
-      fetchProduct();
-    }
-  }, [id]);
+    if (!product) return;
+    ExpoImage.prefetch(product.images).catch((error) =>
+      console.error("Failed to prefetch product images:", error)
+    );
+  }, [product]);
+
+  const openGallery = (index: number) => {
+    setGalleryIndex(index);
+  };
+
+  // Leave the carousel on whichever image the gallery was closed on
+  const syncCarousel = (index: number) => {
+    setCurrentImageIndex(index);
+    carouselRef.current?.scrollTo({ x: index * (width - 32), animated: false });
+  };
 
   const handleBuyNow = () => {
     if (product) {
@@ -89,6 +74,37 @@ export default function ProductDetail() {
     setShowPaymentModal(false);
   };
 
+  const handleAddToCart = async () => {
+    if (!product) return;
+
+    const added = await addItem(product, getQuantityBounds(product).min);
+    if (added) {
+      Alert.alert("Added to Cart", "Product added to cart successfully!", [
+        { text: "Keep Shopping", style: "cancel" },
+        { text: "View Cart", onPress: () => router.push("/cart") },
+      ]);
+    } else {
+      Alert.alert("Unavailable", "You already have all available stock of this product in your cart.");
+    }
+  };
+
+  const handleShare = async () => {
+    if (!product) return;
+
+    const link = productLink(product.id);
+    try {
+      // iOS attaches the url separately; Android only shares the message text
+      await Share.share({
+        title: product.title,
+        message: `Check out ${product.title} — ${link}`,
+        url: link,
+      });
+    } catch (error) {
+      console.error("Error sharing product:", error);
+      Alert.alert("Error", "Failed to share this product");
+    }
+  };
+
   const renderStars = (rating: number) => {
     const stars = [];
     const fullStars = Math.floor(rating);
@@ -120,6 +136,34 @@ export default function ProductDetail() {
     );
   }
 
+  // Only a 404 means the product is gone; anything else (e.g. no connection) can be retried
+  if (!product && !(productResource.error instanceof CatalogNotFoundError)) {
+    return (
+      <View className="flex-1 bg-gray-900 justify-center items-center px-6">
+        <StatusBar barStyle="light-content" backgroundColor="#111827" />
+        <Ionicons name="cloud-offline-outline" size={80} color="#fb923c" />
+        <Text className="text-white text-xl font-bold mt-4">{`Couldn't`} load product</Text>
+        <Text className="text-gray-400 text-center mt-2">
+          Check your connection and try again.
+        </Text>
+        <View className="flex-row mt-6 gap-3">
+          <TouchableOpacity
+            onPress={goBackOrHome}
+            className="bg-gray-700 px-6 py-3 rounded-xl"
+          >
+            <Text className="text-white font-semibold">Go Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={productResource.refresh}
+            className="bg-orange-600 px-6 py-3 rounded-xl"
+          >
+            <Text className="text-white font-semibold">Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
   if (!product) {
     return (
       <View className="flex-1 bg-gray-900 justify-center items-center px-6">
@@ -130,7 +174,7 @@ export default function ProductDetail() {
           Sorry, we {`couldn't`} find the product {`you're`} looking for.
         </Text>
         <TouchableOpacity
-          onPress={() => router.back()}
+          onPress={goBackOrHome}
           className="mt-6 bg-orange-600 px-8 py-3 rounded-xl"
         >
           <Text className="text-white font-semibold">Go Back</Text>
@@ -139,7 +183,7 @@ export default function ProductDetail() {
     );
   }
 
-  const discountedPrice = product.price - (product.price * product.discountPercentage / 100);
+  const discountedPrice = getDiscountedPrice(product);
 
   return (
     <View className="flex-1 bg-gray-900">
@@ -149,7 +193,7 @@ export default function ProductDetail() {
       <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
         <View className="flex-row items-center">
           <TouchableOpacity
-            onPress={() => router.back()}
+            onPress={goBackOrHome}
             className="mr-4 p-2 rounded-full bg-orange-600/10"
           >
             <Ionicons name="arrow-back" size={24} color="#fb923c" />
@@ -157,7 +201,17 @@ export default function ProductDetail() {
           <Text className="text-lg font-bold text-white flex-1" numberOfLines={1}>
             Product Details
           </Text>
-          <TouchableOpacity className="p-2 rounded-full bg-orange-600/10">
+          <TouchableOpacity
+            onPress={() => toggleBookmark(product)}
+            className="mr-2 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons
+              name={isBookmarked(product.id) ? "bookmark" : "bookmark-outline"}
+              size={24}
+              color="#fb923c"
+            />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleShare} className="p-2 rounded-full bg-orange-600/10">
             <Ionicons name="share-outline" size={24} color="#fb923c" />
           </TouchableOpacity>
         </View>
@@ -167,6 +221,7 @@ export default function ProductDetail() {
         {/* Product Images */}
         <View className="bg-gray-800 mx-4 mt-4 rounded-2xl overflow-hidden">
           <ScrollView
+            ref={carouselRef}
             horizontal
             showsHorizontalScrollIndicator={false}
             pagingEnabled
@@ -176,14 +231,20 @@ export default function ProductDetail() {
             }}
           >
             {product.images.map((image, index) => (
-              <View key={index} className="bg-white/5 items-center justify-center" style={{ width: width - 32 }}>
+              <TouchableOpacity
+                key={index}
+                activeOpacity={0.9}
+                onPress={() => openGallery(index)}
+                className="bg-white/5 items-center justify-center"
+                style={{ width: width - 32 }}
+              >
                 <Image
                   source={{ uri: image }}
                   style={{ width: width - 64, height: 300 }}
                   className="rounded-xl"
                   resizeMode="contain"
                 />
-              </View>
+              </TouchableOpacity>
             ))}
           </ScrollView>
           
@@ -219,7 +280,7 @@ export default function ProductDetail() {
             <View className="flex-row items-center bg-gray-800 px-3 py-1 rounded-full">
               <Ionicons name="star" size={12} color="#fb923c" />
               <Text className="text-white text-sm ml-1 font-medium">
-                {product.rating}
+                {summary.average}
               </Text>
             </View>
           </View>
@@ -230,9 +291,9 @@ export default function ProductDetail() {
           
           <View className="flex-row items-center mb-4">
             <View className="flex-row items-center">
-              {renderStars(product.rating)}
+              {renderStars(summary.average)}
               <Text className="text-gray-400 ml-2 text-sm">
-                ({product.reviews.length} reviews)
+                ({summary.count} reviews)
               </Text>
             </View>
           </View>
@@ -345,47 +406,37 @@ export default function ProductDetail() {
               <View className="flex-row items-center">
                 <Ionicons name="star" size={16} color="#fb923c" />
                 <Text className="text-white ml-1 font-medium">
-                  {product.rating} ({product.reviews.length})
+                  {summary.average} ({summary.count})
                 </Text>
               </View>
             </View>
             
-            {product.reviews.length > 0 ? (
+            {reviews.length > 0 ? (
               <View className="gap-4">
-                {product.reviews.slice(0, 2).map((review, index) => (
-                  <View key={index} className="bg-gray-700/50 rounded-xl p-4">
-                    <View className="flex-row items-center justify-between mb-2">
-                      <Text className="text-white font-medium">{review.reviewerName}</Text>
-                      <Text className="text-gray-400 text-sm">
-                        {new Date(review.date).toLocaleDateString()}
-                      </Text>
-                    </View>
-                    
-                    <View className="flex-row items-center mb-2">
-                      {renderStars(review.rating)}
-                      <Text className="text-gray-400 ml-2 text-sm">({review.rating})</Text>
-                    </View>
-                    
-                    <Text className="text-gray-300 text-sm leading-5">{review.comment}</Text>
-                  </View>
+                {sortReviews(reviews, "newest").slice(0, 2).map((review) => (
+                  <ReviewCard key={review.id} review={review} isMine={review.id === myReview?.id} />
                 ))}
                 
-                {product.reviews.length > 2 && (
-                  <TouchableOpacity className="bg-orange-500/10 border border-orange-500/20 py-3 px-4 rounded-xl">
-                    <Text className="text-orange-300 text-center font-medium">
-                      View all {product.reviews.length} reviews
-                    </Text>
-                  </TouchableOpacity>
-                )}
+                <TouchableOpacity
+                  onPress={() => router.push(`/product/${product.id}/reviews`)}
+                  className="bg-orange-500/10 border border-orange-500/20 py-3 px-4 rounded-xl"
+                >
+                  <Text className="text-orange-300 text-center font-medium">
+                    {reviews.length > 2 ? `View all ${reviews.length} reviews` : "See ratings & write a review"}
+                  </Text>
+                </TouchableOpacity>
               </View>
             ) : (
-              <View className="items-center py-8">
+              <TouchableOpacity
+                onPress={() => router.push(`/product/${product.id}/reviews`)}
+                className="items-center py-8"
+              >
                 <Ionicons name="chatbubble-outline" size={40} color="#6b7280" />
                 <Text className="text-gray-400 text-center mt-2">No reviews yet</Text>
-                <Text className="text-gray-500 text-center text-sm mt-1">
+                <Text className="text-orange-300 text-center text-sm mt-1">
                   Be the first to review this product
                 </Text>
-              </View>
+              </TouchableOpacity>
             )}
           </View>
 
@@ -407,7 +458,8 @@ export default function ProductDetail() {
           <View className="flex-row items-center gap-3">
             <TouchableOpacity 
               className="bg-gray-700 px-4 py-3 rounded-xl"
-              onPress={() => Alert.alert("Added to Cart", "Product added to cart successfully!")}
+              onPress={handleAddToCart}
+              disabled={product.stock === 0}
             >
               <Ionicons name="cart-outline" size={20} color="#fb923c" />
             </TouchableOpacity>
@@ -432,9 +484,18 @@ export default function ProductDetail() {
         <PaymentModal
           visible={showPaymentModal}
           onClose={closePaymentModal}
-          product={product}
+          items={[{ product, quantity: getQuantityBounds(product).min }]}
         />
       )}
+
+      {/* Image Gallery */}
+      <ImageGallery
+        visible={galleryIndex !== null}
+        images={product.images}
+        initialIndex={galleryIndex ?? 0}
+        onClose={() => setGalleryIndex(null)}
+        onIndexChange={syncCarousel}
+      />
     </View>
   );
 }
\ No newline at end of file
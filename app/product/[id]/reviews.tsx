@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  StatusBar,
+  FlatList,
+  Alert,
+} from "react-native";
+import { useLocalSearchParams, router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import RatingHistogram from "@/components/RatingHistogram";
+import ReviewCard from "@/components/ReviewCard";
+import ReviewFormModal from "@/components/ReviewFormModal";
+import StarRating from "@/components/StarRating";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCachedResource } from "@/hooks/useCachedResource";
+import { useProductReviews } from "@/hooks/useProductReviews";
+import { fetchProduct } from "@/lib/catalog";
+import { CATALOG_TTL, catalogCacheKeys } from "@/lib/catalogCache";
+import {
+  DisplayReview,
+  REVIEW_SORT_OPTIONS,
+  ReviewSort,
+  filterReviewsByStars,
+  sortReviews,
+} from "@/lib/reviews";
+
+export default function ProductReviews() {
+  const { id } = useLocalSearchParams();
+  const productResource = useCachedResource(
+    id ? catalogCacheKeys.product(String(id)) : null,
+    CATALOG_TTL.product,
+    (options) => fetchProduct(String(id), options)
+  );
+  const product = productResource.data;
+  const { user } = useAuth();
+  const { reviews, summary, myReview, canReview, submitReview, removeMyReview } =
+    useProductReviews(product);
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const [starFilter, setStarFilter] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const visibleReviews = sortReviews(filterReviewsByStars(reviews, starFilter), sort);
+
+  const handleDeleteReview = () => {
+    Alert.alert("Delete Review", "Remove your review of this product?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          if (!(await removeMyReview())) {
+            Alert.alert("Error", "Failed to delete your review");
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderHeader = () => (
+    <View>
+      {/* Summary */}
+      <View className="bg-gray-800 rounded-2xl p-6 mb-4 border border-orange-500/10">
+        <View className="flex-row items-center">
+          <View className="items-center mr-6">
+            <Text className="text-white text-4xl font-bold">{summary.average.toFixed(1)}</Text>
+            <StarRating rating={summary.average} />
+            <Text className="text-gray-400 text-sm mt-1">
+              {summary.count} review{summary.count === 1 ? "" : "s"}
+            </Text>
+          </View>
+          <View className="flex-1">
+            <RatingHistogram
+              summary={summary}
+              selectedStars={starFilter}
+              onSelectStars={setStarFilter}
+            />
+          </View>
+        </View>
+      </View>
+
+      {/* Write / edit */}
+      {canReview ? (
+        <View className="flex-row gap-3 mb-4">
+          <TouchableOpacity
+            onPress={() => setShowForm(true)}
+            className="flex-1 flex-row items-center justify-center bg-orange-600 py-3 rounded-xl"
+          >
+            <Ionicons name="create-outline" size={18} color="white" />
+            <Text className="text-white font-semibold ml-2">
+              {myReview ? "Edit Your Review" : "Write a Review"}
+            </Text>
+          </TouchableOpacity>
+          {myReview && (
+            <TouchableOpacity
+              onPress={handleDeleteReview}
+              className="px-4 items-center justify-center rounded-xl bg-red-500/10 border border-red-500/30"
+            >
+              <Ionicons name="trash-outline" size={18} color="#ef4444" />
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : (
+        <Text className="text-gray-400 text-sm text-center mb-4">Sign in to write a review</Text>
+      )}
+
+      {/* Sort */}
+      <View className="flex-row items-center gap-2 mb-4">
+        {REVIEW_SORT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => setSort(option.value)}
+            className={`px-3 py-2 rounded-full ${sort === option.value ? "bg-orange-600" : "bg-gray-700"}`}
+          >
+            <Text
+              className={`text-sm ${sort === option.value ? "text-white font-semibold" : "text-gray-300"}`}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {starFilter !== null && (
+          <TouchableOpacity
+            onPress={() => setStarFilter(null)}
+            className="flex-row items-center bg-orange-500/10 border border-orange-500/40 px-3 py-2 rounded-full"
+          >
+            <Text className="text-orange-300 text-sm mr-1">{starFilter}★ only</Text>
+            <Ionicons name="close" size={12} color="#fb923c" />
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderReview = ({ item }: { item: DisplayReview }) => (
+    <View className="mb-3">
+      <ReviewCard review={item} isMine={!!user && item.userId === user.id} />
+    </View>
+  );
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="mr-4 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <View className="flex-1">
+            <Text className="text-lg font-bold text-white">Reviews</Text>
+            {product && (
+              <Text className="text-gray-400 text-sm" numberOfLines={1}>
+                {product.title}
+              </Text>
+            )}
+          </View>
+        </View>
+      </View>
+
+      {!product ? (
+        <View className="flex-1 justify-center items-center px-6">
+          {productResource.status === "error" ? (
+            <>
+              <Text className="text-gray-400 text-center">{`Couldn't`} load reviews.</Text>
+              <TouchableOpacity
+                onPress={productResource.refresh}
+                className="mt-4 bg-orange-600 px-6 py-3 rounded-xl"
+              >
+                <Text className="text-white font-semibold">Retry</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <ActivityIndicator size="large" color="#fb923c" />
+          )}
+        </View>
+      ) : (
+        <FlatList
+          data={visibleReviews}
+          renderItem={renderReview}
+          keyExtractor={(item) => item.id}
+          ListHeaderComponent={renderHeader()}
+          contentContainerStyle={{ padding: 16 }}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View className="items-center py-12">
+              <Ionicons name="chatbubble-outline" size={40} color="#6b7280" />
+              <Text className="text-gray-400 text-center mt-2">
+                {starFilter !== null ? `No ${starFilter}-star reviews` : "No reviews yet"}
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {product && (
+        <ReviewFormModal
+          visible={showForm}
+          onClose={() => setShowForm(false)}
+          productTitle={product.title}
+          initialRating={myReview?.rating}
+          initialComment={myReview?.comment}
+          onSubmit={submitReview}
+        />
+      )}
+    </View>
+  );
+}
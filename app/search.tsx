@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  StatusBar,
+  FlatList,
+  Keyboard,
+  RefreshControl,
+} from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import HighlightedText from "@/components/HighlightedText";
+import PaginationFooter from "@/components/PaginationFooter";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProductSearch } from "@/hooks/useProductSearch";
+import { Product, getDiscountedPrice } from "@/lib/catalog";
+import { goBackOrHome } from "@/lib/deepLinks";
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  getRecentSearches,
+  MIN_QUERY_LENGTH,
+  normalizeQuery,
+  removeRecentSearch,
+} from "@/lib/search";
+
+const MAX_SUGGESTIONS = 6;
+
+type Suggestion = { text: string; kind: "recent" | "product" };
+
+export default function Search() {
+  const params = useLocalSearchParams<{ q?: string }>();
+  const [query, setQuery] = useState(params.q ?? "");
+  const [isFocused, setIsFocused] = useState(!params.q);
+  // A search link opened while this screen is showing replaces the current query
+  const [linkedQuery, setLinkedQuery] = useState(params.q);
+  if (params.q !== linkedQuery) {
+    setLinkedQuery(params.q);
+    if (params.q) {
+      setQuery(params.q);
+      setIsFocused(false);
+    }
+  }
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const { user } = useAuth();
+  const search = useProductSearch(query);
+
+  useEffect(() => {
+    if (!user) return;
+    getRecentSearches(user.id)
+      .then(setRecentSearches)
+      .catch((error) => console.error("Error loading recent searches:", error));
+  }, [user]);
+
+  const rememberSearch = (term: string) => {
+    if (!user) return;
+    addRecentSearch(user.id, term)
+      .then(setRecentSearches)
+      .catch((error) => console.error("Error saving recent search:", error));
+  };
+
+  const submitSearch = (term: string) => {
+    setQuery(term);
+    setIsFocused(false);
+    Keyboard.dismiss();
+    rememberSearch(term);
+  };
+
+  const handleRemoveRecent = (term: string) => {
+    if (!user) return;
+    removeRecentSearch(user.id, term)
+      .then(setRecentSearches)
+      .catch((error) => console.error("Error removing recent search:", error));
+  };
+
+  const handleClearRecent = () => {
+    if (!user) return;
+    setRecentSearches([]);
+    clearRecentSearches(user.id).catch((error) =>
+      console.error("Error clearing recent searches:", error)
+    );
+  };
+
+  const handleProductPress = (product: Product) => {
+    rememberSearch(query);
+    router.push(`/product/${product.id}`);
+  };
+
+  const term = normalizeQuery(query).toLowerCase();
+  const suggestions: Suggestion[] = term
+    ? [
+        ...recentSearches
+          .filter((item) => item.toLowerCase().startsWith(term) && item.toLowerCase() !== term)
+          .map((text): Suggestion => ({ text, kind: "recent" })),
+        ...search.results.map((product): Suggestion => ({ text: product.title, kind: "product" })),
+      ]
+        .filter((item, index, all) => all.findIndex((other) => other.text === item.text) === index)
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const renderResult = ({ item }: { item: Product }) => (
+    <TouchableOpacity
+      onPress={() => handleProductPress(item)}
+      className="bg-gray-800 rounded-2xl p-4 mb-3 border border-orange-500/10 flex-row items-center"
+    >
+      <Image
+        source={{ uri: item.thumbnail }}
+        className="w-16 h-16 rounded-xl mr-4 bg-white/5"
+        resizeMode="cover"
+      />
+      <View className="flex-1">
+        <HighlightedText
+          text={item.title}
+          query={search.query}
+          numberOfLines={2}
+          className="text-white font-semibold text-base"
+        />
+        {item.brand ? <Text className="text-orange-300 text-sm mt-1">{item.brand}</Text> : null}
+        <Text className="text-orange-400 font-bold mt-1">
+          ${getDiscountedPrice(item).toFixed(2)}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color="#6b7280" />
+    </TouchableOpacity>
+  );
+
+  const renderSuggestions = () => (
+    <View className="bg-gray-800 rounded-2xl border border-orange-500/10 mx-4 mt-4">
+      {suggestions.map((suggestion) => (
+        <TouchableOpacity
+          key={`${suggestion.kind}-${suggestion.text}`}
+          onPress={() => submitSearch(suggestion.text)}
+          className="flex-row items-center px-4 py-3 border-b border-gray-700/50"
+        >
+          <Ionicons
+            name={suggestion.kind === "recent" ? "time-outline" : "search-outline"}
+            size={16}
+            color="#6b7280"
+          />
+          <HighlightedText
+            text={suggestion.text}
+            query={query}
+            numberOfLines={1}
+            className="text-gray-200 ml-3 flex-1"
+          />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderRecentSearches = () => (
+    <View className="px-4 pt-4">
+      {recentSearches.length > 0 ? (
+        <View className="bg-gray-800 rounded-2xl p-4 border border-orange-500/10">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-white font-bold text-base">Recent Searches</Text>
+            <TouchableOpacity onPress={handleClearRecent}>
+              <Text className="text-orange-400 text-sm font-medium">Clear all</Text>
+            </TouchableOpacity>
+          </View>
+          {recentSearches.map((item) => (
+            <View key={item} className="flex-row items-center py-2">
+              <TouchableOpacity
+                onPress={() => submitSearch(item)}
+                className="flex-row items-center flex-1"
+              >
+                <Ionicons name="time-outline" size={16} color="#6b7280" />
+                <Text className="text-gray-200 ml-3 flex-1" numberOfLines={1}>
+                  {item}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleRemoveRecent(item)} className="p-1">
+                <Ionicons name="close" size={16} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <View className="items-center py-16">
+          <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+            <Ionicons name="search-outline" size={40} color="#fb923c" />
+          </View>
+          <Text className="text-orange-300 text-lg font-medium">Search the store</Text>
+          <Text className="text-gray-400 text-center mt-2">
+            Find products by name, brand or category
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (term.length < MIN_QUERY_LENGTH) return renderRecentSearches();
+
+    if (search.status === "error") {
+      return (
+        <View className="items-center py-16 px-6">
+          <View className="bg-red-500/10 p-4 rounded-full mb-4">
+            <Ionicons name="cloud-offline-outline" size={40} color="#ef4444" />
+          </View>
+          <Text className="text-red-400 text-lg font-medium">Search failed</Text>
+          <Text className="text-gray-400 text-center mt-2">
+            Check your connection and try again
+          </Text>
+          <TouchableOpacity onPress={search.retry} className="bg-orange-600 px-6 py-3 rounded-xl mt-6">
+            <Text className="text-white font-semibold">Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (search.status === "success" && search.results.length === 0 && !search.isSettling) {
+      return (
+        <View className="items-center py-16 px-6">
+          <View className="bg-orange-500/10 p-4 rounded-full mb-4">
+            <Ionicons name="search-outline" size={40} color="#fb923c" />
+          </View>
+          <Text className="text-orange-300 text-lg font-medium">No results</Text>
+          <Text className="text-gray-400 text-center mt-2">
+            Nothing matches “{search.query}”. Try a different or shorter search.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={search.results}
+        renderItem={renderResult}
+        keyExtractor={(item) => item.id.toString()}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ padding: 16 }}
+        showsVerticalScrollIndicator={false}
+        onEndReached={search.loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={search.isRefreshing}
+            onRefresh={search.refresh}
+            tintColor="#fb923c"
+            colors={["#fb923c"]}
+          />
+        }
+        ListFooterComponent={
+          <PaginationFooter
+            isLoadingMore={search.isLoadingMore}
+            loadMoreFailed={search.loadMoreFailed}
+            hasMore={search.hasMore}
+            itemCount={search.results.length}
+            onRetry={search.retry}
+          />
+        }
+        ListHeaderComponent={
+          search.status === "success" ? (
+            <Text className="text-gray-400 text-sm mb-3">
+              {search.total} result{search.total === 1 ? "" : "s"} for “{search.query}”
+            </Text>
+          ) : (
+            <ActivityIndicator size="small" color="#fb923c" style={{ marginBottom: 12 }} />
+          )
+        }
+      />
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-gray-900">
+      <StatusBar barStyle="light-content" backgroundColor="#111827" />
+
+      {/* Header */}
+      <View className="bg-gray-800 pt-12 pb-4 px-4 border-b border-orange-500/10">
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={goBackOrHome}
+            className="mr-3 p-2 rounded-full bg-orange-600/10"
+          >
+            <Ionicons name="arrow-back" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <View className="flex-1 flex-row items-center bg-black rounded-xl border border-orange-500/30 px-3">
+            <Ionicons name="search-outline" size={18} color="#fb923c" />
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              onFocus={() => setIsFocused(true)}
+              onBlur={() => setIsFocused(false)}
+              onSubmitEditing={() => submitSearch(query)}
+              placeholder="Search products"
+              placeholderTextColor="#6b7280"
+              autoFocus={!params.q}
+              autoCorrect={false}
+              autoCapitalize="none"
+              returnKeyType="search"
+              className="flex-1 text-white py-3 ml-2"
+            />
+            {query.length > 0 && (
+              <TouchableOpacity onPress={() => setQuery("")} className="p-1">
+                <Ionicons name="close-circle" size={18} color="#6b7280" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+
+      {isFocused && suggestions.length > 0 ? renderSuggestions() : renderBody()}
+    </View>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  TextInputProps,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "@/contexts/AuthContext";
+import { useForm } from "@/hooks/useForm";
+import { AddressInput, SavedAddress } from "@/lib/addresses";
+import {
+  COUNTRY_CODES,
+  COUNTRY_FORMATS,
+  CountryCode,
+  DEFAULT_COUNTRY,
+  normalizePhone,
+} from "@/lib/countries";
+import {
+  cityRules,
+  fullNameRules,
+  phoneRules,
+  postalCodeRules,
+  streetAddressRules,
+} from "@/lib/formRules";
+import { Schema, maxLength } from "@/lib/validation";
+
+type AddressValues = {
+  label: string;
+  fullName: string;
+  phone: string;
+  address: string;
+  city: string;
+  zipCode: string;
+};
+
+const MAX_LABEL_LENGTH = 30;
+
+const addressSchema = (country: CountryCode): Schema<AddressValues> => ({
+  label: [maxLength(MAX_LABEL_LENGTH, `Keep it under ${MAX_LABEL_LENGTH} characters`)],
+  fullName: fullNameRules,
+  phone: phoneRules(country),
+  address: streetAddressRules,
+  city: cityRules,
+  zipCode: postalCodeRules(country),
+});
+
+interface AddressFormModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // The address being edited; a new one is added when missing
+  address?: SavedAddress;
+  onSubmit: (input: AddressInput) => Promise<void>;
+}
+
+export default function AddressFormModal({
+  visible,
+  onClose,
+  address,
+  onSubmit,
+}: AddressFormModalProps) {
+  const { user, profile } = useAuth();
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const { values, errors, setValue, setFieldTouched, validate, reset } = useForm<AddressValues>({
+    initialValues: { label: "", fullName: "", phone: "", address: "", city: "", zipCode: "" },
+    schema: addressSchema(country),
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const countryFormat = COUNTRY_FORMATS[country];
+
+  // Start from the address being edited, or the user's own details for a new one
+  const [wasVisible, setWasVisible] = useState(visible);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      const nextCountry = address?.country ?? profile.phoneCountry ?? DEFAULT_COUNTRY;
+      setCountry(nextCountry);
+      reset({
+        label: address?.label ?? "",
+        fullName: address?.fullName ?? user?.name ?? "",
+        phone: address?.phone ?? (profile.phoneCountry === nextCountry ? profile.phone ?? "" : ""),
+        address: address?.address ?? "",
+        city: address?.city ?? "",
+        zipCode: address?.zipCode ?? "",
+      });
+    }
+  }
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    setIsSaving(true);
+    await onSubmit({
+      label: values.label.trim() || undefined,
+      fullName: values.fullName.trim(),
+      phone: normalizePhone(values.phone, country),
+      address: values.address.trim(),
+      city: values.city.trim(),
+      zipCode: values.zipCode.trim().toUpperCase(),
+      country,
+    });
+    setIsSaving(false);
+    onClose();
+  };
+
+  const renderField = (
+    label: string,
+    field: keyof AddressValues,
+    inputProps: TextInputProps = {}
+  ) => (
+    <View className="mb-4">
+      <Text className="text-gray-300 mb-2">{label}</Text>
+      <TextInput
+        value={values[field]}
+        onChangeText={(text) => setValue(field, text)}
+        onBlur={() => setFieldTouched(field)}
+        placeholderTextColor="#6b7280"
+        className={`bg-black border rounded-lg px-4 py-3 text-white ${
+          errors[field] ? "border-red-500" : "border-gray-600"
+        }`}
+        {...inputProps}
+      />
+      {errors[field] && (
+        <View className="flex-row items-center mt-1">
+          <Ionicons name="alert-circle" size={16} color="#ef4444" />
+          <Text className="text-red-400 text-sm ml-1 flex-1">{errors[field]}</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1 bg-gray-900"
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-gray-700">
+          <TouchableOpacity onPress={onClose} className="p-2">
+            <Ionicons name="close" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-white text-lg font-bold">
+            {address ? "Edit Address" : "New Address"}
+          </Text>
+          <View className="w-10" />
+        </View>
+
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          {renderField("Label (optional)", "label", {
+            placeholder: "e.g. Home or Work",
+            maxLength: MAX_LABEL_LENGTH,
+          })}
+
+          <Text className="text-gray-300 mb-2">Country</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+            <View className="flex-row gap-2">
+              {COUNTRY_CODES.map((code) => (
+                <TouchableOpacity
+                  key={code}
+                  onPress={() => setCountry(code)}
+                  className={`px-4 py-2 rounded-full border ${
+                    country === code ? "bg-orange-500/10 border-orange-500" : "bg-black border-gray-600"
+                  }`}
+                >
+                  <Text className={country === code ? "text-orange-400" : "text-white"}>
+                    {COUNTRY_FORMATS[code].name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          {renderField("Full Name", "fullName", { autoCapitalize: "words" })}
+
+          <View className="flex-row items-start gap-2">
+            <View className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-3 mt-8">
+              <Text className="text-gray-300">{countryFormat.dialCode}</Text>
+            </View>
+            <View className="flex-1">
+              {renderField("Phone", "phone", {
+                keyboardType: "phone-pad",
+                placeholder: countryFormat.phoneExample,
+              })}
+            </View>
+          </View>
+
+          {renderField("Address", "address", { placeholder: "Street address" })}
+
+          <View className="flex-row gap-3 mb-8">
+            <View className="flex-1">{renderField("City", "city", { placeholder: "City" })}</View>
+            <View className="flex-1">
+              {renderField(countryFormat.postalLabel, "zipCode", {
+                placeholder: countryFormat.postalExample,
+                autoCapitalize: "characters",
+              })}
+            </View>
+          </View>
+        </ScrollView>
+
+        {/* Footer */}
+        <View className="p-4 border-t border-gray-700">
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={isSaving}
+            className="py-4 rounded-lg bg-orange-500"
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-white text-center font-semibold text-lg">Save Address</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,34 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { Image } from "expo-image";
+
+interface AvatarProps {
+  name: string;
+  uri?: string;
+  size?: number;
+}
+
+// The profile picture when there is one, otherwise the name's initial
+export default function Avatar({ name, uri, size = 40 }: AvatarProps) {
+  if (uri) {
+    return (
+      <Image
+        source={{ uri }}
+        style={{ width: size, height: size, borderRadius: size / 2, backgroundColor: "#1f2937" }}
+        contentFit="cover"
+        transition={150}
+      />
+    );
+  }
+
+  return (
+    <View
+      style={{ width: size, height: size, borderRadius: size / 2 }}
+      className="bg-orange-500/10 items-center justify-center"
+    >
+      <Text className="text-orange-400 font-bold" style={{ fontSize: size * 0.4 }}>
+        {name.charAt(0).toUpperCase() || "?"}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,20 @@
+import React from "react";
+import { Text } from "react-native";
+import { FontAwesome, Ionicons } from "@expo/vector-icons";
+import { CardBrand, getCardBrandLabel } from "@/lib/cardValidation";
+
+const CARD_BRAND_ICONS: Partial<Record<CardBrand, React.ComponentProps<typeof FontAwesome>["name"]>> = {
+  visa: "cc-visa",
+  mastercard: "cc-mastercard",
+  amex: "cc-amex",
+};
+
+export default function CardBrandIcon({ brand }: { brand: CardBrand }) {
+  const icon = CARD_BRAND_ICONS[brand];
+  if (icon) return <FontAwesome name={icon} size={24} color="#f97316" />;
+  // No glyph ships for RuPay, so fall back to its name
+  if (brand === "rupay") {
+    return <Text className="text-orange-400 text-xs font-bold">{getCardBrandLabel(brand)}</Text>;
+  }
+  return <Ionicons name="card-outline" size={22} color="#6b7280" />;
+}
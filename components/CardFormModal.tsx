@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  TextInputProps,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import CardBrandIcon from "@/components/CardBrandIcon";
+import { useForm } from "@/hooks/useForm";
+import {
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiryDate,
+  getFormattedCardLength,
+  validateCardNumber,
+  validateExpiryDate,
+} from "@/lib/cardValidation";
+import { PaymentError } from "@/lib/payments";
+import { Schema } from "@/lib/validation";
+
+type CardValues = {
+  cardNumber: string;
+  expiryDate: string;
+};
+
+// No CVV here: it's never stored, so it's asked for at checkout instead
+const cardSchema: Schema<CardValues> = {
+  cardNumber: [validateCardNumber],
+  expiryDate: [(value) => validateExpiryDate(value)],
+};
+
+interface CardFormModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (cardNumber: string, expiryDate: string) => Promise<void>;
+}
+
+export default function CardFormModal({ visible, onClose, onSubmit }: CardFormModalProps) {
+  const { values, errors, setValue, setFieldTouched, validate, reset } = useForm<CardValues>({
+    initialValues: { cardNumber: "", expiryDate: "" },
+    schema: cardSchema,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const brand = detectCardBrand(values.cardNumber);
+
+  // Never keep a card number around between openings
+  const [wasVisible, setWasVisible] = useState(visible);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      reset();
+      setSubmitError(null);
+    }
+  }
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    setIsSaving(true);
+    setSubmitError(null);
+    try {
+      await onSubmit(values.cardNumber, values.expiryDate);
+      onClose();
+    } catch (error) {
+      setSubmitError(
+        error instanceof PaymentError ? error.message : "We couldn't save this card. Please try again."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (
+    label: string,
+    field: keyof CardValues,
+    inputProps: TextInputProps = {},
+    accessory?: React.ReactNode
+  ) => (
+    <View className="mb-4">
+      <Text className="text-gray-300 mb-2">{label}</Text>
+      <View className="relative">
+        <TextInput
+          value={values[field]}
+          onBlur={() => setFieldTouched(field)}
+          placeholderTextColor="#6b7280"
+          keyboardType="numeric"
+          className={`bg-black border rounded-lg pl-4 pr-14 py-3 text-white ${
+            errors[field] ? "border-red-500" : "border-gray-600"
+          }`}
+          {...inputProps}
+        />
+        {accessory && (
+          <View className="absolute right-4 top-0 bottom-0 justify-center">{accessory}</View>
+        )}
+      </View>
+      {errors[field] && (
+        <View className="flex-row items-center mt-1">
+          <Ionicons name="alert-circle" size={16} color="#ef4444" />
+          <Text className="text-red-400 text-sm ml-1 flex-1">{errors[field]}</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1 bg-gray-900"
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-gray-700">
+          <TouchableOpacity onPress={onClose} className="p-2">
+            <Ionicons name="close" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-white text-lg font-bold">New Card</Text>
+          <View className="w-10" />
+        </View>
+
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          {renderField(
+            "Card Number",
+            "cardNumber",
+            {
+              onChangeText: (text) => setValue("cardNumber", formatCardNumber(text)),
+              placeholder: "1234 5678 9012 3456",
+              maxLength: getFormattedCardLength(brand),
+            },
+            <CardBrandIcon brand={brand} />
+          )}
+          {renderField("Expiry Date", "expiryDate", {
+            onChangeText: (text) => setValue("expiryDate", formatExpiryDate(text)),
+            placeholder: "MM/YY",
+            maxLength: 5,
+          })}
+
+          <View className="flex-row items-start mb-8">
+            <Ionicons name="lock-closed" size={16} color="#9ca3af" />
+            <Text className="text-gray-400 text-sm ml-2 flex-1">
+              The card number goes straight to our payment provider. Only the brand, last four
+              digits and expiry are kept on this device.
+            </Text>
+          </View>
+
+          {submitError && (
+            <View className="flex-row items-center mb-4">
+              <Ionicons name="alert-circle" size={16} color="#ef4444" />
+              <Text className="text-red-400 text-sm ml-1 flex-1">{submitError}</Text>
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Footer */}
+        <View className="p-4 border-t border-gray-700">
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={isSaving}
+            className="py-4 rounded-lg bg-orange-500"
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-white text-center font-semibold text-lg">Save Card</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { PasswordCheckResult } from "@/contexts/AuthContext";
+
+interface DeleteAccountModalProps {
+  visible: boolean;
+  onClose: () => void;
+  email: string;
+  onConfirm: (password: string) => Promise<PasswordCheckResult>;
+}
+
+export default function DeleteAccountModal({
+  visible,
+  onClose,
+  email,
+  onConfirm,
+}: DeleteAccountModalProps) {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Never carry a typed password over to the next time the sheet opens
+  const [wasVisible, setWasVisible] = useState(visible);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setPassword("");
+      setError(null);
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!password) {
+      setError("Enter your password to continue");
+      return;
+    }
+    setIsDeleting(true);
+    const result = await onConfirm(password);
+    setIsDeleting(false);
+    if (result.status === "invalid") {
+      setError(`Password is incorrect. ${result.remainingAttempts} attempt(s) remaining.`);
+    } else if (result.status === "locked") {
+      const minutes = Math.ceil((result.lockedUntil - Date.now()) / 60000);
+      setError(`Too many incorrect attempts. Please wait ${minutes} minute(s) and try again.`);
+    } else if (result.status === "error") {
+      setError("Something went wrong. Please try again.");
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1 bg-gray-900"
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-gray-700">
+          <TouchableOpacity onPress={onClose} className="p-2">
+            <Ionicons name="close" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-white text-lg font-bold">Delete Account</Text>
+          <View className="w-10" />
+        </View>
+
+        <View className="flex-1 p-4">
+          <View className="flex-row bg-red-500/10 border border-red-500/50 rounded-xl p-4 mb-6">
+            <Ionicons name="warning-outline" size={22} color="#ef4444" />
+            <Text className="text-red-300 ml-3 flex-1">
+              This permanently removes {email} from this device, along with its orders, cart,
+              bookmarks, reviews and saved details. It {`can't`} be undone.
+            </Text>
+          </View>
+
+          <Text className="text-gray-300 mb-2">Confirm with your password</Text>
+          <TextInput
+            value={password}
+            onChangeText={(text) => {
+              setPassword(text);
+              setError(null);
+            }}
+            secureTextEntry
+            maxLength={128}
+            autoCapitalize="none"
+            autoFocus
+            className={`bg-gray-800 border rounded-xl px-4 py-3 text-white ${
+              error ? "border-red-500" : "border-gray-700"
+            }`}
+          />
+          {error && (
+            <View className="flex-row items-center mt-1">
+              <Ionicons name="alert-circle" size={16} color="#ef4444" />
+              <Text className="text-red-400 text-sm ml-1">{error}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Footer */}
+        <View className="p-4 border-t border-gray-700">
+          <TouchableOpacity
+            onPress={handleConfirm}
+            disabled={isDeleting}
+            className={`py-4 rounded-xl ${isDeleting ? "bg-gray-600" : "bg-red-600"}`}
+          >
+            {isDeleting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-white text-center font-semibold text-lg">Delete My Account</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
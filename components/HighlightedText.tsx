@@ -0,0 +1,24 @@
+import React from "react";
+import { Text, TextProps } from "react-native";
+import { splitMatches } from "@/lib/search";
+
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  query: string;
+}
+
+export default function HighlightedText({ text, query, ...props }: HighlightedTextProps) {
+  return (
+    <Text {...props}>
+      {splitMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <Text key={index} className="text-orange-400 font-bold">
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  ScrollView,
+  StatusBar,
+  useWindowDimensions,
+} from "react-native";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+import Animated, {
+  interpolate,
+  useAnimatedStyle,
+  useSharedValue,
+} from "react-native-reanimated";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import ZoomableImage from "@/components/ZoomableImage";
+
+const THUMBNAIL_SIZE = 56;
+const THUMBNAIL_STRIP_HEIGHT = THUMBNAIL_SIZE + 32;
+
+interface ImageGalleryProps {
+  visible: boolean;
+  images: string[];
+  initialIndex: number;
+  onClose: () => void;
+  // Reports the image showing when the gallery closes, so the carousel can follow
+  onIndexChange?: (index: number) => void;
+}
+
+export default function ImageGallery({
+  visible,
+  images,
+  initialIndex,
+  onClose,
+  onIndexChange,
+}: ImageGalleryProps) {
+  const { width, height } = useWindowDimensions();
+  const [index, setIndex] = useState(initialIndex);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const pagerRef = useRef<FlatList<string>>(null);
+  const dismissOffset = useSharedValue(0);
+  const imageHeight = height - THUMBNAIL_STRIP_HEIGHT - 120;
+
+  useEffect(() => {
+    if (!visible) return;
+    setIndex(initialIndex);
+    setIsZoomed(false);
+    dismissOffset.value = 0;
+  }, [visible, initialIndex, dismissOffset]);
+
+  const close = () => {
+    onIndexChange?.(index);
+    onClose();
+  };
+
+  const goTo = (next: number) => {
+    setIndex(next);
+    pagerRef.current?.scrollToIndex({ index: next, animated: true });
+  };
+
+  const backdropStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(dismissOffset.value, [0, 300], [1, 0.3], "clamp"),
+  }));
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={close}>
+      <GestureHandlerRootView style={{ flex: 1 }}>
+        <StatusBar barStyle="light-content" backgroundColor="black" />
+        <Animated.View style={[{ flex: 1, backgroundColor: "black" }, backdropStyle]}>
+          {/* Header */}
+          <View className="flex-row items-center justify-between pt-12 pb-4 px-4">
+            <TouchableOpacity onPress={close} className="p-2 rounded-full bg-white/10">
+              <Ionicons name="close" size={24} color="white" />
+            </TouchableOpacity>
+            <Text className="text-white font-medium">
+              {index + 1} / {images.length}
+            </Text>
+            <View className="w-10" />
+          </View>
+
+          <FlatList
+            ref={pagerRef}
+            data={images}
+            horizontal
+            pagingEnabled
+            scrollEnabled={!isZoomed}
+            initialScrollIndex={initialIndex}
+            getItemLayout={(_, itemIndex) => ({ length: width, offset: width * itemIndex, index: itemIndex })}
+            showsHorizontalScrollIndicator={false}
+            keyExtractor={(uri, itemIndex) => `${itemIndex}-${uri}`}
+            onMomentumScrollEnd={(event) => {
+              setIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+            }}
+            renderItem={({ item }) => (
+              <View style={{ width, height: imageHeight }} className="items-center justify-center overflow-hidden">
+                <ZoomableImage
+                  uri={item}
+                  width={width}
+                  height={imageHeight}
+                  dismissOffset={dismissOffset}
+                  onDismiss={close}
+                  onZoomChange={setIsZoomed}
+                />
+              </View>
+            )}
+          />
+
+          {/* Thumbnails */}
+          {images.length > 1 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={{ maxHeight: THUMBNAIL_STRIP_HEIGHT }}
+              contentContainerStyle={{ paddingHorizontal: 16, paddingVertical: 16, gap: 8 }}
+            >
+              {images.map((uri, thumbIndex) => (
+                <TouchableOpacity
+                  key={`${thumbIndex}-${uri}`}
+                  onPress={() => goTo(thumbIndex)}
+                  className={`rounded-lg overflow-hidden border-2 ${
+                    thumbIndex === index ? "border-orange-500" : "border-transparent"
+                  }`}
+                >
+                  <Image
+                    source={{ uri }}
+                    style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, backgroundColor: "#1f2937" }}
+                    contentFit="cover"
+                  />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+        </Animated.View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { LocalNotification, subscribeToLocalNotifications } from "@/lib/localNotifications";
+
+const DISPLAY_MS = 10 * 1000;
+
+export default function LocalNotificationHost() {
+  const [current, setCurrent] = useState<LocalNotification | null>(null);
+
+  useEffect(() => subscribeToLocalNotifications(setCurrent), []);
+
+  useEffect(() => {
+    if (!current) return;
+    const timeout = setTimeout(() => setCurrent(null), DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [current]);
+
+  if (!current) return null;
+
+  return (
+    <View className="absolute top-2 left-3 right-3 z-50" pointerEvents="box-none">
+      <TouchableOpacity
+        onPress={() => setCurrent(null)}
+        activeOpacity={0.9}
+        className="flex-row items-start bg-gray-800 border border-orange-500/40 rounded-2xl p-4"
+      >
+        <View className="bg-orange-500/10 p-2 rounded-full mr-3">
+          <Ionicons name="notifications" size={18} color="#fb923c" />
+        </View>
+        <View className="flex-1">
+          <Text className="text-white font-semibold">{current.title}</Text>
+          <Text className="text-gray-300 text-sm mt-1">{current.body}</Text>
+        </View>
+        <Ionicons name="close" size={18} color="#6b7280" />
+      </TouchableOpacity>
+    </View>
+  );
+}
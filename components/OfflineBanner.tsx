@@ -0,0 +1,18 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+
+export default function OfflineBanner() {
+  const { isOffline } = useNetworkStatus();
+  if (!isOffline) return null;
+
+  return (
+    <View className="flex-row items-center justify-center bg-yellow-500/10 border-b border-yellow-500/40 px-4 py-2">
+      <Ionicons name="cloud-offline-outline" size={16} color="#eab308" />
+      <Text className="text-yellow-400 text-sm ml-2">
+        You&apos;re offline. Showing saved products where available.
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,20 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { ORDER_STATUS_LABELS, OrderStatus } from "@/lib/orders";
+
+const STATUS_STYLES: Record<OrderStatus, { container: string; text: string }> = {
+  placed: { container: "bg-blue-500/10 border-blue-500/40", text: "text-blue-400" },
+  processing: { container: "bg-yellow-500/10 border-yellow-500/40", text: "text-yellow-400" },
+  shipped: { container: "bg-orange-500/10 border-orange-500/40", text: "text-orange-400" },
+  delivered: { container: "bg-green-500/10 border-green-500/40", text: "text-green-400" },
+  cancelled: { container: "bg-red-500/10 border-red-500/40", text: "text-red-400" },
+};
+
+export default function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <View className={`px-3 py-1 rounded-full border ${style.container}`}>
+      <Text className={`text-xs font-semibold ${style.text}`}>{ORDER_STATUS_LABELS[status]}</Text>
+    </View>
+  );
+}
@@ -0,0 +1,50 @@
+import React from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+interface PaginationFooterProps {
+  isLoadingMore: boolean;
+  loadMoreFailed: boolean;
+  hasMore: boolean;
+  itemCount: number;
+  onRetry: () => void;
+}
+
+export default function PaginationFooter({
+  isLoadingMore,
+  loadMoreFailed,
+  hasMore,
+  itemCount,
+  onRetry,
+}: PaginationFooterProps) {
+  if (isLoadingMore) {
+    return (
+      <View className="flex-row items-center justify-center py-4">
+        <ActivityIndicator size="small" color="#fb923c" />
+        <Text className="text-gray-400 text-sm ml-2">Loading more...</Text>
+      </View>
+    );
+  }
+
+  if (loadMoreFailed) {
+    return (
+      <View className="flex-row items-center justify-center py-4">
+        <Ionicons name="alert-circle" size={16} color="#ef4444" />
+        <Text className="text-red-400 text-sm ml-1">Couldn&apos;t load more products.</Text>
+        <TouchableOpacity onPress={onRetry} className="ml-2 px-3 py-1 rounded-full bg-orange-600/10">
+          <Text className="text-orange-400 text-sm font-medium">Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!hasMore && itemCount > 0) {
+    return (
+      <Text className="text-gray-500 text-xs text-center py-4">
+        You&apos;ve seen all {itemCount} products
+      </Text>
+    );
+  }
+
+  return null;
+}
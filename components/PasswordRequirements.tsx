@@ -0,0 +1,21 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { getPasswordRequirements } from "@/lib/passwordRules";
+
+export default function PasswordRequirements({ password }: { password: string }) {
+  const requirements = getPasswordRequirements(password);
+
+  return (
+    <View className="mt-2 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+      <Text className="text-orange-300 text-sm font-semibold mb-2">Password Requirements:</Text>
+      {Object.entries(requirements).map(([key, req]) => (
+        <View key={key} className="flex-row items-center mb-1">
+          <View className={`w-2 h-2 rounded-full mr-2 ${req.met ? 'bg-green-500' : 'bg-red-500'}`} />
+          <Text className={`text-xs ${req.met ? 'text-green-400' : 'text-red-400'}`}>
+            {req.text}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
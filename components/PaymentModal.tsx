@@ -12,98 +12,521 @@ import {
   Platform,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import {
+  CartItem,
+  CheckoutSummary,
+  TAX_RATE,
+  clampQuantity,
+  getCheckoutSummary,
+  getQuantityBounds,
+} from "@/lib/cart";
+import {
+  CardErrors,
+  CardFields,
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiryDate,
+  getCvvLength,
+  getFormattedCardLength,
+  validateCard,
+  validateCvv,
+} from "@/lib/cardValidation";
+import { getDiscountedPrice } from "@/lib/catalog";
+import {
+  AddressInput,
+  SavedAddress,
+  addressTitle,
+  formatAddressLine,
+  isSameAddress,
+} from "@/lib/addresses";
+import {
+  COUNTRY_CODES,
+  COUNTRY_FORMATS,
+  CountryCode,
+  DEFAULT_COUNTRY,
+  normalizePhone,
+} from "@/lib/countries";
+import {
+  cityRules,
+  emailRules,
+  fullNameRules,
+  phoneRules,
+  postalCodeRules,
+  streetAddressRules,
+} from "@/lib/formRules";
+import { Schema } from "@/lib/validation";
+import { Order, PaymentMethod } from "@/lib/orders";
+import {
+  countPromotionUses,
+  findPromotion,
+  getPromotionDiscount,
+  validatePromotion,
+} from "@/lib/promotions";
+import { describeCard, isCardExpired } from "@/lib/savedCards";
+import {
+  PaymentDetails,
+  PaymentError,
+  PaymentErrorCode,
+  PaymentIntent,
+  WalletProvider,
+  getPaymentGateway,
+} from "@/lib/payments";
+import CardBrandIcon from "@/components/CardBrandIcon";
+import { useAddressBook } from "@/contexts/AddressBookContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useOrders } from "@/contexts/OrdersContext";
+import { usePaymentMethods } from "@/contexts/PaymentMethodsContext";
+import { useForm } from "@/hooks/useForm";
+
+type CheckoutStep =
+  | "details"
+  | "payment"
+  | "processing"
+  | "challenge"
+  | "failed"
+  | "order_failed"
+  | "success";
+
+const STEP_TITLES: Record<CheckoutStep, string> = {
+  details: "Checkout",
+  payment: "Payment",
+  processing: "Processing",
+  challenge: "Verification",
+  failed: "Payment Failed",
+  order_failed: "Order Failed",
+  success: "Complete",
+};
+
+const FAILURE_TITLES: Record<PaymentErrorCode, string> = {
+  card_declined: "Payment Declined",
+  insufficient_funds: "Insufficient Funds",
+  authentication_failed: "Verification Failed",
+  timeout: "Payment Timed Out",
+  invalid_request: "Payment Not Accepted",
+  not_found: "Payment Not Found",
+};
+
+const WALLET_OPTIONS: { provider: WalletProvider; label: string; className: string }[] = [
+  { provider: "paytm", label: "PayTM", className: "bg-blue-600" },
+  { provider: "phonepe", label: "PhonePe", className: "bg-green-600" },
+  { provider: "gpay", label: "GPay", className: "bg-red-600" },
+];
+
+type ShippingValues = {
+  fullName: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  zipCode: string;
+};
+
+const EMPTY_SHIPPING: ShippingValues = {
+  fullName: "",
+  email: "",
+  phone: "",
+  address: "",
+  city: "",
+  zipCode: "",
+};
 
-interface Product {
-  id: number;
-  title: string;
-  price: number;
-  discountPercentage: number;
-  thumbnail: string;
+const EMPTY_CARD: CardFields = { cardNumber: "", expiryDate: "", cvv: "", cardName: "" };
+
+const shippingSchema = (country: CountryCode): Schema<ShippingValues> => ({
+  fullName: fullNameRules,
+  email: emailRules,
+  phone: phoneRules(country),
+  address: streetAddressRules,
+  city: cityRules,
+  zipCode: postalCodeRules(country),
+});
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <View className="flex-row items-center mt-1">
+      <Ionicons name="alert-circle" size={16} color="#ef4444" />
+      <Text className="text-red-400 text-sm ml-1 flex-1">{message}</Text>
+    </View>
+  );
 }
 
 interface PaymentModalProps {
   visible: boolean;
   onClose: () => void;
-  product: Product;
-  discountedPrice: number;
+  items: CartItem[];
+  // Called when a quantity is changed during checkout, e.g. to keep the cart in sync
+  onQuantityChange?: (productId: number, quantity: number) => void;
+  onOrderComplete?: (order: Order) => void;
 }
 
-export default function PaymentModal({ visible, onClose, product, discountedPrice }: PaymentModalProps) {
-  const [currentStep, setCurrentStep] = useState("details"); // details, payment, processing, success
-  const [quantity, setQuantity] = useState(1);
-  const [paymentMethod, setPaymentMethod] = useState("card");
+export default function PaymentModal({
+  visible,
+  onClose,
+  items,
+  onQuantityChange,
+  onOrderComplete,
+}: PaymentModalProps) {
+  const [currentStep, setCurrentStep] = useState<CheckoutStep>("details");
+  const [lineItems, setLineItems] = useState<CartItem[]>(items);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("card");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [placedOrder, setPlacedOrder] = useState<Order | null>(null);
+  const [upiId, setUpiId] = useState("");
+  const [walletProvider, setWalletProvider] = useState<WalletProvider | null>(null);
+  const [pendingPayment, setPendingPayment] = useState<PaymentIntent | null>(null);
+  const [challengeCode, setChallengeCode] = useState("");
+  const [paymentError, setPaymentError] = useState<PaymentError | null>(null);
+  const [orderFailure, setOrderFailure] = useState<{ paymentId: string; refunded: boolean } | null>(
+    null
+  );
+  const [cardTouched, setCardTouched] = useState<Partial<Record<keyof CardFields, boolean>>>({});
+  const { orders, placeOrder } = useOrders();
+  const { user, profile } = useAuth();
+  const { addresses, defaultAddress, addAddress } = useAddressBook();
+  const { cards, defaultCard, addCard } = usePaymentMethods();
 
   // Form states
-  const [formData, setFormData] = useState({
-    fullName: "",
-    email: "",
-    phone: "",
-    address: "",
-    city: "",
-    zipCode: "",
-    cardNumber: "",
-    expiryDate: "",
-    cvv: "",
-    cardName: "",
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
+  const shipping = useForm<ShippingValues>({
+    initialValues: EMPTY_SHIPPING,
+    schema: shippingSchema(country),
   });
+  const [formData, setFormData] = useState<CardFields>(EMPTY_CARD);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [saveNewAddress, setSaveNewAddress] = useState(true);
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [saveNewCard, setSaveNewCard] = useState(true);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  // Fixed once payment starts: placing the order uses up a one-time code, and checking
+  // it again afterwards would show the charged total without its discount
+  const [chargedSummary, setChargedSummary] = useState<CheckoutSummary | null>(null);
+
+  // Fills the shipping form from a saved address, or from the user's own details
+  // for a new one. The email always comes from the account.
+  const selectAddress = (address: SavedAddress | null) => {
+    const nextCountry = address?.country ?? profile.phoneCountry ?? DEFAULT_COUNTRY;
+    setSelectedAddressId(address?.id ?? null);
+    setCountry(nextCountry);
+    shipping.reset({
+      fullName: address?.fullName ?? user?.name ?? "",
+      email: user?.email ?? "",
+      // A number saved for another country wouldn't pass this country's rules
+      phone: address?.phone ?? (profile.phoneCountry === nextCountry ? profile.phone ?? "" : ""),
+      address: address?.address ?? "",
+      city: address?.city ?? "",
+      zipCode: address?.zipCode ?? "",
+    });
+  };
+
+  // The CVV belongs to whichever card is chosen, so it's cleared on every switch
+  const selectCard = (cardId: string | null) => {
+    setSelectedCardId(cardId);
+    setFormData((prev) => ({ ...prev, cvv: "" }));
+    setCardTouched((prev) => ({ ...prev, cvv: false }));
+  };
+
+  // Start from the default address and card each time checkout opens
+  const [wasVisible, setWasVisible] = useState(false);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      selectAddress(defaultAddress);
+      setSaveNewAddress(true);
+      setSelectedCardId(defaultCard && !isCardExpired(defaultCard) ? defaultCard.id : null);
+      setSaveNewCard(true);
+    }
+  }
+
+  const selectedCard = cards.find((card) => card.id === selectedCardId) ?? null;
+  const isUsingSavedCard = paymentMethod === "card" && selectedCard !== null;
+
+  const shippingAddress: AddressInput = {
+    fullName: shipping.values.fullName.trim(),
+    phone: normalizePhone(shipping.values.phone, country),
+    address: shipping.values.address.trim(),
+    city: shipping.values.city.trim(),
+    zipCode: shipping.values.zipCode.trim().toUpperCase(),
+    country,
+  };
+  // Offered for anything not already in the address book, including edited copies
+  const isNewAddress = !addresses.some((address) => isSameAddress(address, shippingAddress));
+
+  const buildPaymentDetails = (): PaymentDetails => {
+    if (isUsingSavedCard) {
+      return { method: "card", token: selectedCard.token, cvv: formData.cvv };
+    }
+    if (paymentMethod === "card") {
+      return {
+        method: "card",
+        cardNumber: formData.cardNumber,
+        expiryDate: formData.expiryDate,
+        cvv: formData.cvv,
+        cardName: formData.cardName,
+      };
+    }
+    if (paymentMethod === "upi") {
+      return { method: "upi", vpa: upiId };
+    }
+    return { method: "wallet", provider: walletProvider ?? "paytm" };
+  };
+
+  const failPayment = (error: unknown) => {
+    console.error("Payment failed:", error);
+    setPaymentError(
+      error instanceof PaymentError
+        ? error
+        : new PaymentError("invalid_request", "Something went wrong while processing your payment")
+    );
+    setPendingPayment(null);
+    setChargedSummary(null);
+    setCurrentStep("failed");
+  };
+
+  // The customer has been charged but there's no order to show for it, so hand the money back
+  const failOrder = async (paymentId: string, error: unknown) => {
+    console.error("Failed to save order:", error);
+    let refunded = false;
+    try {
+      await getPaymentGateway(paymentMethod).refund(paymentId);
+      refunded = true;
+    } catch (refundError) {
+      console.error("Failed to refund payment:", refundError);
+    }
+    setOrderFailure({ paymentId, refunded });
+    setChargedSummary(null);
+    setCurrentStep("order_failed");
+  };
+
+  // Nothing was taken, but the authorization would keep holding the customer's funds
+  const releasePayment = async (paymentId: string) => {
+    try {
+      await getPaymentGateway(paymentMethod).cancel(paymentId);
+    } catch (cancelError) {
+      console.error("Failed to cancel payment:", cancelError);
+    }
+  };
+
+  const completePayment = async (paymentId: string) => {
+    setCurrentStep("processing");
+    let payment: PaymentIntent;
+    try {
+      payment = await getPaymentGateway(paymentMethod).capture(paymentId);
+    } catch (error) {
+      await releasePayment(paymentId);
+      // No money has moved, so this still ends in failPayment
+      throw error;
+    }
+    setPendingPayment(null);
+
+    let order: Order;
+    try {
+      // Card details are deliberately left out of the persisted order
+      order = await placeOrder({
+        items: lineItems,
+        shipping: {
+          fullName: shipping.values.fullName.trim(),
+          email: shipping.values.email.trim().toLowerCase(),
+          phone: normalizePhone(shipping.values.phone, country),
+          address: shipping.values.address.trim(),
+          city: shipping.values.city.trim(),
+          zipCode: shipping.values.zipCode.trim().toUpperCase(),
+          country,
+        },
+        paymentMethod,
+        paymentId: payment.id,
+        summary,
+      });
+    } catch (error) {
+      await failOrder(payment.id, error);
+      return;
+    }
+
+    // The order is in, so an address or card that can't be saved isn't worth failing over
+    if (isNewAddress && saveNewAddress) {
+      try {
+        await addAddress(shippingAddress);
+      } catch (error) {
+        console.error("Failed to save address:", error);
+      }
+    }
+    if (paymentMethod === "card" && !isUsingSavedCard && saveNewCard) {
+      try {
+        await addCard(formData.cardNumber, formData.expiryDate);
+      } catch (error) {
+        console.error("Failed to save card:", error);
+      }
+    }
+    setPlacedOrder(order);
+    setCurrentStep("success");
+  };
 
   const handlePayment = async () => {
     setIsProcessing(true);
+    setPaymentError(null);
+    setOrderFailure(null);
+    setChargedSummary(summary);
     setCurrentStep("processing");
-    
-    // Simulate payment processing
-    setTimeout(() => {
+
+    try {
+      const payment = await getPaymentGateway(paymentMethod).authorize({
+        amount: Math.round(totalAmount * 100) / 100,
+        currency: "USD",
+        details: buildPaymentDetails(),
+      });
+
+      if (payment.status === "requires_action") {
+        setPendingPayment(payment);
+        setChallengeCode("");
+        setCurrentStep("challenge");
+        return;
+      }
+      await completePayment(payment.id);
+    } catch (error) {
+      failPayment(error);
+    } finally {
       setIsProcessing(false);
-      setCurrentStep("success");
-    }, 2500);
+    }
+  };
+
+  const handleChallengeSubmit = async () => {
+    if (!pendingPayment) return;
+
+    setIsProcessing(true);
+    setPaymentError(null);
+    try {
+      const payment = await getPaymentGateway(paymentMethod).authenticate(
+        pendingPayment.id,
+        challengeCode
+      );
+      await completePayment(payment.id);
+    } catch (error) {
+      // A wrong code can be re-entered; anything else ends the attempt
+      if (error instanceof PaymentError && error.code === "authentication_failed") {
+        setPaymentError(error);
+      } else {
+        failPayment(error);
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleApplyPromo = () => {
+    const promotion = findPromotion(promoInput);
+    const error = promotion
+      ? validatePromotion(promotion, lineItems, countPromotionUses(promotion.code, orders))
+      : "This promo code isn't valid";
+    setPromoError(error);
+    if (promotion && !error) {
+      setPromoCode(promotion.code);
+      setPromoInput("");
+    }
+  };
+
+  const removePromo = () => {
+    setPromoCode(null);
+    setPromoError(null);
+  };
+
+  const changeQuantity = (productId: number, quantity: number) => {
+    setLineItems((prev) =>
+      prev.map((item) =>
+        item.product.id === productId
+          ? { ...item, quantity: clampQuantity(item.product, quantity) }
+          : item
+      )
+    );
+    onQuantityChange?.(productId, quantity);
   };
 
   const resetAndClose = () => {
+    if (currentStep === "success" && placedOrder) {
+      onOrderComplete?.(placedOrder);
+    }
     setCurrentStep("details");
-    setQuantity(1);
+    setPlacedOrder(null);
+    setLineItems(items);
     setPaymentMethod("card");
-    setFormData({
-      fullName: "",
-      email: "",
-      phone: "",
-      address: "",
-      city: "",
-      zipCode: "",
-      cardNumber: "",
-      expiryDate: "",
-      cvv: "",
-      cardName: "",
-    });
+    setUpiId("");
+    setWalletProvider(null);
+    setPendingPayment(null);
+    setChallengeCode("");
+    setPaymentError(null);
+    setOrderFailure(null);
+    setChargedSummary(null);
+    setCardTouched({});
+    setFormData(EMPTY_CARD);
+    shipping.reset();
+    setCountry(DEFAULT_COUNTRY);
+    setSelectedAddressId(null);
+    setSelectedCardId(null);
+    setPromoInput("");
+    removePromo();
     onClose();
   };
 
-  const formatCardNumber = (text: string) => {
-    const cleaned = text.replace(/\D/g, '');
-    const formatted = cleaned.replace(/(\d{4})(?=\d)/g, '$1 ');
-    return formatted;
+  const cardBrand = detectCardBrand(formData.cardNumber);
+  // A saved card only needs its CVV, as long as it hasn't expired since it was saved
+  const savedCardExpired = isUsingSavedCard && isCardExpired(selectedCard);
+  const savedCardCvvError = isUsingSavedCard ? validateCvv(formData.cvv, selectedCard.brand) : null;
+  const cardErrors: CardErrors = isUsingSavedCard
+    ? savedCardCvvError
+      ? { cvv: savedCardCvvError }
+      : {}
+    : validateCard(formData);
+  // Only surface an error once the user has left the field, like the login form
+  const cardFieldError = (field: keyof CardFields) =>
+    cardTouched[field] ? cardErrors[field] : undefined;
+  const touchCardField = (field: keyof CardFields) =>
+    setCardTouched((prev) => ({ ...prev, [field]: true }));
+  const cardInputBorder = (field: keyof CardFields) => {
+    if (cardFieldError(field)) return "border-red-500";
+    if (cardTouched[field]) return "border-green-500";
+    return "border-gray-600";
   };
 
-  const formatExpiryDate = (text: string) => {
-    const cleaned = text.replace(/\D/g, '');
-    if (cleaned.length >= 2) {
-      return cleaned.substring(0, 2) + '/' + cleaned.substring(2, 4);
-    }
-    return cleaned;
+  const handleContinueToPayment = () => {
+    if (shipping.validate()) setCurrentStep("payment");
   };
 
-  const isDetailsValid = () => {
-    return formData.fullName && formData.email && formData.phone && formData.address && formData.city && formData.zipCode;
+  const shippingInputBorder = (field: keyof ShippingValues) => {
+    if (shipping.errors[field]) return "border-red-500";
+    if (shipping.isFieldValid(field)) return "border-green-500";
+    return "border-gray-600";
   };
 
+  const countryFormat = COUNTRY_FORMATS[country];
+
   const isPaymentValid = () => {
     if (paymentMethod === "card") {
-      return formData.cardNumber && formData.expiryDate && formData.cvv && formData.cardName;
+      return !savedCardExpired && Object.keys(cardErrors).length === 0;
     }
-    return true;
+    if (paymentMethod === "upi") {
+      return upiId.trim().length > 0;
+    }
+    return walletProvider !== null;
   };
 
-  const totalAmount = discountedPrice * quantity;
+  const promotion = promoCode ? findPromotion(promoCode) : undefined;
+  // Checked again on every render, since a quantity change can take the order below
+  // the code's minimum or remove the only items it applies to
+  const promotionError =
+    promotion && !chargedSummary
+      ? validatePromotion(promotion, lineItems, countPromotionUses(promotion.code, orders))
+      : null;
+  const summary =
+    chargedSummary ??
+    getCheckoutSummary(
+      lineItems,
+      promotion && !promotionError
+        ? { code: promotion.code, discount: getPromotionDiscount(promotion, lineItems) }
+        : undefined
+    );
+  const totalAmount = summary.grandTotal;
 
   return (
     <Modal
@@ -126,9 +549,7 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
               <Ionicons name="close" size={24} color="#f97316" />
             </TouchableOpacity>
             <Text className="text-xl font-bold text-white">
-              {currentStep === "details" ? "Checkout" : 
-               currentStep === "payment" ? "Payment" : 
-               currentStep === "processing" ? "Processing" : "Complete"}
+              {STEP_TITLES[currentStep]}
             </Text>
             <View className="w-10" />
           </View>
@@ -137,16 +558,23 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
         {/* Order Summary - Always visible */}
         <View className="bg-gray-900 mx-6 mt-6 rounded-lg p-4">
           <View className="flex-row items-center">
-            <Image
-              source={{ uri: product.thumbnail }}
-              className="w-16 h-16 rounded-lg"
-            />
+            <View className="flex-row">
+              {lineItems.slice(0, 3).map(({ product }, index) => (
+                <Image
+                  key={product.id}
+                  source={{ uri: product.thumbnail }}
+                  className={`w-12 h-12 rounded-lg border-2 border-gray-900 ${index > 0 ? "-ml-4" : ""}`}
+                />
+              ))}
+            </View>
             <View className="flex-1 ml-4">
-              <Text className="text-white font-medium text-base" numberOfLines={2}>
-                {product.title}
+              <Text className="text-white font-medium text-base" numberOfLines={1}>
+                {lineItems.length === 1
+                  ? lineItems[0].product.title
+                  : `${lineItems.length} products`}
               </Text>
               <View className="flex-row items-center justify-between mt-2">
-                <Text className="text-gray-400">Qty: {quantity}</Text>
+                <Text className="text-gray-400">Qty: {summary.itemCount}</Text>
                 <Text className="text-orange-400 font-bold text-lg">
                   ${totalAmount.toFixed(2)}
                 </Text>
@@ -156,80 +584,317 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
         </View>
 
         <ScrollView className="flex-1 px-6 py-6">
+          {/* Item Breakdown */}
+          {currentStep === "details" && (
+            <View className="bg-gray-900 rounded-lg p-6 mb-6">
+              <Text className="text-white font-bold text-lg mb-4">Order Items</Text>
+
+              <View className="gap-4">
+                {lineItems.map(({ product, quantity }) => {
+                  const { min, max } = getQuantityBounds(product);
+                  const unitPrice = getDiscountedPrice(product);
+                  return (
+                    <View key={product.id} className="flex-row items-center">
+                      <Image
+                        source={{ uri: product.thumbnail }}
+                        className="w-12 h-12 rounded-lg"
+                      />
+                      <View className="flex-1 ml-3">
+                        <Text className="text-white font-medium" numberOfLines={1}>
+                          {product.title}
+                        </Text>
+                        <Text className="text-gray-400 text-sm">
+                          ${unitPrice.toFixed(2)} × {quantity}
+                        </Text>
+                      </View>
+                      <View className="items-end">
+                        <Text className="text-orange-400 font-bold mb-1">
+                          ${(unitPrice * quantity).toFixed(2)}
+                        </Text>
+                        <View className="flex-row items-center bg-black border border-gray-600 rounded-lg">
+                          <TouchableOpacity
+                            onPress={() => changeQuantity(product.id, quantity - 1)}
+                            disabled={quantity <= min}
+                            className="px-2 py-1"
+                          >
+                            <Ionicons name="remove" size={14} color={quantity <= min ? "#4b5563" : "#f97316"} />
+                          </TouchableOpacity>
+                          <Text className="text-white w-6 text-center">{quantity}</Text>
+                          <TouchableOpacity
+                            onPress={() => changeQuantity(product.id, quantity + 1)}
+                            disabled={quantity >= max}
+                            className="px-2 py-1"
+                          >
+                            <Ionicons name="add" size={14} color={quantity >= max ? "#4b5563" : "#f97316"} />
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                    </View>
+                  );
+                })}
+              </View>
+
+              {/* Promo Code */}
+              <View className="border-t border-gray-700 mt-4 pt-4">
+                {promotion ? (
+                  <View className="flex-row items-center bg-orange-500/10 border border-orange-500 rounded-lg px-3 py-2">
+                    <Ionicons name="pricetag" size={16} color="#fb923c" />
+                    <View className="flex-1 ml-2">
+                      <Text className="text-orange-400 font-semibold">{promotion.code}</Text>
+                      <Text className="text-gray-400 text-xs">{promotion.description}</Text>
+                    </View>
+                    <TouchableOpacity onPress={removePromo} className="p-1">
+                      <Ionicons name="close" size={18} color="#fb923c" />
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <View className="flex-row gap-2">
+                    <TextInput
+                      value={promoInput}
+                      onChangeText={(text) => {
+                        setPromoInput(text);
+                        setPromoError(null);
+                      }}
+                      onSubmitEditing={handleApplyPromo}
+                      placeholder="Promo code"
+                      placeholderTextColor="#6b7280"
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                      returnKeyType="done"
+                      className={`flex-1 bg-black border rounded-lg px-4 py-3 text-white ${
+                        promoError ? "border-red-500" : "border-gray-600"
+                      }`}
+                    />
+                    <TouchableOpacity
+                      onPress={handleApplyPromo}
+                      disabled={!promoInput.trim()}
+                      className={`px-4 rounded-lg justify-center ${
+                        promoInput.trim() ? "bg-orange-500" : "bg-gray-600"
+                      }`}
+                    >
+                      <Text className="text-white font-semibold">Apply</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                <FieldError message={promoError ?? promotionError ?? undefined} />
+              </View>
+
+              <View className="border-t border-gray-700 mt-4 pt-4 gap-2">
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-400">Subtotal</Text>
+                  <Text className="text-white">${summary.subtotal.toFixed(2)}</Text>
+                </View>
+                {summary.discount > 0 && (
+                  <View className="flex-row justify-between">
+                    <Text className="text-gray-400">Discount</Text>
+                    <Text className="text-green-400">-${summary.discount.toFixed(2)}</Text>
+                  </View>
+                )}
+                {summary.promotion && (
+                  <View className="flex-row justify-between">
+                    <Text className="text-gray-400">Promo ({summary.promotion.code})</Text>
+                    <Text className="text-green-400">
+                      -${summary.promotion.discount.toFixed(2)}
+                    </Text>
+                  </View>
+                )}
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-400">Tax ({(TAX_RATE * 100).toFixed(0)}%)</Text>
+                  <Text className="text-white">${summary.tax.toFixed(2)}</Text>
+                </View>
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-400">Shipping</Text>
+                  <Text className={summary.shipping === 0 ? "text-green-400" : "text-white"}>
+                    {summary.shipping === 0 ? "Free" : `$${summary.shipping.toFixed(2)}`}
+                  </Text>
+                </View>
+                <View className="flex-row justify-between mt-2">
+                  <Text className="text-white font-bold text-lg">Total</Text>
+                  <Text className="text-orange-400 font-bold text-lg">
+                    ${summary.grandTotal.toFixed(2)}
+                  </Text>
+                </View>
+              </View>
+            </View>
+          )}
+
           {/* Shipping Details */}
           {currentStep === "details" && (
             <View className="bg-gray-900 rounded-lg p-6">
               <Text className="text-white font-bold text-lg mb-4">Shipping Details</Text>
-              
+
+              {addresses.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+                  <View className="flex-row gap-3">
+                    {addresses.map((address) => (
+                      <TouchableOpacity
+                        key={address.id}
+                        onPress={() => selectAddress(address)}
+                        className={`w-56 p-3 rounded-lg border ${
+                          selectedAddressId === address.id
+                            ? "bg-orange-500/10 border-orange-500"
+                            : "bg-black border-gray-600"
+                        }`}
+                      >
+                        <View className="flex-row items-center">
+                          <Ionicons
+                            name={selectedAddressId === address.id ? "radio-button-on" : "radio-button-off"}
+                            size={16}
+                            color="#fb923c"
+                          />
+                          <Text className="text-white font-semibold ml-2 flex-1" numberOfLines={1}>
+                            {addressTitle(address)}
+                          </Text>
+                          {address.id === defaultAddress?.id && (
+                            <Text className="text-orange-400 text-xs">Default</Text>
+                          )}
+                        </View>
+                        <Text className="text-gray-400 text-xs mt-1" numberOfLines={2}>
+                          {formatAddressLine(address)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                    <TouchableOpacity
+                      onPress={() => selectAddress(null)}
+                      className={`w-32 p-3 rounded-lg border items-center justify-center ${
+                        selectedAddressId === null
+                          ? "bg-orange-500/10 border-orange-500"
+                          : "bg-black border-gray-600"
+                      }`}
+                    >
+                      <Ionicons name="add" size={20} color="#fb923c" />
+                      <Text className="text-orange-400 text-sm mt-1">New address</Text>
+                    </TouchableOpacity>
+                  </View>
+                </ScrollView>
+              )}
+
               <View className="gap-4">
+                <View>
+                  <Text className="text-gray-300 mb-2">Country</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View className="flex-row gap-2">
+                      {COUNTRY_CODES.map((code) => (
+                        <TouchableOpacity
+                          key={code}
+                          onPress={() => setCountry(code)}
+                          className={`px-4 py-2 rounded-full border ${
+                            country === code
+                              ? "bg-orange-500/10 border-orange-500"
+                              : "bg-black border-gray-600"
+                          }`}
+                        >
+                          <Text className={country === code ? "text-orange-400" : "text-white"}>
+                            {COUNTRY_FORMATS[code].name}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </ScrollView>
+                </View>
+
                 <View>
                   <Text className="text-gray-300 mb-2">Full Name</Text>
                   <TextInput
-                    value={formData.fullName}
-                    onChangeText={(text) => setFormData({...formData, fullName: text})}
+                    value={shipping.values.fullName}
+                    onChangeText={(text) => shipping.setValue("fullName", text)}
+                    onBlur={() => shipping.setFieldTouched("fullName")}
                     placeholder="Enter your full name"
                     placeholderTextColor="#6b7280"
-                    className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                    autoCapitalize="words"
+                    className={`bg-black border rounded-lg px-4 py-3 text-white ${shippingInputBorder("fullName")}`}
                   />
+                  <FieldError message={shipping.errors.fullName} />
                 </View>
                 
                 <View>
                   <Text className="text-gray-300 mb-2">Email</Text>
                   <TextInput
-                    value={formData.email}
-                    onChangeText={(text) => setFormData({...formData, email: text})}
+                    value={shipping.values.email}
+                    onChangeText={(text) => shipping.setValue("email", text)}
+                    onBlur={() => shipping.setFieldTouched("email")}
                     placeholder="Enter your email"
                     placeholderTextColor="#6b7280"
                     keyboardType="email-address"
-                    className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                    autoCapitalize="none"
+                    className={`bg-black border rounded-lg px-4 py-3 text-white ${shippingInputBorder("email")}`}
                   />
+                  <FieldError message={shipping.errors.email} />
                 </View>
                 
                 <View>
                   <Text className="text-gray-300 mb-2">Phone</Text>
-                  <TextInput
-                    value={formData.phone}
-                    onChangeText={(text) => setFormData({...formData, phone: text})}
-                    placeholder="Enter your phone number"
-                    placeholderTextColor="#6b7280"
-                    keyboardType="phone-pad"
-                    className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
-                  />
+                  <View className="flex-row items-center">
+                    <View className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-3 mr-2">
+                      <Text className="text-gray-300">{countryFormat.dialCode}</Text>
+                    </View>
+                    <TextInput
+                      value={shipping.values.phone}
+                      onChangeText={(text) => shipping.setValue("phone", text)}
+                      onBlur={() => shipping.setFieldTouched("phone")}
+                      placeholder={countryFormat.phoneExample}
+                      placeholderTextColor="#6b7280"
+                      keyboardType="phone-pad"
+                      className={`flex-1 bg-black border rounded-lg px-4 py-3 text-white ${shippingInputBorder("phone")}`}
+                    />
+                  </View>
+                  <FieldError message={shipping.errors.phone} />
                 </View>
                 
                 <View>
                   <Text className="text-gray-300 mb-2">Address</Text>
                   <TextInput
-                    value={formData.address}
-                    onChangeText={(text) => setFormData({...formData, address: text})}
+                    value={shipping.values.address}
+                    onChangeText={(text) => shipping.setValue("address", text)}
+                    onBlur={() => shipping.setFieldTouched("address")}
                     placeholder="Enter your address"
                     placeholderTextColor="#6b7280"
-                    className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                    className={`bg-black border rounded-lg px-4 py-3 text-white ${shippingInputBorder("address")}`}
                   />
+                  <FieldError message={shipping.errors.address} />
                 </View>
                 
                 <View className="flex-row gap-3">
                   <View className="flex-1">
                     <Text className="text-gray-300 mb-2">City</Text>
                     <TextInput
-                      value={formData.city}
-                      onChangeText={(text) => setFormData({...formData, city: text})}
+                      value={shipping.values.city}
+                      onChangeText={(text) => shipping.setValue("city", text)}
+                      onBlur={() => shipping.setFieldTouched("city")}
                       placeholder="City"
                       placeholderTextColor="#6b7280"
-                      className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                      className={`bg-black border rounded-lg px-4 py-3 text-white ${shippingInputBorder("city")}`}
                     />
+                    <FieldError message={shipping.errors.city} />
                   </View>
                   <View className="flex-1">
-                    <Text className="text-gray-300 mb-2">ZIP Code</Text>
+                    <Text className="text-gray-300 mb-2">{countryFormat.postalLabel}</Text>
                     <TextInput
-                      value={formData.zipCode}
-                      onChangeText={(text) => setFormData({...formData, zipCode: text})}
-                      placeholder="ZIP"
+                      value={shipping.values.zipCode}
+                      onChangeText={(text) => shipping.setValue("zipCode", text)}
+                      onBlur={() => shipping.setFieldTouched("zipCode")}
+                      placeholder={countryFormat.postalExample}
                       placeholderTextColor="#6b7280"
-                      className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                      autoCapitalize="characters"
+                      className={`bg-black border rounded-lg px-4 py-3 text-white ${shippingInputBorder("zipCode")}`}
                     />
+                    <FieldError message={shipping.errors.zipCode} />
                   </View>
                 </View>
+
+                {isNewAddress && (
+                  <TouchableOpacity
+                    onPress={() => setSaveNewAddress((prev) => !prev)}
+                    className="flex-row items-center"
+                  >
+                    <Ionicons
+                      name={saveNewAddress ? "checkbox" : "square-outline"}
+                      size={22}
+                      color="#fb923c"
+                    />
+                    <Text className="text-gray-300 ml-2">Save this address for next time</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             </View>
           )}
@@ -284,60 +949,160 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
                 </TouchableOpacity>
               </View>
 
-              {/* Card Details */}
-              {paymentMethod === "card" && (
-                <View className="space-y-4">
+              {/* Saved Cards */}
+              {paymentMethod === "card" && cards.length > 0 && (
+                <View className="gap-2 mb-4">
+                  {cards.map((card) => {
+                    const isSelected = selectedCardId === card.id;
+                    const isExpired = isCardExpired(card);
+                    return (
+                      <TouchableOpacity
+                        key={card.id}
+                        onPress={() => selectCard(card.id)}
+                        className={`flex-row items-center p-3 rounded-lg border ${
+                          isSelected ? "bg-orange-500/10 border-orange-500" : "bg-black border-gray-600"
+                        }`}
+                      >
+                        <Ionicons
+                          name={isSelected ? "radio-button-on" : "radio-button-off"}
+                          size={16}
+                          color="#fb923c"
+                        />
+                        <View className="w-10 items-center ml-2">
+                          <CardBrandIcon brand={card.brand} />
+                        </View>
+                        <View className="flex-1 ml-2">
+                          <Text className="text-white font-medium">{describeCard(card)}</Text>
+                          <Text className={`text-xs ${isExpired ? "text-red-400" : "text-gray-400"}`}>
+                            {isExpired ? `Expired ${card.expiryDate}` : `Expires ${card.expiryDate}`}
+                          </Text>
+                        </View>
+                        {card.id === defaultCard?.id && (
+                          <Text className="text-orange-400 text-xs">Default</Text>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                  <TouchableOpacity
+                    onPress={() => selectCard(null)}
+                    className={`flex-row items-center p-3 rounded-lg border ${
+                      selectedCardId === null
+                        ? "bg-orange-500/10 border-orange-500"
+                        : "bg-black border-gray-600"
+                    }`}
+                  >
+                    <Ionicons
+                      name={selectedCardId === null ? "radio-button-on" : "radio-button-off"}
+                      size={16}
+                      color="#fb923c"
+                    />
+                    <Text className="text-white font-medium ml-2">Use a new card</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Saved Card CVV */}
+              {isUsingSavedCard && (
+                savedCardExpired ? (
+                  <FieldError message="This card has expired. Choose another card or add a new one." />
+                ) : (
                   <View>
-                    <Text className="text-gray-300 mb-2">Card Number</Text>
+                    <Text className="text-gray-300 mb-2">CVV for {describeCard(selectedCard)}</Text>
                     <TextInput
-                      value={formData.cardNumber}
-                      onChangeText={(text) => setFormData({...formData, cardNumber: formatCardNumber(text)})}
-                      placeholder="1234 5678 9012 3456"
+                      value={formData.cvv}
+                      onChangeText={(text) => setFormData({ ...formData, cvv: text.replace(/\D/g, "") })}
+                      onBlur={() => touchCardField("cvv")}
+                      placeholder={"•".repeat(getCvvLength(selectedCard.brand))}
                       placeholderTextColor="#6b7280"
                       keyboardType="numeric"
-                      maxLength={19}
-                      className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                      maxLength={getCvvLength(selectedCard.brand)}
+                      secureTextEntry
+                      className={`w-32 bg-black border rounded-lg px-4 py-3 text-white ${cardInputBorder("cvv")}`}
                     />
+                    <FieldError message={cardFieldError("cvv")} />
                   </View>
-                  
+                )
+              )}
+
+              {/* Card Details */}
+              {paymentMethod === "card" && !isUsingSavedCard && (
+                <View className="space-y-4">
+                  <View>
+                    <Text className="text-gray-300 mb-2">Card Number</Text>
+                    <View className="relative">
+                      <TextInput
+                        value={formData.cardNumber}
+                        onChangeText={(text) => setFormData({...formData, cardNumber: formatCardNumber(text)})}
+                        onBlur={() => touchCardField("cardNumber")}
+                        placeholder="1234 5678 9012 3456"
+                        placeholderTextColor="#6b7280"
+                        keyboardType="numeric"
+                        maxLength={getFormattedCardLength(cardBrand)}
+                        className={`bg-black border rounded-lg pl-4 pr-14 py-3 text-white ${cardInputBorder("cardNumber")}`}
+                      />
+                      <View className="absolute right-4 top-0 bottom-0 justify-center">
+                        <CardBrandIcon brand={cardBrand} />
+                      </View>
+                    </View>
+                    <FieldError message={cardFieldError("cardNumber")} />
+                  </View>
+
                   <View>
                     <Text className="text-gray-300 mb-2">Cardholder Name</Text>
                     <TextInput
                       value={formData.cardName}
                       onChangeText={(text) => setFormData({...formData, cardName: text})}
+                      onBlur={() => touchCardField("cardName")}
                       placeholder="John Doe"
                       placeholderTextColor="#6b7280"
-                      className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                      autoCapitalize="words"
+                      className={`bg-black border rounded-lg px-4 py-3 text-white ${cardInputBorder("cardName")}`}
                     />
+                    <FieldError message={cardFieldError("cardName")} />
                   </View>
-                  
-                  <View className="flex-row space-x-3">
+
+                  <View className="flex-row gap-3">
                     <View className="flex-1">
                       <Text className="text-gray-300 mb-2">Expiry Date</Text>
                       <TextInput
                         value={formData.expiryDate}
                         onChangeText={(text) => setFormData({...formData, expiryDate: formatExpiryDate(text)})}
+                        onBlur={() => touchCardField("expiryDate")}
                         placeholder="MM/YY"
                         placeholderTextColor="#6b7280"
                         keyboardType="numeric"
                         maxLength={5}
-                        className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                        className={`bg-black border rounded-lg px-4 py-3 text-white ${cardInputBorder("expiryDate")}`}
                       />
+                      <FieldError message={cardFieldError("expiryDate")} />
                     </View>
                     <View className="flex-1">
                       <Text className="text-gray-300 mb-2">CVV</Text>
                       <TextInput
                         value={formData.cvv}
-                        onChangeText={(text) => setFormData({...formData, cvv: text})}
-                        placeholder="123"
+                        onChangeText={(text) => setFormData({...formData, cvv: text.replace(/\D/g, "")})}
+                        onBlur={() => touchCardField("cvv")}
+                        placeholder={"•".repeat(getCvvLength(cardBrand))}
                         placeholderTextColor="#6b7280"
                         keyboardType="numeric"
-                        maxLength={3}
+                        maxLength={getCvvLength(cardBrand)}
                         secureTextEntry
-                        className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                        className={`bg-black border rounded-lg px-4 py-3 text-white ${cardInputBorder("cvv")}`}
                       />
+                      <FieldError message={cardFieldError("cvv")} />
                     </View>
                   </View>
+
+                  <TouchableOpacity
+                    onPress={() => setSaveNewCard((prev) => !prev)}
+                    className="flex-row items-center"
+                  >
+                    <Ionicons name={saveNewCard ? "checkbox" : "square-outline"} size={22} color="#fb923c" />
+                    <Text className="text-gray-300 ml-2">Save this card for next time</Text>
+                  </TouchableOpacity>
+                  <Text className="text-gray-500 text-xs">
+                    Only the last four digits and expiry are kept on this device. You&apos;ll re-enter the CVV each time.
+                  </Text>
                 </View>
               )}
 
@@ -350,9 +1115,21 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
                   <Text className="text-white font-medium mb-2">
                     Scan QR Code with your UPI app
                   </Text>
-                  <Text className="text-gray-400 text-center">
+                  <Text className="text-gray-400 text-center mb-4">
                     Or pay to: merchant@upi
                   </Text>
+                  <View className="w-full">
+                    <Text className="text-gray-300 mb-2">Your UPI ID</Text>
+                    <TextInput
+                      value={upiId}
+                      onChangeText={setUpiId}
+                      placeholder="name@bank"
+                      placeholderTextColor="#6b7280"
+                      autoCapitalize="none"
+                      keyboardType="email-address"
+                      className="bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                    />
+                  </View>
                 </View>
               )}
 
@@ -362,16 +1139,18 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
                   <Text className="text-white font-medium mb-4">
                     Choose your wallet:
                   </Text>
-                  <View className="flex-row space-x-4">
-                    <TouchableOpacity className="bg-blue-600 px-6 py-3 rounded-lg">
-                      <Text className="text-white font-medium">PayTM</Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity className="bg-green-600 px-6 py-3 rounded-lg">
-                      <Text className="text-white font-medium">PhonePe</Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity className="bg-red-600 px-6 py-3 rounded-lg">
-                      <Text className="text-white font-medium">GPay</Text>
-                    </TouchableOpacity>
+                  <View className="flex-row gap-4">
+                    {WALLET_OPTIONS.map((option) => (
+                      <TouchableOpacity
+                        key={option.provider}
+                        onPress={() => setWalletProvider(option.provider)}
+                        className={`${option.className} px-6 py-3 rounded-lg border-2 ${
+                          walletProvider === option.provider ? "border-white" : "border-transparent"
+                        }`}
+                      >
+                        <Text className="text-white font-medium">{option.label}</Text>
+                      </TouchableOpacity>
+                    ))}
                   </View>
                 </View>
               )}
@@ -391,6 +1170,73 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
             </View>
           )}
 
+          {/* 3-D Secure Challenge */}
+          {currentStep === "challenge" && pendingPayment && (
+            <View className="bg-gray-900 rounded-lg p-6">
+              <View className="items-center mb-6">
+                <View className="bg-orange-500/10 rounded-full p-4 mb-4">
+                  <Ionicons name="shield-checkmark" size={40} color="#f97316" />
+                </View>
+                <Text className="text-white text-xl font-bold mb-2">Verify Your Payment</Text>
+                <Text className="text-gray-400 text-center">{pendingPayment.challenge?.message}</Text>
+              </View>
+              <TextInput
+                value={challengeCode}
+                onChangeText={(text) => setChallengeCode(text.replace(/\D/g, ""))}
+                placeholder="Enter code"
+                placeholderTextColor="#6b7280"
+                keyboardType="number-pad"
+                maxLength={6}
+                editable={!isProcessing}
+                className={`bg-black border rounded-lg px-4 py-3 text-white text-center text-lg tracking-widest ${
+                  paymentError ? "border-red-500" : "border-gray-600"
+                }`}
+              />
+              {paymentError && (
+                <View className="flex-row items-center mt-2">
+                  <Ionicons name="alert-circle" size={16} color="#ef4444" />
+                  <Text className="text-red-400 text-sm ml-1">{paymentError.message}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Failed */}
+          {currentStep === "failed" && paymentError && (
+            <View className="bg-gray-900 rounded-lg p-12 items-center">
+              <View className="bg-red-500 rounded-full p-4 mb-4">
+                <Ionicons name="close" size={48} color="white" />
+              </View>
+              <Text className="text-red-400 text-2xl font-bold mb-2 text-center">
+                {FAILURE_TITLES[paymentError.code]}
+              </Text>
+              <Text className="text-gray-400 text-center">{paymentError.message}</Text>
+              <Text className="text-gray-500 text-center text-sm mt-4">
+                You have not been charged.
+              </Text>
+            </View>
+          )}
+
+          {/* Order Failed */}
+          {currentStep === "order_failed" && orderFailure && (
+            <View className="bg-gray-900 rounded-lg p-12 items-center">
+              <View className="bg-red-500 rounded-full p-4 mb-4">
+                <Ionicons name="close" size={48} color="white" />
+              </View>
+              <Text className="text-red-400 text-2xl font-bold mb-2 text-center">
+                We Couldn&apos;t Place Your Order
+              </Text>
+              <Text className="text-gray-400 text-center">
+                {orderFailure.refunded
+                  ? "Your payment went through, but saving the order failed, so it has been refunded."
+                  : "Your payment went through, but saving the order failed and the refund didn't go through either. Please contact support so we can sort it out."}
+              </Text>
+              <Text className="text-gray-500 text-center text-sm mt-4">
+                Payment reference: {orderFailure.paymentId}
+              </Text>
+            </View>
+          )}
+
           {/* Success */}
           {currentStep === "success" && (
             <View className="bg-gray-900 rounded-lg p-12 items-center">
@@ -405,12 +1251,24 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
               </Text>
               <View className="bg-green-500/10 border border-green-500 p-4 rounded-lg w-full">
                 <Text className="text-green-400 font-bold text-center">
-                  Order ID: #ORD{Date.now().toString().slice(-6)}
+                  Order ID: #{placedOrder?.id}
                 </Text>
                 <Text className="text-white text-center mt-1">
                   Delivery in 3-5 business days
                 </Text>
               </View>
+              {placedOrder && (
+                <TouchableOpacity
+                  onPress={() => {
+                    const orderId = placedOrder.id;
+                    resetAndClose();
+                    router.push(`/orders/${orderId}`);
+                  }}
+                  className="mt-4"
+                >
+                  <Text className="text-orange-400 font-medium">View order details</Text>
+                </TouchableOpacity>
+              )}
             </View>
           )}
         </ScrollView>
@@ -419,10 +1277,9 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
         <View className="bg-gray-900 border-t border-gray-700 p-6">
           {currentStep === "details" && (
             <TouchableOpacity
-              onPress={() => setCurrentStep("payment")}
-              disabled={!isDetailsValid()}
+              onPress={handleContinueToPayment}
               className={`py-4 rounded-lg ${
-                isDetailsValid() ? "bg-orange-500" : "bg-gray-600"
+                shipping.isValid ? "bg-orange-500" : "bg-gray-600"
               }`}
             >
               <Text className="text-white text-center text-lg font-bold">
@@ -434,7 +1291,7 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
           {currentStep === "payment" && (
             <TouchableOpacity
               onPress={handlePayment}
-              disabled={!isPaymentValid()}
+              disabled={!isPaymentValid() || isProcessing}
               className={`py-4 rounded-lg ${
                 isPaymentValid() ? "bg-orange-500" : "bg-gray-600"
               }`}
@@ -444,7 +1301,59 @@ export default function PaymentModal({ visible, onClose, product, discountedPric
               </Text>
             </TouchableOpacity>
           )}
+
+          {currentStep === "challenge" && (
+            <TouchableOpacity
+              onPress={handleChallengeSubmit}
+              disabled={challengeCode.length === 0 || isProcessing}
+              className={`py-4 rounded-lg ${
+                challengeCode.length > 0 && !isProcessing ? "bg-orange-500" : "bg-gray-600"
+              }`}
+            >
+              {isProcessing ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text className="text-white text-center text-lg font-bold">Verify & Pay</Text>
+              )}
+            </TouchableOpacity>
+          )}
+
+          {currentStep === "failed" && (
+            <View className="gap-3">
+              {paymentError?.retryable && (
+                <TouchableOpacity onPress={handlePayment} className="bg-orange-500 py-4 rounded-lg">
+                  <Text className="text-white text-center text-lg font-bold">Try Again</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => setCurrentStep("payment")}
+                className={`py-4 rounded-lg ${
+                  paymentError?.retryable ? "bg-gray-700" : "bg-orange-500"
+                }`}
+              >
+                <Text className="text-white text-center text-lg font-bold">
+                  Change Payment Details
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
           
+          {currentStep === "order_failed" && (
+            <View className="gap-3">
+              {orderFailure?.refunded && (
+                <TouchableOpacity onPress={handlePayment} className="bg-orange-500 py-4 rounded-lg">
+                  <Text className="text-white text-center text-lg font-bold">Try Again</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={resetAndClose}
+                className={`py-4 rounded-lg ${orderFailure?.refunded ? "bg-gray-700" : "bg-orange-500"}`}
+              >
+                <Text className="text-white text-center text-lg font-bold">Close</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {currentStep === "success" && (
             <TouchableOpacity
               onPress={resetAndClose}
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Product } from "@/lib/catalog";
+import {
+  EMPTY_FILTERS,
+  ProductFilters,
+  RATING_THRESHOLDS,
+  buildFacets,
+  matchesFilters,
+} from "@/lib/productFilters";
+
+interface ProductFilterSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Every product in the category; the facets are built from these
+  products: Product[];
+  isLoading?: boolean;
+  filters: ProductFilters;
+  onApply: (filters: ProductFilters) => void;
+}
+
+const parsePrice = (text: string): number | null => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export default function ProductFilterSheet({
+  visible,
+  onClose,
+  products,
+  isLoading = false,
+  filters,
+  onApply,
+}: ProductFilterSheetProps) {
+  // Edits stay local until applied, so closing the sheet discards them
+  const [draft, setDraft] = useState<ProductFilters>(filters);
+  const [minPriceText, setMinPriceText] = useState("");
+  const [maxPriceText, setMaxPriceText] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(filters);
+    setMinPriceText(filters.minPrice === null ? "" : String(filters.minPrice));
+    setMaxPriceText(filters.maxPrice === null ? "" : String(filters.maxPrice));
+  }, [visible, filters]);
+
+  const facets = buildFacets(products);
+  const matchCount = products.filter((product) => matchesFilters(product, draft)).length;
+
+  const toggleBrand = (brand: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      brands: prev.brands.includes(brand)
+        ? prev.brands.filter((item) => item !== brand)
+        : [...prev.brands, brand],
+    }));
+  };
+
+  const handleMinPriceChange = (text: string) => {
+    setMinPriceText(text);
+    setDraft((prev) => ({ ...prev, minPrice: parsePrice(text) }));
+  };
+
+  const handleMaxPriceChange = (text: string) => {
+    setMaxPriceText(text);
+    setDraft((prev) => ({ ...prev, maxPrice: parsePrice(text) }));
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setMinPriceText("");
+    setMaxPriceText("");
+  };
+
+  const handleApply = () => {
+    const { minPrice, maxPrice } = draft;
+    // Accept a range typed back to front rather than matching nothing
+    const swapped = minPrice !== null && maxPrice !== null && minPrice > maxPrice;
+    onApply(swapped ? { ...draft, minPrice: maxPrice, maxPrice: minPrice } : draft);
+    onClose();
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-4 py-2 rounded-full border ${
+      active ? "bg-orange-500/10 border-orange-500" : "bg-gray-800 border-gray-600"
+    }`;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View className="flex-1 bg-gray-900">
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-gray-700">
+          <TouchableOpacity onPress={onClose} className="p-2">
+            <Ionicons name="close" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-white text-lg font-bold">Filters</Text>
+          <TouchableOpacity onPress={handleReset} className="p-2">
+            <Text className="text-orange-400 font-medium">Reset</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#fb923c" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+            {/* Brand */}
+            {facets.brands.length > 0 && (
+              <View className="mb-6">
+                <Text className="text-white text-base font-bold mb-3">Brand</Text>
+                <View className="flex-row flex-wrap gap-2">
+                  {facets.brands.map(({ name, count }) => {
+                    const active = draft.brands.includes(name);
+                    return (
+                      <TouchableOpacity key={name} onPress={() => toggleBrand(name)} className={chipClass(active)}>
+                        <Text className={active ? "text-orange-400" : "text-white"}>
+                          {name} <Text className="text-gray-400">({count})</Text>
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {/* Price */}
+            <View className="mb-6">
+              <Text className="text-white text-base font-bold mb-3">Price</Text>
+              <View className="flex-row items-center gap-3">
+                <TextInput
+                  value={minPriceText}
+                  onChangeText={handleMinPriceChange}
+                  placeholder={facets.priceRange ? `Min $${facets.priceRange.min}` : "Min"}
+                  placeholderTextColor="#6b7280"
+                  keyboardType="decimal-pad"
+                  className="flex-1 bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                />
+                <Text className="text-gray-400">to</Text>
+                <TextInput
+                  value={maxPriceText}
+                  onChangeText={handleMaxPriceChange}
+                  placeholder={facets.priceRange ? `Max $${facets.priceRange.max}` : "Max"}
+                  placeholderTextColor="#6b7280"
+                  keyboardType="decimal-pad"
+                  className="flex-1 bg-black border border-gray-600 rounded-lg px-4 py-3 text-white"
+                />
+              </View>
+            </View>
+
+            {/* Rating */}
+            <View className="mb-6">
+              <Text className="text-white text-base font-bold mb-3">Customer Rating</Text>
+              <View className="flex-row flex-wrap gap-2">
+                <TouchableOpacity
+                  onPress={() => setDraft((prev) => ({ ...prev, minRating: null }))}
+                  className={chipClass(draft.minRating === null)}
+                >
+                  <Text className={draft.minRating === null ? "text-orange-400" : "text-white"}>Any</Text>
+                </TouchableOpacity>
+                {RATING_THRESHOLDS.map((threshold) => {
+                  const active = draft.minRating === threshold;
+                  return (
+                    <TouchableOpacity
+                      key={threshold}
+                      onPress={() => setDraft((prev) => ({ ...prev, minRating: threshold }))}
+                      className={`flex-row items-center ${chipClass(active)}`}
+                    >
+                      <Ionicons name="star" size={12} color="#fb923c" />
+                      <Text className={`ml-1 ${active ? "text-orange-400" : "text-white"}`}>
+                        {threshold} & up
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Availability */}
+            <View className="flex-row items-center justify-between bg-gray-800 rounded-xl p-4 mb-6">
+              <View>
+                <Text className="text-white font-semibold">In stock only</Text>
+                <Text className="text-gray-400 text-sm">
+                  {facets.inStockCount} of {products.length} available now
+                </Text>
+              </View>
+              <Switch
+                value={draft.inStockOnly}
+                onValueChange={(value) => setDraft((prev) => ({ ...prev, inStockOnly: value }))}
+                trackColor={{ true: "#f97316", false: "#4b5563" }}
+              />
+            </View>
+          </ScrollView>
+        )}
+
+        {/* Footer */}
+        <View className="p-4 border-t border-gray-700">
+          <TouchableOpacity
+            onPress={handleApply}
+            disabled={isLoading}
+            className={`py-4 rounded-lg ${isLoading ? "bg-gray-600" : "bg-orange-500"}`}
+          >
+            <Text className="text-white text-center font-semibold text-lg">
+              Show {matchCount} product{matchCount === 1 ? "" : "s"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,42 @@
+import React from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { RatingSummary } from "@/lib/reviews";
+
+interface RatingHistogramProps {
+  summary: RatingSummary;
+  selectedStars: number | null;
+  // Tapping a row filters by that rating; tapping it again clears the filter
+  onSelectStars: (stars: number | null) => void;
+}
+
+export default function RatingHistogram({ summary, selectedStars, onSelectStars }: RatingHistogramProps) {
+  const total = Math.max(1, summary.count);
+
+  return (
+    <View className="gap-2">
+      {[5, 4, 3, 2, 1].map((stars) => {
+        const count = summary.distribution[stars] ?? 0;
+        const selected = selectedStars === stars;
+        return (
+          <TouchableOpacity
+            key={stars}
+            onPress={() => onSelectStars(selected ? null : stars)}
+            disabled={count === 0 && !selected}
+            className={`flex-row items-center rounded-lg px-2 py-1 ${selected ? "bg-orange-500/10" : ""}`}
+          >
+            <Text className={`w-4 text-sm ${selected ? "text-orange-400" : "text-gray-300"}`}>{stars}</Text>
+            <Ionicons name="star" size={12} color="#fb923c" />
+            <View className="flex-1 h-2 bg-gray-700 rounded-full mx-3 overflow-hidden">
+              <View
+                className="h-2 bg-orange-500 rounded-full"
+                style={{ width: `${(count / total) * 100}%` }}
+              />
+            </View>
+            <Text className="text-gray-400 text-sm w-8 text-right">{count}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,40 @@
+import React from "react";
+import { View, Text } from "react-native";
+import StarRating from "@/components/StarRating";
+import { DisplayReview } from "@/lib/reviews";
+
+interface ReviewCardProps {
+  review: DisplayReview;
+  isMine?: boolean;
+}
+
+export default function ReviewCard({ review, isMine = false }: ReviewCardProps) {
+  return (
+    <View className="bg-gray-700/50 rounded-xl p-4">
+      <View className="flex-row items-center justify-between mb-2">
+        <View className="flex-row items-center flex-1 mr-2">
+          <Text className="text-white font-medium" numberOfLines={1}>
+            {review.reviewerName}
+          </Text>
+          {isMine && (
+            <View className="bg-orange-500/20 px-2 py-0.5 rounded-full ml-2">
+              <Text className="text-orange-300 text-xs font-medium">You</Text>
+            </View>
+          )}
+        </View>
+        <Text className="text-gray-400 text-sm">
+          {new Date(review.date).toLocaleDateString()}
+        </Text>
+      </View>
+
+      <View className="flex-row items-center mb-2">
+        <StarRating rating={review.rating} />
+        <Text className="text-gray-400 ml-2 text-sm">({review.rating})</Text>
+      </View>
+
+      {review.comment ? (
+        <Text className="text-gray-300 text-sm leading-5">{review.comment}</Text>
+      ) : null}
+    </View>
+  );
+}
@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useForm } from "@/hooks/useForm";
+import { MAX_COMMENT_LENGTH, MIN_COMMENT_LENGTH } from "@/lib/reviews";
+import { Schema, maxLength, minLength, required } from "@/lib/validation";
+
+const RATING_LABELS = ["", "Poor", "Fair", "Good", "Very good", "Excellent"];
+
+type ReviewValues = {
+  // Kept as a string so the shared form rules apply; "" until a star is picked
+  rating: string;
+  comment: string;
+};
+
+const reviewSchema: Schema<ReviewValues> = {
+  rating: [required("Choose a star rating")],
+  comment: [
+    required("Tell others what you thought"),
+    minLength(MIN_COMMENT_LENGTH, `Write at least ${MIN_COMMENT_LENGTH} characters`),
+    maxLength(MAX_COMMENT_LENGTH, `Keep it under ${MAX_COMMENT_LENGTH} characters`),
+  ],
+};
+
+interface ReviewFormModalProps {
+  visible: boolean;
+  onClose: () => void;
+  productTitle: string;
+  // The user's existing review, when editing
+  initialRating?: number;
+  initialComment?: string;
+  onSubmit: (rating: number, comment: string) => Promise<boolean>;
+}
+
+export default function ReviewFormModal({
+  visible,
+  onClose,
+  productTitle,
+  initialRating,
+  initialComment,
+  onSubmit,
+}: ReviewFormModalProps) {
+  const { values, errors, setValue, setFieldTouched, validate, reset } = useForm<ReviewValues>({
+    initialValues: { rating: "", comment: "" },
+    schema: reviewSchema,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const rating = Number(values.rating) || 0;
+
+  // Start from the user's current review each time the sheet opens
+  const [wasVisible, setWasVisible] = useState(visible);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      reset({ rating: initialRating ? String(initialRating) : "", comment: initialComment ?? "" });
+      setSaveFailed(false);
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!validate()) return;
+    setIsSaving(true);
+    const saved = await onSubmit(rating, values.comment);
+    setIsSaving(false);
+    if (saved) {
+      onClose();
+    } else {
+      setSaveFailed(true);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        className="flex-1 bg-gray-900"
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-gray-700">
+          <TouchableOpacity onPress={onClose} className="p-2">
+            <Ionicons name="close" size={24} color="#fb923c" />
+          </TouchableOpacity>
+          <Text className="text-white text-lg font-bold">
+            {initialRating ? "Edit Review" : "Write a Review"}
+          </Text>
+          <View className="w-10" />
+        </View>
+
+        <View className="flex-1 p-4">
+          <Text className="text-gray-400 text-sm mb-4" numberOfLines={2}>
+            {productTitle}
+          </Text>
+
+          {/* Rating */}
+          <View className="items-center bg-gray-800 rounded-2xl p-6 mb-4">
+            <View className="flex-row gap-2">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <TouchableOpacity
+                  key={star}
+                  onPress={() => {
+                    setValue("rating", String(star));
+                    setFieldTouched("rating");
+                  }}
+                  accessibilityLabel={`${star} star${star === 1 ? "" : "s"}`}
+                >
+                  <Ionicons name={star <= rating ? "star" : "star-outline"} size={36} color="#fb923c" />
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text className="text-orange-300 mt-3 font-medium">
+              {rating ? RATING_LABELS[rating] : "Tap to rate"}
+            </Text>
+            {errors.rating && <Text className="text-red-400 text-sm mt-2">{errors.rating}</Text>}
+          </View>
+
+          {/* Comment */}
+          <TextInput
+            value={values.comment}
+            onChangeText={(text) => setValue("comment", text)}
+            onBlur={() => setFieldTouched("comment")}
+            placeholder="What did you like or dislike?"
+            placeholderTextColor="#6b7280"
+            multiline
+            maxLength={MAX_COMMENT_LENGTH}
+            textAlignVertical="top"
+            className={`bg-black border rounded-lg px-4 py-3 text-white h-40 ${
+              errors.comment ? "border-red-500" : "border-gray-600"
+            }`}
+          />
+          <View className="flex-row justify-between mt-1">
+            <Text className="text-red-400 text-sm flex-1">{errors.comment ?? ""}</Text>
+            <Text className="text-gray-500 text-xs">
+              {values.comment.length}/{MAX_COMMENT_LENGTH}
+            </Text>
+          </View>
+
+          {saveFailed && (
+            <View className="flex-row items-center bg-red-500/10 border border-red-500/50 rounded-lg p-3 mt-4">
+              <Ionicons name="alert-circle" size={20} color="#ef4444" />
+              <Text className="text-red-400 text-sm ml-2 flex-1">
+                Your review {`couldn't`} be saved. Please try again.
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Footer */}
+        <View className="p-4 border-t border-gray-700">
+          <TouchableOpacity
+            onPress={handleSubmit}
+            disabled={isSaving}
+            className="py-4 rounded-lg bg-orange-500"
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text className="text-white text-center font-semibold text-lg">
+                {initialRating ? "Update Review" : "Submit Review"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,27 @@
+import React from "react";
+import { View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+}
+
+export default function StarRating({ rating, size = 14 }: StarRatingProps) {
+  return (
+    <View className="flex-row items-center">
+      {[1, 2, 3, 4, 5].map((star) => {
+        const name =
+          rating >= star ? "star" : rating >= star - 0.5 ? "star-half" : "star-outline";
+        return (
+          <Ionicons
+            key={star}
+            name={name}
+            size={size}
+            color={name === "star-outline" ? "#6b7280" : "#fb923c"}
+          />
+        );
+      })}
+    </View>
+  );
+}
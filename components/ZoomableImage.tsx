@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  SharedValue,
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from "react-native-reanimated";
+import { Image } from "expo-image";
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DISMISS_DISTANCE = 120;
+const DISMISS_VELOCITY = 800;
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  // Shared with the gallery so the backdrop can fade as the image is dragged down
+  dismissOffset: SharedValue<number>;
+  onDismiss: () => void;
+  // Lets the gallery stop paging while an image is zoomed in
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+export default function ZoomableImage({
+  uri,
+  width,
+  height,
+  dismissOffset,
+  onDismiss,
+  onZoomChange,
+}: ZoomableImageProps) {
+  const [isZoomed, setIsZoomed] = useState(false);
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const setZoomed = (zoomed: boolean) => {
+    setIsZoomed(zoomed);
+    onZoomChange(zoomed);
+  };
+
+  // Keeps the zoomed image covering the screen instead of panning off into empty space
+  const clampTranslation = (value: number, size: number, currentScale: number) => {
+    "worklet";
+    const max = (size * (currentScale - 1)) / 2;
+    return Math.min(max, Math.max(-max, value));
+  };
+
+  const resetZoom = () => {
+    "worklet";
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    runOnJS(setZoomed)(false);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(0.8, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) {
+        resetZoom();
+        return;
+      }
+      // Zooming out can leave the image off-centre, so pull it back within bounds
+      const nextX = clampTranslation(translateX.value, width, scale.value);
+      const nextY = clampTranslation(translateY.value, height, scale.value);
+      savedScale.value = scale.value;
+      translateX.value = withTiming(nextX);
+      translateY.value = withTiming(nextY);
+      savedTranslateX.value = nextX;
+      savedTranslateY.value = nextY;
+      runOnJS(setZoomed)(true);
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd((event) => {
+      if (savedScale.value > 1) {
+        resetZoom();
+        return;
+      }
+      // Zoom in on the point that was tapped
+      const nextX = clampTranslation((width / 2 - event.x) * (DOUBLE_TAP_SCALE - 1), width, DOUBLE_TAP_SCALE);
+      const nextY = clampTranslation((height / 2 - event.y) * (DOUBLE_TAP_SCALE - 1), height, DOUBLE_TAP_SCALE);
+      scale.value = withTiming(DOUBLE_TAP_SCALE);
+      savedScale.value = DOUBLE_TAP_SCALE;
+      translateX.value = withTiming(nextX);
+      translateY.value = withTiming(nextY);
+      savedTranslateX.value = nextX;
+      savedTranslateY.value = nextY;
+      runOnJS(setZoomed)(true);
+    });
+
+  // While zoomed, dragging moves around the image
+  const zoomPan = Gesture.Pan()
+    .enabled(isZoomed)
+    .onUpdate((event) => {
+      translateX.value = clampTranslation(savedTranslateX.value + event.translationX, width, scale.value);
+      translateY.value = clampTranslation(savedTranslateY.value + event.translationY, height, scale.value);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  // At normal size, a downward drag dismisses; horizontal drags are left to the pager
+  const dismissPan = Gesture.Pan()
+    .enabled(!isZoomed)
+    .activeOffsetY([-15, 15])
+    .failOffsetX([-15, 15])
+    .onUpdate((event) => {
+      dismissOffset.value = Math.max(0, event.translationY);
+    })
+    .onEnd((event) => {
+      if (event.translationY > DISMISS_DISTANCE || event.velocityY > DISMISS_VELOCITY) {
+        runOnJS(onDismiss)();
+      } else {
+        dismissOffset.value = withSpring(0);
+      }
+    });
+
+  const gesture = Gesture.Simultaneous(pinch, Gesture.Exclusive(doubleTap, zoomPan, dismissPan));
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value + dismissOffset.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.View style={[{ width, height }, animatedStyle]}>
+        <Image source={{ uri }} style={{ width, height }} contentFit="contain" transition={150} />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
@@ -0,0 +1,4 @@
+// Base URL of the product catalog API. Point EXPO_PUBLIC_CATALOG_API_URL at a
+// local mock server (e.g. http://localhost:4000) to run the app against fixtures.
+export const CATALOG_API_URL =
+  process.env.EXPO_PUBLIC_CATALOG_API_URL ?? "https://dummyjson.com";
@@ -0,0 +1,160 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import {
+  AddressBook,
+  AddressInput,
+  EMPTY_ADDRESS_BOOK,
+  SavedAddress,
+  createAddress,
+  isSameAddress,
+  sortAddresses,
+} from "@/lib/addresses";
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+interface AddressBookContextType {
+  // The default first, then the most recently added
+  addresses: SavedAddress[];
+  defaultAddress: SavedAddress | null;
+  isLoading: boolean;
+  // Returns the existing entry instead of adding the same address twice
+  addAddress: (input: AddressInput) => Promise<SavedAddress>;
+  updateAddress: (addressId: string, input: AddressInput) => Promise<void>;
+  removeAddress: (addressId: string) => Promise<void>;
+  setDefaultAddress: (addressId: string) => Promise<void>;
+}
+
+const AddressBookContext = createContext<AddressBookContextType | undefined>(undefined);
+
+export const useAddressBook = () => {
+  const context = useContext(AddressBookContext);
+  if (!context) {
+    throw new Error("useAddressBook must be used within an AddressBookProvider");
+  }
+  return context;
+};
+
+interface AddressBookProviderProps {
+  children: ReactNode;
+}
+
+export const AddressBookProvider: React.FC<AddressBookProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [book, setBook] = useState<AddressBook>(EMPTY_ADDRESS_BOOK);
+  const [isLoading, setIsLoading] = useState(false);
+  // Mutations read from here so back-to-back calls never work off a stale render
+  const bookRef = useRef<AddressBook>(EMPTY_ADDRESS_BOOK);
+  // Settles once the stored address book is in bookRef, so an address saved while it
+  // loads is added to it rather than replaced by it
+  const loadRef = useRef<Promise<void>>(Promise.resolve());
+
+  const storageKey = user ? userStorageKey(user.id, "addresses") : null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAddresses = async () => {
+      if (!storageKey) {
+        bookRef.current = EMPTY_ADDRESS_BOOK;
+        setBook(EMPTY_ADDRESS_BOOK);
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const stored = await readJSON<AddressBook>(storageKey, EMPTY_ADDRESS_BOOK);
+        if (!cancelled) {
+          bookRef.current = stored;
+          setBook(stored);
+        }
+      } catch (error) {
+        console.error("Error loading addresses:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRef.current = loadAddresses();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  const saveBook = async (next: AddressBook) => {
+    bookRef.current = next;
+    setBook(next);
+    if (!storageKey) return;
+    try {
+      await writeJSON(storageKey, next);
+    } catch (error) {
+      console.error("Error saving addresses:", error);
+    }
+  };
+
+  const addAddress = async (input: AddressInput) => {
+    await loadRef.current;
+    const current = bookRef.current;
+    const existing = current.addresses.find((address) => isSameAddress(address, input));
+    if (existing) return existing;
+
+    const address = createAddress(input);
+    await saveBook({
+      addresses: [...current.addresses, address],
+      // The first address saved becomes the default
+      defaultId: current.defaultId ?? address.id,
+    });
+    return address;
+  };
+
+  const updateAddress = async (addressId: string, input: AddressInput) => {
+    await loadRef.current;
+    const current = bookRef.current;
+    await saveBook({
+      ...current,
+      addresses: current.addresses.map((address) =>
+        address.id === addressId ? { ...address, ...input } : address
+      ),
+    });
+  };
+
+  const removeAddress = async (addressId: string) => {
+    await loadRef.current;
+    const current = bookRef.current;
+    const remaining = current.addresses.filter((address) => address.id !== addressId);
+    // Removing the default hands it to the most recently added address left
+    const defaultId =
+      current.defaultId === addressId
+        ? sortAddresses({ addresses: remaining, defaultId: null })[0]?.id ?? null
+        : current.defaultId;
+    await saveBook({ addresses: remaining, defaultId });
+  };
+
+  const setDefaultAddress = async (addressId: string) => {
+    await loadRef.current;
+    const current = bookRef.current;
+    if (!current.addresses.some((address) => address.id === addressId)) return;
+    await saveBook({ ...current, defaultId: addressId });
+  };
+
+  return (
+    <AddressBookContext.Provider
+      value={{
+        addresses: sortAddresses(book),
+        defaultAddress: book.addresses.find((address) => address.id === book.defaultId) ?? null,
+        isLoading,
+        addAddress,
+        updateAddress,
+        removeAddress,
+        setDefaultAddress,
+      }}
+    >
+      {children}
+    </AddressBookContext.Provider>
+  );
+};
@@ -3,22 +3,157 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
+import { AppState } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  Account,
+  createAccount,
+  findAccountByEmail,
+  getAccountById,
+  listAccounts,
+  removeAccount,
+  renameAccount,
+  setAccountPassword,
+  verifyAccount,
+} from "@/lib/accounts";
+import { showLocalNotification } from "@/lib/localNotifications";
+import {
+  ThrottleStatus,
+  clearFailedLogins,
+  clearLoginAudit,
+  getThrottleStatus,
+  recordFailedLogin,
+  recordLockedAttempt,
+} from "@/lib/loginThrottle";
+import {
+  ResetCodeCheck,
+  RESET_CODE_TTL,
+  checkResetCode,
+  discardResetCode,
+  issueResetCode,
+} from "@/lib/passwordReset";
+import {
+  NotificationInput,
+  accountLockedNotification,
+  addNotifications,
+  newLoginNotification,
+} from "@/lib/notifications";
+import { cardVault } from "@/lib/payments";
+import { UserProfile, deleteAvatar, getProfile, saveProfile, storeAvatar } from "@/lib/profile";
+import { deleteReviewsByUser } from "@/lib/reviews";
+import { deleteSavedCards, getSavedCards } from "@/lib/savedCards";
+import { readSecureJSON, secureStorage, writeSecureJSON } from "@/lib/secureStorage";
+import {
+  Session,
+  SessionUser,
+  createSession,
+  isSessionValid,
+  shouldPersistTouch,
+  touchSession,
+} from "@/lib/session";
+import { clearUserData, readJSON } from "@/lib/storage";
 
-interface User {
-  id: string;
-  email: string;
-  name: string;
-}
+type User = SessionUser;
+
+// The name is saved on the account; everything else goes to the user's profile
+export type ProfileChanges = { name?: string } & Omit<UserProfile, "avatarUri">;
+
+// One session per signed-in account so the profile screen can switch between
+// them without a password, plus the ID of the one currently in use.
+const SESSIONS_KEY = "auth.sessionsByUser";
+const ACTIVE_USER_KEY = "auth.activeUser";
+// Earlier builds stored just the active user, without any expiry
+const LEGACY_SESSION_KEY = "user";
+
+const SESSION_CHECK_INTERVAL = 30 * 1000;
+
+type SessionMap = Record<string, Session>;
+
+// Outcome of anything that checks the account password: signing in, or re-entering it
+// to change the password or delete the account
+export type PasswordCheckResult =
+  | { status: "success" }
+  | { status: "invalid"; remainingAttempts: number }
+  | { status: "locked"; lockedUntil: number }
+  | { status: "error" };
+
+const toUser = ({ id, email, name }: Account): User => ({ id, email, name });
+
+const pruneSessions = (sessions: SessionMap, now = Date.now()): SessionMap =>
+  Object.fromEntries(
+    Object.entries(sessions).filter(([, session]) => isSessionValid(session, now))
+  );
+
+const withoutSession = (sessions: SessionMap, userId: string): SessionMap =>
+  Object.fromEntries(Object.entries(sessions).filter(([id]) => id !== userId));
+
+// Security alerts shouldn't get in the way of signing in, so failures are only logged
+const notifyAccount = (accountId: string, notification: NotificationInput) => {
+  addNotifications(accountId, [notification]).catch((error) =>
+    console.error("Error saving notifications:", error)
+  );
+};
+
+type PasswordCheck =
+  | { status: "verified"; account: Account }
+  | Extract<PasswordCheckResult, { status: "invalid" | "locked" }>;
+
+// Every password check counts towards the same per-email lockout, so the signed-in
+// screens that ask for it again can't be used to guess it either
+const checkPassword = async (email: string, password: string): Promise<PasswordCheck> => {
+  const throttle = await getThrottleStatus(email);
+  if (throttle.lockedUntil) {
+    await recordLockedAttempt(email);
+    return { status: "locked", lockedUntil: throttle.lockedUntil };
+  }
+
+  const account = await verifyAccount(email, password);
+  if (!account) {
+    const next = await recordFailedLogin(email);
+    if (!next.lockedUntil) {
+      return { status: "invalid", remainingAttempts: next.remainingAttempts };
+    }
+    // Let the owner know, if the email belongs to anyone
+    const owner = await findAccountByEmail(email);
+    if (owner) notifyAccount(owner.id, accountLockedNotification(next.lockedUntil));
+    return { status: "locked", lockedUntil: next.lockedUntil };
+  }
+
+  await clearFailedLogins(email);
+  return { status: "verified", account };
+};
 
 interface AuthContextType {
   user: User | null;
+  session: Session | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
+  // Set when the active session lapsed on its own rather than through logout
+  sessionExpired: boolean;
+  login: (email: string, password: string, rememberMe?: boolean) => Promise<PasswordCheckResult>;
   signup: (email: string, password: string, name: string) => Promise<boolean>;
   logout: () => Promise<void>;
+  accounts: Account[];
+  signedInAccountIds: string[];
+  // Resolves false when the account has no session here and must log in again
+  switchAccount: (accountId: string) => Promise<boolean>;
+  // Slides the active session's expiry forward; call on user interaction
+  recordActivity: () => void;
+  clearSessionExpired: () => void;
+  getLoginThrottle: (email: string) => Promise<ThrottleStatus>;
+  // Sends a one-time code for the account, if there is one. Resolves either way
+  // so the screen can't be used to probe which emails are registered.
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (email: string, code: string, newPassword: string) => Promise<ResetCodeCheck>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<PasswordCheckResult>;
+  profile: UserProfile;
+  updateProfile: (changes: ProfileChanges) => Promise<boolean>;
+  // Pass null to remove the current picture
+  updateAvatar: (sourceUri: string | null) => Promise<boolean>;
+  // Wipes everything stored for the account once the password checks out
+  deleteAccount: (password: string) => Promise<PasswordCheckResult>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -35,20 +170,95 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
+const migrateLegacySession = async (): Promise<Session | null> => {
+  const legacyUser = await readJSON<User | null>(LEGACY_SESSION_KEY, null);
+  await AsyncStorage.removeItem(LEGACY_SESSION_KEY);
+  // These users were never asked and never timed out, so keep them signed in
+  return legacyUser ? createSession(legacyUser, true) : null;
+};
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [sessions, setSessions] = useState<SessionMap>({});
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [profile, setProfile] = useState<UserProfile>({});
+  // Activity and expiry checks fire from listeners, so they read the latest state from here
+  const sessionsRef = useRef<SessionMap>({});
+  const activeUserIdRef = useRef<string | null>(null);
+  const profileRef = useRef<UserProfile>({});
+
+  const session = user ? sessions[user.id] ?? null : null;
+  const signedInAccountIds = Object.keys(sessions);
 
   useEffect(() => {
     loadUser();
   }, []);
 
+  const userId = user?.id;
+  useEffect(() => {
+    let cancelled = false;
+    profileRef.current = {};
+    setProfile({});
+    if (!userId) return;
+
+    getProfile(userId)
+      .then((stored) => {
+        if (cancelled) return;
+        profileRef.current = stored;
+        setProfile(stored);
+      })
+      .catch((error) => console.error("Error loading profile:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const refreshAccounts = async () => {
+    setAccounts(await listAccounts());
+  };
+
+  const saveSessions = async (next: SessionMap) => {
+    sessionsRef.current = next;
+    setSessions(next);
+    await writeSecureJSON(SESSIONS_KEY, next);
+  };
+
+  const setActiveUser = async (next: User | null) => {
+    activeUserIdRef.current = next?.id ?? null;
+    setUser(next);
+    if (next) {
+      await secureStorage.setItem(ACTIVE_USER_KEY, next.id);
+    } else {
+      await secureStorage.removeItem(ACTIVE_USER_KEY);
+    }
+  };
+
   const loadUser = async () => {
     try {
-      const userData = await AsyncStorage.getItem("user");
-      if (userData) {
-        setUser(JSON.parse(userData));
+      const stored = await readSecureJSON<SessionMap>(SESSIONS_KEY, {});
+      let activeId = await secureStorage.getItem(ACTIVE_USER_KEY);
+
+      const migrated = await migrateLegacySession();
+      if (migrated && !stored[migrated.user.id]) {
+        stored[migrated.user.id] = migrated;
+        activeId = activeId ?? migrated.user.id;
+      }
+
+      const valid = pruneSessions(stored);
+      const active = activeId ? valid[activeId] : undefined;
+      if (active) {
+        const touched = touchSession(active);
+        await saveSessions({ ...valid, [touched.user.id]: touched });
+        await setActiveUser(touched.user);
+      } else {
+        await saveSessions(valid);
+        await setActiveUser(null);
+        // Only tell the user about expiry when there was a session to lose
+        if (activeId && stored[activeId]) setSessionExpired(true);
       }
+      await refreshAccounts();
     } catch (error) {
       console.error("Error loading user:", error);
     } finally {
@@ -56,30 +266,72 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const expireActiveSession = async () => {
+    const activeId = activeUserIdRef.current;
+    if (!activeId) return;
+    await saveSessions(pruneSessions(withoutSession(sessionsRef.current, activeId)));
+    await setActiveUser(null);
+    setSessionExpired(true);
+  };
+
+  const checkSession = () => {
+    const activeId = activeUserIdRef.current;
+    if (activeId && !isSessionValid(sessionsRef.current[activeId])) {
+      expireActiveSession().catch((error) => console.error("Error expiring session:", error));
+    }
+  };
+
+  useEffect(() => {
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+    // Timers don't run while backgrounded, so check again as soon as the app returns
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") checkSession();
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, []);
+
+  const recordActivity = () => {
+    const activeId = activeUserIdRef.current;
+    if (!activeId) return;
+    const current = sessionsRef.current[activeId];
+    if (!isSessionValid(current)) {
+      checkSession();
+      return;
+    }
+    if (!shouldPersistTouch(current)) return;
+    saveSessions({ ...sessionsRef.current, [activeId]: touchSession(current) }).catch((error) =>
+      console.error("Error saving session:", error)
+    );
+  };
+
+  const startSession = async (account: Account, rememberMe: boolean) => {
+    const next = createSession(toUser(account), rememberMe);
+    await saveSessions({ ...pruneSessions(sessionsRef.current), [account.id]: next });
+    await setActiveUser(next.user);
+    setSessionExpired(false);
+    await refreshAccounts();
+  };
+
+  const login = async (
+    email: string,
+    password: string,
+    rememberMe = false
+  ): Promise<PasswordCheckResult> => {
     setIsLoading(true);
     try {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Check stored user data (consistent with signup)
-      const storedData = await AsyncStorage.getItem("credentials");
-      if (!storedData) return false;
-
-      const parsed = JSON.parse(storedData);
-
-      if (parsed.email === email && parsed.password === password) {
-        const userData: User = {
-          id: "1",
-          email,
-          name: parsed.name || email.split("@")[0],
-        };
-        setUser(userData);
-        return true;
-      }
-      return false;
+      const check = await checkPassword(email, password);
+      if (check.status !== "verified") return check;
+
+      const { account } = check;
+      await startSession(account, rememberMe);
+      notifyAccount(account.id, newLoginNotification());
+      return { status: "success" };
     } catch (error) {
       console.error("Login error:", error);
-      return false;
+      return { status: "error" };
     } finally {
       setIsLoading(false);
     }
@@ -92,31 +344,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   ): Promise<boolean> => {
     setIsLoading(true);
     try {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Check if user already exists
-      const existing = await AsyncStorage.getItem("user");
-      if (existing) {
-        const parsed = JSON.parse(existing);
-        if (parsed.email === email) {
-          return false; // email already used
-        }
+      const account = await createAccount(email, name, password);
+      if (!account) {
+        return false; // email already used
       }
 
-      // Store user data with password for login verification
-      const userData = { email, password, name };
-      await AsyncStorage.setItem("credentials", JSON.stringify(userData));
-
-      const check = await AsyncStorage.getItem("credentials");
-      console.log("Saved credentials:", check);
-
-      // Set user in context (without password)
-      const userContextData: User = {
-        id: "1",
-        email,
-        name,
-      };
-      setUser(userContextData);
+      await startSession(account, false);
       return true;
     } catch (error) {
       console.error("Signup error:", error);
@@ -126,23 +359,179 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const switchAccount = async (accountId: string): Promise<boolean> => {
+    if (accountId === user?.id) return true;
+    const target = sessionsRef.current[accountId];
+    if (!isSessionValid(target)) return false;
+    try {
+      const account = await getAccountById(accountId);
+      if (!account) return false;
+      const touched = touchSession({ ...target, user: toUser(account) });
+      await saveSessions({ ...sessionsRef.current, [accountId]: touched });
+      await setActiveUser(touched.user);
+      return true;
+    } catch (error) {
+      console.error("Switch account error:", error);
+      return false;
+    }
+  };
+
   const logout = async () => {
     try {
-      setUser(null);
-      await AsyncStorage.removeItem("user");
+      const activeId = activeUserIdRef.current;
+      if (activeId) {
+        await saveSessions(withoutSession(sessionsRef.current, activeId));
+      }
+      await setActiveUser(null);
     } catch (error) {
       console.error("Logout error:", error);
     }
   };
 
+  const requestPasswordReset = async (email: string) => {
+    const account = await findAccountByEmail(email);
+    if (!account) return;
+    const { code } = await issueResetCode(account.id);
+    showLocalNotification(
+      "Password reset code",
+      `Your code is ${code}. It expires in ${RESET_CODE_TTL / 60000} minutes.`
+    );
+  };
+
+  const resetPassword = async (
+    email: string,
+    code: string,
+    newPassword: string
+  ): Promise<ResetCodeCheck> => {
+    const account = await findAccountByEmail(email);
+    if (!account) return "invalid";
+
+    const check = await checkResetCode(account.id, code);
+    if (check !== "valid") return check;
+
+    await setAccountPassword(account.id, newPassword);
+    await clearFailedLogins(email);
+    // Anyone still signed in with the old password has to sign in again
+    if (sessionsRef.current[account.id]) {
+      await saveSessions(withoutSession(sessionsRef.current, account.id));
+      if (activeUserIdRef.current === account.id) await setActiveUser(null);
+    }
+    return "valid";
+  };
+
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ): Promise<PasswordCheckResult> => {
+    if (!user) return { status: "error" };
+    try {
+      const check = await checkPassword(user.email, currentPassword);
+      if (check.status !== "verified") return check;
+      await setAccountPassword(check.account.id, newPassword);
+      return { status: "success" };
+    } catch (error) {
+      console.error("Change password error:", error);
+      return { status: "error" };
+    }
+  };
+
+  const saveUserProfile = async (accountId: string, next: UserProfile) => {
+    await saveProfile(accountId, next);
+    profileRef.current = next;
+    setProfile(next);
+  };
+
+  const updateProfile = async ({ name, ...details }: ProfileChanges) => {
+    if (!user) return false;
+    try {
+      if (name !== undefined && name !== user.name) {
+        const account = await renameAccount(user.id, name);
+        if (!account) return false;
+        const renamed = toUser(account);
+        const current = sessionsRef.current[user.id];
+        if (current) {
+          await saveSessions({ ...sessionsRef.current, [user.id]: { ...current, user: renamed } });
+        }
+        await setActiveUser(renamed);
+        await refreshAccounts();
+      }
+      await saveUserProfile(user.id, { ...profileRef.current, ...details });
+      return true;
+    } catch (error) {
+      console.error("Update profile error:", error);
+      return false;
+    }
+  };
+
+  const updateAvatar = async (sourceUri: string | null) => {
+    if (!user) return false;
+    try {
+      const previous = profileRef.current.avatarUri;
+      const avatarUri = sourceUri ? await storeAvatar(user.id, sourceUri) : undefined;
+      await saveUserProfile(user.id, { ...profileRef.current, avatarUri });
+      await deleteAvatar(previous);
+      return true;
+    } catch (error) {
+      console.error("Update avatar error:", error);
+      return false;
+    }
+  };
+
+  const deleteAccount = async (password: string): Promise<PasswordCheckResult> => {
+    if (!user) return { status: "error" };
+    try {
+      const check = await checkPassword(user.email, password);
+      if (check.status !== "verified") return check;
+
+      const { account } = check;
+      // Sign out first so nothing is saved back under the account while it's wiped
+      const { avatarUri } = await getProfile(account.id);
+      const { cards } = await getSavedCards(account.id);
+      await saveSessions(withoutSession(sessionsRef.current, account.id));
+      await setActiveUser(null);
+
+      await deleteAvatar(avatarUri);
+      await clearUserData(account.id);
+      // Saved cards sit in secure storage, outside the user's data, and their tokens
+      // would otherwise stay chargeable with the provider
+      await Promise.all(cards.map((card) => cardVault.revoke(card.token)));
+      await deleteSavedCards(account.id);
+      await deleteReviewsByUser(account.id);
+      await clearFailedLogins(account.email);
+      await clearLoginAudit(account.email);
+      await discardResetCode(account.id);
+      await removeAccount(account.id);
+      await refreshAccounts();
+      return { status: "success" };
+    } catch (error) {
+      console.error("Delete account error:", error);
+      return { status: "error" };
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
         user,
+        session,
         isLoading,
+        sessionExpired,
         login,
         signup,
         logout,
+        accounts,
+        signedInAccountIds,
+        switchAccount,
+        recordActivity,
+        clearSessionExpired: () => setSessionExpired(false),
+        getLoginThrottle: getThrottleStatus,
+        requestPasswordReset,
+        resetPassword,
+        changePassword,
+        profile,
+        updateProfile,
+        updateAvatar,
+        deleteAccount,
       }}
     >
       {children}
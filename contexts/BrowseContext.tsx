@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { useAuth } from "./AuthContext";
+import { EMPTY_FILTERS, ProductFilters, SortOption } from "@/lib/productFilters";
+
+// The root layout renders a single route at a time, so the home screen unmounts
+// whenever a product is opened. Browse state lives here to be there on the way back.
+interface BrowseContextType {
+  categorySlug: string;
+  sort: SortOption;
+  filters: ProductFilters;
+  // Picking a different category clears its filters, since the facets change with it
+  selectCategory: (slug: string) => void;
+  setSort: (sort: SortOption) => void;
+  setFilters: (filters: ProductFilters) => void;
+  clearFilters: () => void;
+}
+
+const BrowseContext = createContext<BrowseContextType | undefined>(undefined);
+
+export const useBrowse = () => {
+  const context = useContext(BrowseContext);
+  if (!context) {
+    throw new Error("useBrowse must be used within a BrowseProvider");
+  }
+  return context;
+};
+
+interface BrowseProviderProps {
+  children: ReactNode;
+}
+
+export const BrowseProvider: React.FC<BrowseProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [categorySlug, setCategorySlug] = useState("");
+  const [sort, setSort] = useState<SortOption>("featured");
+  const [filters, setFilters] = useState<ProductFilters>(EMPTY_FILTERS);
+
+  // A different account starts browsing from scratch
+  useEffect(() => {
+    setCategorySlug("");
+    setSort("featured");
+    setFilters(EMPTY_FILTERS);
+  }, [user?.id]);
+
+  const selectCategory = (slug: string) => {
+    if (slug === categorySlug) return;
+    setCategorySlug(slug);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  return (
+    <BrowseContext.Provider
+      value={{
+        categorySlug,
+        sort,
+        filters,
+        selectCategory,
+        setSort,
+        setFilters,
+        clearFilters: () => setFilters(EMPTY_FILTERS),
+      }}
+    >
+      {children}
+    </BrowseContext.Provider>
+  );
+};
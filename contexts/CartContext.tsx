@@ -0,0 +1,150 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import { Product } from "@/lib/catalog";
+import { CartItem, CartTotals, clampQuantity, getCartTotals } from "@/lib/cart";
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+interface CartContextType {
+  items: CartItem[];
+  totals: CartTotals;
+  isLoading: boolean;
+  addItem: (product: Product, quantity?: number) => Promise<boolean>;
+  updateQuantity: (productId: number, quantity: number) => Promise<void>;
+  removeItem: (productId: number) => Promise<void>;
+  clearCart: () => Promise<void>;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
+
+interface CartProviderProps {
+  children: ReactNode;
+}
+
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Mutations read from here so back-to-back calls never work off a stale render
+  const itemsRef = useRef<CartItem[]>([]);
+  // Settles once the current user's stored cart is in itemsRef. Mutations wait for it so
+  // an item added while the cart is still loading isn't overwritten when it arrives.
+  const loadRef = useRef<Promise<void>>(Promise.resolve());
+
+  const storageKey = user ? userStorageKey(user.id, "cart") : null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCart = async () => {
+      if (!storageKey) {
+        itemsRef.current = [];
+        setItems([]);
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const stored = await readJSON<CartItem[]>(storageKey, []);
+        if (!cancelled) {
+          itemsRef.current = stored;
+          setItems(stored);
+        }
+      } catch (error) {
+        console.error("Error loading cart:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRef.current = loadCart();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  const saveItems = async (next: CartItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+    if (!storageKey) return;
+    try {
+      await writeJSON(storageKey, next);
+    } catch (error) {
+      console.error("Error saving cart:", error);
+    }
+  };
+
+  const addItem = async (product: Product, quantity = 1): Promise<boolean> => {
+    if (product.stock <= 0) return false;
+
+    await loadRef.current;
+    const current = itemsRef.current;
+    const existing = current.find((item) => item.product.id === product.id);
+    if (existing) {
+      const nextQuantity = clampQuantity(product, existing.quantity + quantity);
+      if (nextQuantity === existing.quantity) return false;
+      await saveItems(
+        current.map((item) =>
+          item.product.id === product.id
+            ? { product, quantity: nextQuantity }
+            : item
+        )
+      );
+      return true;
+    }
+
+    await saveItems([...current, { product, quantity: clampQuantity(product, quantity) }]);
+    return true;
+  };
+
+  const updateQuantity = async (productId: number, quantity: number) => {
+    await loadRef.current;
+    await saveItems(
+      itemsRef.current.map((item) =>
+        item.product.id === productId
+          ? { ...item, quantity: clampQuantity(item.product, quantity) }
+          : item
+      )
+    );
+  };
+
+  const removeItem = async (productId: number) => {
+    await loadRef.current;
+    await saveItems(itemsRef.current.filter((item) => item.product.id !== productId));
+  };
+
+  const clearCart = async () => {
+    await loadRef.current;
+    await saveItems([]);
+  };
+
+  return (
+    <CartContext.Provider
+      value={{
+        items,
+        totals: getCartTotals(items),
+        isLoading,
+        addItem,
+        updateQuantity,
+        removeItem,
+        clearCart,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
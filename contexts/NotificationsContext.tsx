@@ -0,0 +1,111 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { useAuth } from "./AuthContext";
+import {
+  AppNotification,
+  dismissNotification,
+  getNotifications,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from "@/lib/notifications";
+
+interface NotificationsContextType {
+  // Newest first
+  notifications: AppNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  dismiss: (notificationId: string) => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error("useNotifications must be used within a NotificationsProvider");
+  }
+  return context;
+};
+
+interface NotificationsProviderProps {
+  children: ReactNode;
+}
+
+// Notifications are written from wherever the event happens (orders, bookmarks,
+// sign-in), so this only mirrors the store and follows its updates
+export const NotificationsProvider: React.FC<NotificationsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!userId) {
+      setNotifications([]);
+      setIsLoading(false);
+      return;
+    }
+
+    // Subscribe before loading so nothing recorded in between is missed, and let
+    // an update that lands first win over the read
+    let updated = false;
+    const unsubscribe = subscribeToNotifications((changedUserId, next) => {
+      if (changedUserId !== userId || cancelled) return;
+      updated = true;
+      setNotifications(next);
+    });
+
+    const loadNotifications = async () => {
+      setIsLoading(true);
+      try {
+        const stored = await getNotifications(userId);
+        if (!cancelled && !updated) setNotifications(stored);
+      } catch (error) {
+        console.error("Error loading notifications:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadNotifications();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const update = async (change: (userId: string) => Promise<unknown>) => {
+    if (!userId) return;
+    try {
+      await change(userId);
+    } catch (error) {
+      console.error("Error saving notifications:", error);
+    }
+  };
+
+  const markRead = (notificationId: string) =>
+    update((id) => markNotificationsRead(id, [notificationId]));
+
+  const markAllRead = () => update((id) => markNotificationsRead(id));
+
+  const dismiss = (notificationId: string) =>
+    update((id) => dismissNotification(id, notificationId));
+
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications,
+        unreadCount: notifications.filter((notification) => !notification.read).length,
+        isLoading,
+        markRead,
+        markAllRead,
+        dismiss,
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
@@ -0,0 +1,206 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import { AppState } from "react-native";
+import { useAuth } from "./AuthContext";
+import {
+  Order,
+  OrderStatus,
+  advanceOrder,
+  canCancelOrder,
+  createOrder,
+  withStatus,
+} from "@/lib/orders";
+import {
+  NotificationInput,
+  addNotifications,
+  orderPlacedNotification,
+  orderStatusNotification,
+} from "@/lib/notifications";
+import { getPaymentGateway } from "@/lib/payments";
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+type NewOrder = Parameters<typeof createOrder>[0];
+
+// The fulfilment schedule's shortest step is five minutes, so this keeps statuses current
+const ADVANCE_INTERVAL = 60 * 1000;
+
+interface OrdersContextType {
+  orders: Order[];
+  isLoading: boolean;
+  // Rejects when the order can't be saved, so checkout can refund the payment
+  // instead of leaving the customer charged for an order that doesn't exist
+  placeOrder: (input: NewOrder) => Promise<Order>;
+  getOrder: (orderId: string) => Order | undefined;
+  updateOrderStatus: (orderId: string, status: OrderStatus) => Promise<void>;
+  cancelOrder: (orderId: string) => Promise<void>;
+}
+
+const OrdersContext = createContext<OrdersContextType | undefined>(undefined);
+
+export const useOrders = () => {
+  const context = useContext(OrdersContext);
+  if (!context) {
+    throw new Error("useOrders must be used within an OrdersProvider");
+  }
+  return context;
+};
+
+interface OrdersProviderProps {
+  children: ReactNode;
+}
+
+export const OrdersProvider: React.FC<OrdersProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Mutations read from here so back-to-back calls never work off a stale render
+  const ordersRef = useRef<Order[]>([]);
+  // Settles once the stored orders are in ordersRef. Placing an order before then would
+  // otherwise write a list without the stored ones over them.
+  const loadRef = useRef<Promise<void>>(Promise.resolve());
+  // advanceOrders changes identity on every render; keep the latest for the timer
+  const advanceOrdersRef = useRef<() => Promise<void>>(async () => {});
+
+  const userId = user?.id ?? null;
+  const storageKey = userId ? userStorageKey(userId, "orders") : null;
+
+  // A notification that can't be saved shouldn't hold up the order itself
+  const notify = (inputs: NotificationInput[]) => {
+    if (!userId || inputs.length === 0) return;
+    addNotifications(userId, inputs).catch((error) =>
+      console.error("Error saving notifications:", error)
+    );
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOrders = async () => {
+      if (!storageKey) {
+        ordersRef.current = [];
+        setOrders([]);
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const stored = await readJSON<Order[]>(storageKey, []);
+        const advanced = stored.map((order) => advanceOrder(order));
+        if (cancelled) return;
+        ordersRef.current = advanced;
+        setOrders(advanced);
+        await writeJSON(storageKey, advanced);
+        // Orders that moved along while the app was closed; only where each one is now
+        const moved = advanced.filter((order, index) => order.status !== stored[index].status);
+        if (userId && moved.length > 0) {
+          await addNotifications(userId, moved.map(orderStatusNotification));
+        }
+      } catch (error) {
+        console.error("Error loading orders:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRef.current = loadOrders();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, userId]);
+
+  const saveOrders = async (next: Order[]) => {
+    ordersRef.current = next;
+    setOrders(next);
+    if (!storageKey) return;
+    try {
+      await writeJSON(storageKey, next);
+    } catch (error) {
+      console.error("Error saving orders:", error);
+    }
+  };
+
+  // Moves orders along the fulfilment schedule while the app stays open
+  const advanceOrders = async () => {
+    await loadRef.current;
+    const current = ordersRef.current;
+    const next = current.map((order) => advanceOrder(order));
+    const moved = next.filter((order, index) => order !== current[index]);
+    if (moved.length === 0) return;
+    await saveOrders(next);
+    notify(moved.map(orderStatusNotification));
+  };
+  advanceOrdersRef.current = advanceOrders;
+
+  useEffect(() => {
+    if (!storageKey) return;
+    const advance = () => {
+      advanceOrdersRef.current().catch((error) => console.error("Error advancing orders:", error));
+    };
+    const interval = setInterval(advance, ADVANCE_INTERVAL);
+    // Timers don't run while backgrounded, so catch up as soon as the app returns
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") advance();
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [storageKey]);
+
+  const placeOrder = async (input: NewOrder): Promise<Order> => {
+    if (!storageKey) throw new Error("Orders can only be placed while signed in");
+    await loadRef.current;
+    const order = createOrder(input);
+    const next = [order, ...ordersRef.current];
+    await writeJSON(storageKey, next);
+    ordersRef.current = next;
+    setOrders(next);
+    notify([orderPlacedNotification(order)]);
+    return order;
+  };
+
+  const getOrder = (orderId: string) => orders.find((order) => order.id === orderId);
+
+  const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
+    await loadRef.current;
+    const next = ordersRef.current.map((order) =>
+      order.id === orderId ? withStatus(order, status) : order
+    );
+    await saveOrders(next);
+    notify(next.filter((order) => order.id === orderId).map(orderStatusNotification));
+  };
+
+  const cancelOrder = async (orderId: string) => {
+    await loadRef.current;
+    const order = ordersRef.current.find((o) => o.id === orderId);
+    if (!order || !canCancelOrder(order)) {
+      throw new Error(`Order ${orderId} cannot be cancelled`);
+    }
+    // Refund first so an order is never marked cancelled while still charged
+    if (order.paymentId) {
+      await getPaymentGateway(order.paymentMethod).refund(order.paymentId);
+    }
+    await updateOrderStatus(orderId, "cancelled");
+  };
+
+  return (
+    <OrdersContext.Provider
+      value={{
+        orders,
+        isLoading,
+        placeOrder,
+        getOrder,
+        updateOrderStatus,
+        cancelOrder,
+      }}
+    >
+      {children}
+    </OrdersContext.Provider>
+  );
+};
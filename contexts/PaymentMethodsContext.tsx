@@ -0,0 +1,158 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import { detectCardBrand, digitsOnly } from "@/lib/cardValidation";
+import { cardVault } from "@/lib/payments";
+import {
+  EMPTY_CARD_STORE,
+  SavedCard,
+  SavedCardStore,
+  createSavedCard,
+  getSavedCards,
+  isSameCard,
+  saveSavedCards,
+  sortCards,
+} from "@/lib/savedCards";
+
+interface PaymentMethodsContextType {
+  // The default first, then the most recently added
+  cards: SavedCard[];
+  defaultCard: SavedCard | null;
+  isLoading: boolean;
+  // Tokenizes the card with the payment provider. Rejects with a PaymentError when
+  // the provider won't accept it; a card that's already saved is returned as is.
+  addCard: (cardNumber: string, expiryDate: string) => Promise<SavedCard>;
+  removeCard: (cardId: string) => Promise<void>;
+  setDefaultCard: (cardId: string) => Promise<void>;
+}
+
+const PaymentMethodsContext = createContext<PaymentMethodsContextType | undefined>(undefined);
+
+export const usePaymentMethods = () => {
+  const context = useContext(PaymentMethodsContext);
+  if (!context) {
+    throw new Error("usePaymentMethods must be used within a PaymentMethodsProvider");
+  }
+  return context;
+};
+
+interface PaymentMethodsProviderProps {
+  children: ReactNode;
+}
+
+export const PaymentMethodsProvider: React.FC<PaymentMethodsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [store, setStore] = useState<SavedCardStore>(EMPTY_CARD_STORE);
+  const [isLoading, setIsLoading] = useState(false);
+  // Mutations read from here so back-to-back calls never work off a stale render
+  const storeRef = useRef<SavedCardStore>(EMPTY_CARD_STORE);
+  // Settles once the saved cards are in storeRef; changes wait for it so a card added
+  // during the load isn't dropped when the stored list arrives
+  const loadRef = useRef<Promise<void>>(Promise.resolve());
+
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCards = async () => {
+      if (!userId) {
+        storeRef.current = EMPTY_CARD_STORE;
+        setStore(EMPTY_CARD_STORE);
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const stored = await getSavedCards(userId);
+        if (!cancelled) {
+          storeRef.current = stored;
+          setStore(stored);
+        }
+      } catch (error) {
+        console.error("Error loading saved cards:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRef.current = loadCards();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const saveStore = async (next: SavedCardStore) => {
+    storeRef.current = next;
+    setStore(next);
+    if (!userId) return;
+    try {
+      await saveSavedCards(userId, next);
+    } catch (error) {
+      console.error("Error saving cards:", error);
+    }
+  };
+
+  const addCard = async (cardNumber: string, expiryDate: string) => {
+    await loadRef.current;
+    const digits = digitsOnly(cardNumber);
+    const identity = { brand: detectCardBrand(digits), last4: digits.slice(-4), expiryDate };
+    const existing = storeRef.current.cards.find((card) => isSameCard(card, identity));
+    if (existing) return existing;
+
+    const card = createSavedCard(await cardVault.tokenize({ cardNumber: digits, expiryDate }));
+    const current = storeRef.current;
+    await saveStore({
+      cards: [...current.cards, card],
+      // The first card saved becomes the default
+      defaultId: current.defaultId ?? card.id,
+    });
+    return card;
+  };
+
+  const removeCard = async (cardId: string) => {
+    await loadRef.current;
+    const current = storeRef.current;
+    const removed = current.cards.find((card) => card.id === cardId);
+    if (!removed) return;
+
+    const remaining = current.cards.filter((card) => card.id !== cardId);
+    // Removing the default hands it to the most recently added card left
+    const defaultId =
+      current.defaultId === cardId
+        ? sortCards({ cards: remaining, defaultId: null })[0]?.id ?? null
+        : current.defaultId;
+    await saveStore({ cards: remaining, defaultId });
+    cardVault
+      .revoke(removed.token)
+      .catch((error) => console.error("Error revoking card token:", error));
+  };
+
+  const setDefaultCard = async (cardId: string) => {
+    await loadRef.current;
+    const current = storeRef.current;
+    if (!current.cards.some((card) => card.id === cardId)) return;
+    await saveStore({ ...current, defaultId: cardId });
+  };
+
+  return (
+    <PaymentMethodsContext.Provider
+      value={{
+        cards: sortCards(store),
+        defaultCard: store.cards.find((card) => card.id === store.defaultId) ?? null,
+        isLoading,
+        addCard,
+        removeCard,
+        setDefaultCard,
+      }}
+    >
+      {children}
+    </PaymentMethodsContext.Provider>
+  );
+};
@@ -0,0 +1,197 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import { Product, fetchProduct } from "@/lib/catalog";
+import { addNotifications, bookmarkAlerts } from "@/lib/notifications";
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+export interface WishlistEntry {
+  // Snapshot of the product as last seen, so the list works offline
+  product: Product;
+  savedAt: number;
+  // When the snapshot was last fetched from the catalog
+  checkedAt: number;
+}
+
+export interface RefreshOptions {
+  // Re-fetch every bookmark, not just the ones whose snapshot has gone stale
+  force?: boolean;
+}
+
+// Snapshots younger than this are left alone unless a refresh is forced
+const SNAPSHOT_MAX_AGE = 30 * 60 * 1000;
+// Bookmarks are re-fetched a few at a time rather than one request each all at once
+const REFRESH_BATCH_SIZE = 4;
+
+interface WishlistContextType {
+  entries: WishlistEntry[];
+  isLoading: boolean;
+  isBookmarked: (productId: number) => boolean;
+  toggleBookmark: (product: Product) => Promise<boolean>;
+  removeBookmark: (productId: number) => Promise<void>;
+  refreshSnapshots: (options?: RefreshOptions) => Promise<boolean>;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+};
+
+interface WishlistProviderProps {
+  children: ReactNode;
+}
+
+export const WishlistProvider: React.FC<WishlistProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<WishlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Mutations read from here so back-to-back calls never work off a stale render
+  const entriesRef = useRef<WishlistEntry[]>([]);
+  // Settles once the stored bookmarks are in entriesRef, so a toggle made while they
+  // load is applied on top of them instead of being replaced
+  const loadRef = useRef<Promise<void>>(Promise.resolve());
+  // refreshSnapshots changes identity on every render; keep the latest for the load effect
+  const refreshSnapshotsRef = useRef<(options?: RefreshOptions) => Promise<boolean>>(
+    async () => true
+  );
+
+  const userId = user?.id ?? null;
+  const storageKey = userId ? userStorageKey(userId, "bookmarks") : null;
+  // A refresh spans several requests; it checks this to notice the account changing under it
+  const storageKeyRef = useRef(storageKey);
+  storageKeyRef.current = storageKey;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadWishlist = async () => {
+      if (!storageKey) {
+        entriesRef.current = [];
+        setEntries([]);
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const stored = await readJSON<WishlistEntry[]>(storageKey, []);
+        if (!cancelled) {
+          entriesRef.current = stored;
+          setEntries(stored);
+          // Picks up price drops and restocks on stale bookmarks without waiting for the tab
+          refreshSnapshotsRef.current();
+        }
+      } catch (error) {
+        console.error("Error loading bookmarks:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRef.current = loadWishlist();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  const saveEntries = async (next: WishlistEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+    if (!storageKey) return;
+    try {
+      await writeJSON(storageKey, next);
+    } catch (error) {
+      console.error("Error saving bookmarks:", error);
+    }
+  };
+
+  const isBookmarked = (productId: number) =>
+    entries.some((entry) => entry.product.id === productId);
+
+  const toggleBookmark = async (product: Product): Promise<boolean> => {
+    await loadRef.current;
+    const current = entriesRef.current;
+    if (current.some((entry) => entry.product.id === product.id)) {
+      await saveEntries(current.filter((entry) => entry.product.id !== product.id));
+      return false;
+    }
+    const now = Date.now();
+    await saveEntries([{ product, savedAt: now, checkedAt: now }, ...current]);
+    return true;
+  };
+
+  const removeBookmark = async (productId: number) => {
+    await loadRef.current;
+    await saveEntries(entriesRef.current.filter((entry) => entry.product.id !== productId));
+  };
+
+  // Re-fetches saved products whose snapshot is stale, or all of them when forced.
+  // Entries that can't be fetched (e.g. offline) keep their cached snapshot. Resolves
+  // to false when any refresh failed or the account changed before it finished.
+  const refreshSnapshots = async ({ force = false }: RefreshOptions = {}): Promise<boolean> => {
+    const startedAt = Date.now();
+    const due = entriesRef.current.filter(
+      (entry) => force || startedAt - entry.checkedAt >= SNAPSHOT_MAX_AGE
+    );
+    if (due.length === 0) return true;
+
+    const refreshed = new Map<number, Product>();
+    let failed = 0;
+    for (let i = 0; i < due.length; i += REFRESH_BATCH_SIZE) {
+      const results = await Promise.allSettled(
+        due.slice(i, i + REFRESH_BATCH_SIZE).map((entry) => fetchProduct(entry.product.id))
+      );
+      // The bookmarks now in entriesRef belong to another account
+      if (storageKeyRef.current !== storageKey) return false;
+      results.forEach((result) => {
+        if (result.status === "fulfilled") refreshed.set(result.value.id, result.value);
+        else failed += 1;
+      });
+    }
+    const alerts = due.flatMap((entry) => {
+      const latest = refreshed.get(entry.product.id);
+      return latest ? bookmarkAlerts(entry.product, latest) : [];
+    });
+
+    // Apply onto the latest entries so bookmarks toggled mid-refresh aren't lost
+    const checkedAt = Date.now();
+    await saveEntries(
+      entriesRef.current.map((entry) => {
+        const latest = refreshed.get(entry.product.id);
+        return latest ? { ...entry, product: latest, checkedAt } : entry;
+      })
+    );
+    if (userId && alerts.length > 0) {
+      addNotifications(userId, alerts).catch((error) =>
+        console.error("Error saving notifications:", error)
+      );
+    }
+    return failed === 0;
+  };
+  refreshSnapshotsRef.current = refreshSnapshots;
+
+  return (
+    <WishlistContext.Provider
+      value={{
+        entries,
+        isLoading,
+        isBookmarked,
+        toggleBookmark,
+        removeBookmark,
+        refreshSnapshots,
+      }}
+    >
+      {children}
+    </WishlistContext.Provider>
+  );
+};
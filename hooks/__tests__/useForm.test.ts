@@ -0,0 +1,62 @@
+import { act, renderHook } from "@testing-library/react-native";
+import { useForm } from "@/hooks/useForm";
+import { Schema, minLength, required } from "@/lib/validation";
+
+type Values = { name: string; city: string };
+
+const schema: Schema<Values> = {
+  name: [required("Name is required"), minLength(2, "Name is too short")],
+  city: [required("City is required")],
+};
+
+const setup = (initialValues: Values = { name: "", city: "" }) =>
+  renderHook(() => useForm({ initialValues, schema }));
+
+describe("useForm", () => {
+  it("hides errors until a field is touched", () => {
+    const { result } = setup();
+    expect(result.current.isValid).toBe(false);
+    expect(result.current.errors).toEqual({});
+
+    act(() => result.current.setFieldTouched("name"));
+    expect(result.current.errors).toEqual({ name: "Name is required" });
+  });
+
+  it("recomputes errors as values change", () => {
+    const { result } = setup();
+    act(() => {
+      result.current.setFieldTouched("name");
+      result.current.setValue("name", "A");
+    });
+    expect(result.current.errors.name).toBe("Name is too short");
+
+    act(() => result.current.setValue("name", "Ada"));
+    expect(result.current.errors.name).toBeUndefined();
+    expect(result.current.isFieldValid("name")).toBe(true);
+    expect(result.current.isFieldValid("city")).toBe(false);
+  });
+
+  it("touches every field on validate and reports whether the form is valid", () => {
+    const { result } = setup();
+    let valid = true;
+    act(() => {
+      valid = result.current.validate();
+    });
+    expect(valid).toBe(false);
+    expect(result.current.errors).toEqual({
+      name: "Name is required",
+      city: "City is required",
+    });
+  });
+
+  it("tracks which fields differ from the last reset", () => {
+    const { result } = setup({ name: "Ada", city: "London" });
+    act(() => result.current.setValue("city", "Paris"));
+    expect(result.current.dirty).toEqual({ city: true });
+    expect(result.current.isDirty).toBe(true);
+
+    act(() => result.current.reset({ name: "Ada", city: "Paris" }));
+    expect(result.current.isDirty).toBe(false);
+    expect(result.current.touched).toEqual({});
+  });
+});
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from "react";
+import { RequestOptions, isAbortError } from "@/lib/catalog";
+import { isFresh, readCache, writeCache } from "@/lib/cache";
+
+export type ResourceStatus = "idle" | "loading" | "success" | "error";
+
+interface ResourceState<T> {
+  status: ResourceStatus;
+  data: T | null;
+  error: unknown;
+  // Set while the data shown came from an expired cache entry and hasn't been refreshed yet
+  isStale: boolean;
+  isRefreshing: boolean;
+}
+
+const idle = <T>(): ResourceState<T> => ({
+  status: "idle",
+  data: null,
+  error: null,
+  isStale: false,
+  isRefreshing: false,
+});
+
+// Stale-while-revalidate: whatever is cached under `key` renders immediately, and
+// the network is only asked when there is nothing cached or the entry is older
+// than `ttl`. If that request fails, the cached copy stays on screen.
+export function useCachedResource<T>(
+  key: string | null,
+  ttl: number,
+  fetcher: (options: RequestOptions) => Promise<T>
+) {
+  const [state, setState] = useState<ResourceState<T>>(idle);
+  const fetcherRef = useRef(fetcher);
+  const requestRef = useRef<AbortController | null>(null);
+  fetcherRef.current = fetcher;
+
+  const revalidate = async (cacheKey: string, controller: AbortController) => {
+    try {
+      const data = await fetcherRef.current({ signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setState({ status: "success", data, error: null, isStale: false, isRefreshing: false });
+      writeCache(cacheKey, data).catch((error) => console.error("Error writing cache:", error));
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      setState((prev) =>
+        prev.data !== null
+          ? { ...prev, error, isRefreshing: false }
+          : { ...idle<T>(), status: "error", error }
+      );
+    }
+  };
+
+  useEffect(() => {
+    requestRef.current?.abort();
+    if (key === null) {
+      setState(idle);
+      return;
+    }
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    const load = async () => {
+      setState({ ...idle<T>(), status: "loading" });
+      const cached = await readCache<T>(key).catch(() => null);
+      if (controller.signal.aborted) return;
+
+      if (cached) {
+        const fresh = isFresh(cached, ttl);
+        setState({ status: "success", data: cached.value, error: null, isStale: !fresh, isRefreshing: false });
+        if (fresh) return;
+      }
+      await revalidate(key, controller);
+    };
+
+    load();
+    return () => controller.abort();
+  }, [key, ttl]);
+
+  // Always goes to the network, e.g. for pull-to-refresh or a retry button
+  const refresh = () => {
+    if (key === null) return;
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setState((prev) =>
+      prev.data !== null ? { ...prev, isRefreshing: true } : { ...idle<T>(), status: "loading" }
+    );
+    revalidate(key, controller);
+  };
+
+  return { ...state, refresh };
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { FormErrors, FormValues, Schema, validateValues } from "@/lib/validation";
+
+type FieldFlags<V extends FormValues> = Partial<Record<keyof V, boolean>>;
+
+interface UseFormOptions<V extends FormValues> {
+  initialValues: V;
+  schema: Schema<V>;
+}
+
+// Errors are recomputed from the schema on every render, so a schema that depends
+// on other state (e.g. the selected country) is always applied. They are only
+// exposed for fields the user has left, or after validate() touches them all.
+export function useForm<V extends FormValues>({ initialValues, schema }: UseFormOptions<V>) {
+  const [values, setValues] = useState<V>(initialValues);
+  const [baseline, setBaseline] = useState<V>(initialValues);
+  const [touched, setTouched] = useState<FieldFlags<V>>({});
+
+  const allErrors = validateValues(schema, values);
+  const errors = (Object.keys(allErrors) as (keyof V)[]).reduce<FormErrors<V>>((acc, field) => {
+    if (touched[field]) acc[field] = allErrors[field];
+    return acc;
+  }, {});
+
+  const dirty = (Object.keys(values) as (keyof V)[]).reduce<FieldFlags<V>>((acc, field) => {
+    if (values[field] !== baseline[field]) acc[field] = true;
+    return acc;
+  }, {});
+
+  const setValue = (field: keyof V, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const setFieldTouched = (field: keyof V) => {
+    setTouched((prev) => ({ ...prev, [field]: true }));
+  };
+
+  // Touches every field in the schema; returns whether the form is valid
+  const validate = () => {
+    setTouched(
+      (Object.keys(schema) as (keyof V)[]).reduce<FieldFlags<V>>(
+        (acc, field) => ({ ...acc, [field]: true }),
+        {}
+      )
+    );
+    return Object.keys(allErrors).length === 0;
+  };
+
+  const reset = (next: V = initialValues) => {
+    setValues(next);
+    setBaseline(next);
+    setTouched({});
+  };
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+    isValid: Object.keys(allErrors).length === 0,
+    // True once a touched field passes every rule, for "looks good" styling
+    isFieldValid: (field: keyof V) => Boolean(touched[field]) && !allErrors[field],
+    setValue,
+    setFieldTouched,
+    validate,
+    reset,
+  };
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+import NetInfo from "@react-native-community/netinfo";
+
+export function useNetworkStatus() {
+  const [isOffline, setIsOffline] = useState(false);
+
+  useEffect(
+    () =>
+      NetInfo.addEventListener((state) => {
+        // Reachability is null until it has been checked, so only trust an explicit false
+        setIsOffline(state.isConnected === false || state.isInternetReachable === false);
+      }),
+    []
+  );
+
+  return { isOffline };
+}
@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from "react";
+import { isFresh, readCache, writeCache } from "@/lib/cache";
+import { PageOptions, Product, ProductPage, isAbortError } from "@/lib/catalog";
+import { catalogCacheKeys } from "@/lib/catalogCache";
+
+export type PageFetcher = (options: PageOptions) => Promise<ProductPage>;
+
+export type PaginationStatus = "idle" | "loading" | "success" | "error";
+
+interface PaginationState {
+  // Describes the first page; later pages report through the flags below
+  status: PaginationStatus;
+  items: Product[];
+  total: number;
+  // Offset of the next page on the server, which can differ from items.length after dedupe
+  nextSkip: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreFailed: boolean;
+  isRefreshing: boolean;
+  // Set while cached pages older than the TTL are on screen
+  isStale: boolean;
+  // A stale page is being refetched in the background
+  isRevalidating: boolean;
+}
+
+const INITIAL: PaginationState = {
+  status: "idle",
+  items: [],
+  total: 0,
+  nextSkip: 0,
+  hasMore: false,
+  isLoadingMore: false,
+  loadMoreFailed: false,
+  isRefreshing: false,
+  isStale: false,
+  isRevalidating: false,
+};
+
+// Pages can overlap when the catalog shifts between requests, and a revalidated page
+// repeats the cached one it replaces, so keep one copy per product: the newest
+const mergeUnique = (current: Product[], incoming: Product[]) => {
+  const positions = new Map(current.map((product, index) => [product.id, index]));
+  const merged = [...current];
+  for (const product of incoming) {
+    const position = positions.get(product.id);
+    if (position !== undefined) {
+      merged[position] = product;
+    } else {
+      positions.set(product.id, merged.length);
+      merged.push(product);
+    }
+  }
+  return merged;
+};
+
+interface UsePaginatedProductsOptions {
+  // 0 loads the whole list in one request, which the catalog API reads as "no limit"
+  pageSize?: number;
+  // Persist pages and serve them stale-while-revalidate; leave unset for lists
+  // that aren't worth keeping, such as search results
+  cacheTtl?: number;
+}
+
+type LoadMode = "initial" | "more" | "refresh";
+
+// Loads a product list page by page with limit/skip. `key` identifies the list:
+// changing it starts over from the first page, and null leaves the list idle.
+export function usePaginatedProducts(
+  key: string | null,
+  fetchPage: PageFetcher,
+  { pageSize = 20, cacheTtl }: UsePaginatedProductsOptions = {}
+) {
+  const [state, setState] = useState<PaginationState>(INITIAL);
+  // Callbacks fire from list events, so they read the latest values from here
+  const stateRef = useRef<PaginationState>(INITIAL);
+  const fetchPageRef = useRef(fetchPage);
+  const requestRef = useRef<AbortController | null>(null);
+  fetchPageRef.current = fetchPage;
+
+  const update = (patch: Partial<PaginationState>) => {
+    stateRef.current = { ...stateRef.current, ...patch };
+    setState(stateRef.current);
+  };
+
+  const load = async (mode: LoadMode) => {
+    // Only one request per list at a time; a refresh or a new key replaces the old one
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    const skip = mode === "more" ? stateRef.current.nextSkip : 0;
+    if (mode === "initial") update({ ...INITIAL, status: "loading" });
+    if (mode === "more") update({ isLoadingMore: true, loadMoreFailed: false });
+    if (mode === "refresh") update({ isRefreshing: true, loadMoreFailed: false });
+
+    const applyPage = (page: ProductPage, isStale: boolean) => {
+      const nextSkip = page.skip + page.products.length;
+      update({
+        status: "success",
+        items: mergeUnique(mode === "more" ? stateRef.current.items : [], page.products),
+        total: page.total,
+        nextSkip,
+        hasMore: page.products.length > 0 && nextSkip < page.total,
+        isLoadingMore: false,
+        isRefreshing: false,
+        isRevalidating: false,
+        isStale: mode === "more" ? stateRef.current.isStale || isStale : isStale,
+      });
+    };
+
+    const cacheKey =
+      key !== null && cacheTtl !== undefined ? catalogCacheKeys.productPage(key, skip, pageSize) : null;
+    // A refresh is an explicit request for new data, so it skips the cache
+    const cached =
+      cacheKey && mode !== "refresh"
+        ? await readCache<ProductPage>(cacheKey).catch(() => null)
+        : null;
+    if (controller.signal.aborted) return;
+    if (cached && cacheTtl !== undefined) {
+      const fresh = isFresh(cached, cacheTtl);
+      applyPage(cached.value, !fresh);
+      if (fresh) return;
+      // Hold off further pages until this one has been revalidated
+      update({ isRevalidating: true });
+    }
+
+    try {
+      const page = await fetchPageRef.current({ limit: pageSize, skip, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      applyPage(page, false);
+      if (cacheKey) {
+        writeCache(cacheKey, page).catch((error) => console.error("Error writing cache:", error));
+      }
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      console.error("Failed to load products:", error);
+      if (cached) {
+        // Offline or failing: the cached page already on screen will have to do
+        update({ isRevalidating: false });
+      } else if (mode === "more") {
+        update({ isLoadingMore: false, loadMoreFailed: true });
+      } else if (mode === "refresh" && stateRef.current.items.length > 0) {
+        // Keep what's on screen; the list is still usable
+        update({ isRefreshing: false });
+      } else {
+        update({ ...INITIAL, status: "error" });
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (key === null) {
+      requestRef.current?.abort();
+      update(INITIAL);
+      return;
+    }
+    load("initial");
+    return () => requestRef.current?.abort();
+  }, [key, pageSize, cacheTtl]);
+
+  const loadMore = () => {
+    const current = stateRef.current;
+    if (
+      key === null ||
+      current.status !== "success" ||
+      !current.hasMore ||
+      current.isLoadingMore ||
+      current.isRefreshing ||
+      current.isRevalidating ||
+      // A failed page waits for an explicit retry instead of hammering on every scroll
+      current.loadMoreFailed
+    ) {
+      return;
+    }
+    load("more");
+  };
+
+  const refresh = () => {
+    if (key === null || stateRef.current.isRefreshing) return;
+    load(stateRef.current.status === "success" ? "refresh" : "initial");
+  };
+
+  const retry = () => {
+    if (key === null) return;
+    if (stateRef.current.loadMoreFailed) {
+      update({ loadMoreFailed: false });
+      load("more");
+    } else {
+      load("initial");
+    }
+  };
+
+  return { ...state, loadMore, refresh, retry };
+}
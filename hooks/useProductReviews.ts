@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Product } from "@/lib/catalog";
+import {
+  LocalReview,
+  deleteReview,
+  getLocalReviews,
+  getRatingSummary,
+  mergeReviews,
+  saveReview,
+} from "@/lib/reviews";
+
+// The catalog's reviews plus the ones written on this device, with the rating
+// summary recomputed over both
+export function useProductReviews(product: Product | null) {
+  const { user } = useAuth();
+  const [localReviews, setLocalReviews] = useState<LocalReview[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const productId = product?.id;
+
+  useEffect(() => {
+    // Never show the previous product's reviews while this one loads
+    setLocalReviews([]);
+    if (productId === undefined) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getLocalReviews(productId)
+      .then((reviews) => {
+        if (!cancelled) setLocalReviews(reviews);
+      })
+      .catch((error) => console.error("Error loading reviews:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  const apiReviews = product?.reviews ?? [];
+  const myReview = user ? localReviews.find((review) => review.userId === user.id) ?? null : null;
+
+  const submitReview = async (rating: number, comment: string): Promise<boolean> => {
+    if (!user || productId === undefined) return false;
+    try {
+      setLocalReviews(await saveReview(productId, user, rating, comment));
+      return true;
+    } catch (error) {
+      console.error("Error saving review:", error);
+      return false;
+    }
+  };
+
+  const removeMyReview = async (): Promise<boolean> => {
+    if (!user || productId === undefined) return false;
+    try {
+      setLocalReviews(await deleteReview(productId, user.id));
+      return true;
+    } catch (error) {
+      console.error("Error deleting review:", error);
+      return false;
+    }
+  };
+
+  return {
+    reviews: mergeReviews(apiReviews, localReviews),
+    summary: getRatingSummary(product?.rating ?? 0, apiReviews, localReviews),
+    myReview,
+    canReview: user !== null,
+    isLoading,
+    submitReview,
+    removeMyReview,
+  };
+}
@@ -0,0 +1,33 @@
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { usePaginatedProducts } from "@/hooks/usePaginatedProducts";
+import { searchProducts } from "@/lib/catalog";
+import { MIN_QUERY_LENGTH, normalizeQuery } from "@/lib/search";
+
+interface UseProductSearchOptions {
+  delay?: number;
+  pageSize?: number;
+}
+
+// Searches the catalog once the query settles. Each new query replaces the list
+// and aborts the request before it, so a slow response can never show the
+// results of an older query.
+export function useProductSearch(
+  query: string,
+  { delay = 300, pageSize = 20 }: UseProductSearchOptions = {}
+) {
+  const term = useDebouncedValue(normalizeQuery(query), delay);
+  const list = usePaginatedProducts(
+    term.length >= MIN_QUERY_LENGTH ? `search:${term}` : null,
+    (options) => searchProducts(term, options),
+    { pageSize }
+  );
+
+  return {
+    ...list,
+    // The query the current results belong to
+    query: term,
+    results: list.items,
+    // True while the user is still typing, before the debounced search has fired
+    isSettling: normalizeQuery(query) !== term,
+  };
+}
@@ -0,0 +1,17 @@
+// Native modules don't exist under Jest, so storage runs in memory and crypto on Node's
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+jest.mock("expo-crypto", () => {
+  const crypto = jest.requireActual<typeof import("crypto")>("crypto");
+  return {
+    getRandomBytes: (count: number) => new Uint8Array(crypto.randomBytes(count)),
+    randomUUID: () => crypto.randomUUID(),
+  };
+});
+
+// No keychain here, which sends secure storage down its AsyncStorage fallback like on web
+jest.mock("expo-secure-store", () => ({
+  isAvailableAsync: async () => false,
+}));
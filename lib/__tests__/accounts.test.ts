@@ -0,0 +1,66 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  accountExists,
+  createAccount,
+  getAccountById,
+  listAccounts,
+  verifyAccount,
+} from "@/lib/accounts";
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("createAccount", () => {
+  it("registers a normalized email under a fresh ID", async () => {
+    const account = await createAccount("  Ada@Example.com ", "Ada", "Secret-123");
+    expect(account).toMatchObject({ email: "ada@example.com", name: "Ada" });
+    expect(account?.id).not.toBe("1");
+    await expect(getAccountById(account!.id)).resolves.toEqual(account);
+  });
+
+  it("refuses an email that is already registered, whatever its case", async () => {
+    await createAccount("ada@example.com", "Ada", "Secret-123");
+    await expect(createAccount("ADA@example.com", "Imposter", "Other-456")).resolves.toBeNull();
+    await expect(listAccounts()).resolves.toHaveLength(1);
+  });
+
+  it("refuses an email still waiting in the plaintext credentials", async () => {
+    await AsyncStorage.setItem(
+      "credentials",
+      JSON.stringify({ email: "Old@Example.com", password: "old-pass" })
+    );
+    await expect(accountExists("old@example.com")).resolves.toBe(true);
+    await expect(createAccount("old@example.com", "Old", "Secret-123")).resolves.toBeNull();
+  });
+});
+
+describe("verifyAccount", () => {
+  it("returns the account only for the right password", async () => {
+    const account = await createAccount("ada@example.com", "Ada", "Secret-123");
+    await expect(verifyAccount("Ada@Example.com", "Secret-123")).resolves.toEqual(account);
+    await expect(verifyAccount("ada@example.com", "secret-123")).resolves.toBeNull();
+    await expect(verifyAccount("nobody@example.com", "Secret-123")).resolves.toBeNull();
+  });
+
+  it("verifies a password with angle brackets exactly as it was set", async () => {
+    await createAccount("ada@example.com", "Ada", "Pass<word>1");
+    await expect(verifyAccount("ada@example.com", "Pass<word>1")).resolves.not.toBeNull();
+    await expect(verifyAccount("ada@example.com", "Password1")).resolves.toBeNull();
+  });
+});
+
+describe("legacy migration", () => {
+  it("hashes plaintext credentials into the registry on the first correct sign-in", async () => {
+    await AsyncStorage.setItem(
+      "credentials",
+      JSON.stringify({ email: "old@example.com", password: "old-pass", name: "Old" })
+    );
+
+    await expect(verifyAccount("old@example.com", "wrong")).resolves.toBeNull();
+    await expect(AsyncStorage.getItem("credentials")).resolves.not.toBeNull();
+
+    const migrated = await verifyAccount("old@example.com", "old-pass");
+    expect(migrated).toMatchObject({ id: "1", email: "old@example.com", name: "Old" });
+    await expect(AsyncStorage.getItem("credentials")).resolves.toBeNull();
+    await expect(verifyAccount("old@example.com", "old-pass")).resolves.toEqual(migrated);
+  });
+});
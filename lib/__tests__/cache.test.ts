@@ -0,0 +1,53 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { clearCache, isFresh, readCache, writeCache } from "@/lib/cache";
+
+let clock = Date.UTC(2025, 0, 1);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  // Every write gets its own timestamp, so "least recently used" is well defined
+  jest.spyOn(Date, "now").mockImplementation(() => (clock += 1));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("cache", () => {
+  it("returns what was written along with when", async () => {
+    await writeCache("products", [1, 2, 3]);
+    const entry = await readCache<number[]>("products");
+    expect(entry?.value).toEqual([1, 2, 3]);
+    expect(entry?.storedAt).toBe(clock - 1);
+  });
+
+  it("returns null for a key that was never written", async () => {
+    await expect(readCache("missing")).resolves.toBeNull();
+  });
+
+  it("treats entries as fresh for the length of the TTL", () => {
+    const entry = { value: null, storedAt: 1000 };
+    expect(isFresh(entry, 500, 1499)).toBe(true);
+    expect(isFresh(entry, 500, 1500)).toBe(false);
+  });
+
+  it("skips values bigger than the whole cache", async () => {
+    await writeCache("huge", "x".repeat(2 * 1024 * 1024));
+    await expect(readCache("huge")).resolves.toBeNull();
+  });
+
+  it("evicts the least recently written entries once it holds too many", async () => {
+    for (let i = 0; i <= 300; i++) await writeCache(`entry-${i}`, i);
+    await expect(readCache("entry-0")).resolves.toBeNull();
+    await expect(readCache("entry-1")).resolves.toMatchObject({ value: 1 });
+    await expect(readCache("entry-300")).resolves.toMatchObject({ value: 300 });
+  });
+
+  it("removes every entry when cleared", async () => {
+    await writeCache("a", 1);
+    await writeCache("b", 2);
+    await clearCache();
+    await expect(readCache("a")).resolves.toBeNull();
+    await expect(readCache("b")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiryDate,
+  getCvvLength,
+  getFormattedCardLength,
+  passesLuhn,
+  validateCard,
+  validateCardName,
+  validateCardNumber,
+  validateCvv,
+  validateExpiryDate,
+} from "@/lib/cardValidation";
+
+const now = new Date(2025, 5, 15);
+
+describe("detectCardBrand", () => {
+  it.each([
+    ["4111 1111 1111 1111", "visa"],
+    ["5500 0000 0000 0004", "mastercard"],
+    ["2221 0000 0000 0009", "mastercard"],
+    ["3782 822463 10005", "amex"],
+    ["6521 0000 0000 0000", "rupay"],
+    ["9999", "unknown"],
+    ["", "unknown"],
+  ])("detects %s as %s", (number, brand) => {
+    expect(detectCardBrand(number)).toBe(brand);
+  });
+});
+
+describe("formatting", () => {
+  it("groups digits the way the brand prints them", () => {
+    expect(formatCardNumber("4111111111111111")).toBe("4111 1111 1111 1111");
+    expect(formatCardNumber("378282246310005")).toBe("3782 822463 10005");
+    expect(formatCardNumber("4111-1111")).toBe("4111 1111");
+  });
+
+  it("drops digits beyond the brand's longest number", () => {
+    expect(formatCardNumber("3782822463100059999")).toBe("3782 822463 10005");
+  });
+
+  it("sizes the input for the formatted number", () => {
+    expect(getFormattedCardLength("amex")).toBe(17);
+    expect(getFormattedCardLength("mastercard")).toBe(19);
+    expect(getFormattedCardLength("visa")).toBe(23);
+  });
+
+  it("adds the slash to an expiry date", () => {
+    expect(formatExpiryDate("1")).toBe("1");
+    expect(formatExpiryDate("12")).toBe("12/");
+    expect(formatExpiryDate("12345")).toBe("12/34");
+  });
+});
+
+describe("validateCardNumber", () => {
+  it("accepts a valid number", () => {
+    expect(passesLuhn("4111111111111111")).toBe(true);
+    expect(validateCardNumber("4111 1111 1111 1111")).toBeNull();
+  });
+
+  it("explains what's wrong", () => {
+    expect(validateCardNumber("")).toBe("Card number is required");
+    expect(validateCardNumber("9111111111111111")).toBe(
+      "We accept Visa, Mastercard, American Express and RuPay"
+    );
+    expect(validateCardNumber("37828224631000")).toBe("American Express numbers must be 15 digits");
+    expect(validateCardNumber("4111111111111112")).toBe("Card number is invalid");
+  });
+});
+
+describe("validateExpiryDate", () => {
+  it("accepts the current month through the end of it", () => {
+    expect(validateExpiryDate("06/25", now)).toBeNull();
+    expect(validateExpiryDate("01/30", now)).toBeNull();
+  });
+
+  it("rejects bad or out-of-range dates", () => {
+    expect(validateExpiryDate("", now)).toBe("Expiry date is required");
+    expect(validateExpiryDate("6/25", now)).toBe("Use MM/YY format");
+    expect(validateExpiryDate("13/25", now)).toBe("Month must be between 01 and 12");
+    expect(validateExpiryDate("05/25", now)).toBe("This card has expired");
+    expect(validateExpiryDate("01/46", now)).toBe("Expiry date is too far in the future");
+  });
+});
+
+describe("validateCvv", () => {
+  it("expects four digits for Amex and three otherwise", () => {
+    expect(getCvvLength("amex")).toBe(4);
+    expect(validateCvv("1234", "amex")).toBeNull();
+    expect(validateCvv("123", "amex")).toBe("CVV must be 4 digits");
+    expect(validateCvv("123", "visa")).toBeNull();
+    expect(validateCvv("", "visa")).toBe("CVV is required");
+  });
+});
+
+describe("validateCard", () => {
+  it("only reports the fields with problems", () => {
+    expect(
+      validateCard(
+        {
+          cardNumber: "4111 1111 1111 1111",
+          cardName: "Jane O'Neil",
+          expiryDate: "12/26",
+          cvv: "12",
+        },
+        now
+      )
+    ).toEqual({ cvv: "CVV must be 3 digits" });
+    expect(validateCardName("J4ne")).toBe("Name can only contain letters");
+  });
+});
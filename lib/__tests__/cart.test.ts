@@ -0,0 +1,112 @@
+import {
+  CartItem,
+  FREE_SHIPPING_THRESHOLD,
+  SHIPPING_FEE,
+  clampQuantity,
+  getCartTotals,
+  getCheckoutSummary,
+  getQuantityBounds,
+} from "@/lib/cart";
+import { Product } from "@/lib/catalog";
+
+const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 1,
+  title: "Product",
+  description: "",
+  category: "beauty",
+  price: 10,
+  discountPercentage: 0,
+  rating: 4,
+  stock: 10,
+  tags: [],
+  brand: "Brand",
+  sku: "",
+  weight: 0,
+  dimensions: { width: 0, height: 0, depth: 0 },
+  warrantyInformation: "",
+  shippingInformation: "",
+  availabilityStatus: "",
+  reviews: [],
+  returnPolicy: "",
+  minimumOrderQuantity: 1,
+  images: [],
+  thumbnail: "",
+  createdAt: "",
+  ...overrides,
+});
+
+const item = (overrides: Partial<Product>, quantity = 1): CartItem => ({
+  product: makeProduct(overrides),
+  quantity,
+});
+
+describe("clampQuantity", () => {
+  it("keeps quantities between the minimum order and the stock", () => {
+    const product = makeProduct({ minimumOrderQuantity: 3, stock: 8 });
+    expect(clampQuantity(product, 1)).toBe(3);
+    expect(clampQuantity(product, 5)).toBe(5);
+    expect(clampQuantity(product, 20)).toBe(8);
+  });
+
+  it("rounds fractional quantities", () => {
+    expect(clampQuantity(makeProduct(), 2.6)).toBe(3);
+  });
+
+  it("allows only the remaining stock when it is below the minimum order", () => {
+    const product = makeProduct({ minimumOrderQuantity: 5, stock: 2 });
+    expect(getQuantityBounds(product)).toEqual({ min: 2, max: 2 });
+    expect(clampQuantity(product, 1)).toBe(2);
+  });
+
+  it("allows nothing for a product that is out of stock", () => {
+    expect(clampQuantity(makeProduct({ stock: 0 }), 1)).toBe(0);
+  });
+});
+
+describe("getCartTotals", () => {
+  it("sums quantities, prices and per-product discounts", () => {
+    const totals = getCartTotals([
+      item({ price: 10, discountPercentage: 10 }, 2),
+      item({ id: 2, price: 5 }, 1),
+    ]);
+    expect(totals).toEqual({ itemCount: 3, subtotal: 25, discount: 2, total: 23 });
+  });
+
+  it("is all zeros for an empty cart", () => {
+    expect(getCartTotals([])).toEqual({ itemCount: 0, subtotal: 0, discount: 0, total: 0 });
+  });
+});
+
+describe("getCheckoutSummary", () => {
+  it("adds tax on the discounted total and shipping below the threshold", () => {
+    const summary = getCheckoutSummary([item({ price: 20, discountPercentage: 50 }, 2)]);
+    expect(summary.total).toBe(20);
+    expect(summary.tax).toBeCloseTo(1.6);
+    expect(summary.shipping).toBe(SHIPPING_FEE);
+    expect(summary.grandTotal).toBeCloseTo(20 + 1.6 + SHIPPING_FEE);
+  });
+
+  it("ships for free once the total reaches the threshold", () => {
+    const summary = getCheckoutSummary([item({ price: FREE_SHIPPING_THRESHOLD })]);
+    expect(summary.shipping).toBe(0);
+  });
+
+  it("charges nothing for an empty cart", () => {
+    expect(getCheckoutSummary([])).toMatchObject({ shipping: 0, tax: 0, grandTotal: 0 });
+  });
+
+  it("takes a promo code off before tax and the shipping threshold", () => {
+    const promotion = { code: "SAVE5", discount: 5 };
+    const summary = getCheckoutSummary([item({ price: 50 })], promotion);
+    expect(summary.promotion).toEqual(promotion);
+    expect(summary.tax).toBeCloseTo(45 * 0.08);
+    expect(summary.shipping).toBe(SHIPPING_FEE);
+    expect(summary.grandTotal).toBeCloseTo(45 + 45 * 0.08 + SHIPPING_FEE);
+  });
+
+  it("never lets a promo code take the total below zero", () => {
+    const summary = getCheckoutSummary([item({ price: 3 })], { code: "BIG", discount: 10 });
+    expect(summary.tax).toBe(0);
+    expect(summary.grandTotal).toBe(SHIPPING_FEE);
+  });
+});
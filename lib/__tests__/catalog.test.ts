@@ -0,0 +1,122 @@
+import {
+  CatalogAbortError,
+  CatalogHttpError,
+  CatalogMalformedResponseError,
+  CatalogNetworkError,
+  CatalogNotFoundError,
+  fetchProduct,
+  fetchProducts,
+  parseProduct,
+} from "@/lib/catalog";
+
+const rawProduct = {
+  id: 7,
+  title: "Lipstick",
+  price: 12.5,
+  thumbnail: "https://cdn.example.com/7/thumb.png",
+};
+
+const respond = (status: number, body: unknown) =>
+  jest.spyOn(global, "fetch").mockResolvedValue({
+    status,
+    ok: status >= 200 && status < 300,
+    json: async () => body,
+  } as Response);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("parseProduct", () => {
+  it("fills in defaults for optional fields", () => {
+    const product = parseProduct(rawProduct);
+    expect(product).toMatchObject({
+      id: 7,
+      title: "Lipstick",
+      price: 12.5,
+      description: "",
+      brand: "",
+      discountPercentage: 0,
+      stock: 0,
+      minimumOrderQuantity: 1,
+      tags: [],
+      reviews: [],
+      dimensions: { width: 0, height: 0, depth: 0 },
+    });
+  });
+
+  it("falls back to the thumbnail when there are no images", () => {
+    expect(parseProduct(rawProduct).images).toEqual([rawProduct.thumbnail]);
+    expect(parseProduct({ ...rawProduct, images: ["a.png"] }).images).toEqual(["a.png"]);
+  });
+
+  it("parses reviews with a default reviewer name", () => {
+    const product = parseProduct({ ...rawProduct, reviews: [{ rating: 4, comment: "Nice" }] });
+    expect(product.reviews).toEqual([
+      { rating: 4, comment: "Nice", date: "", reviewerName: "Anonymous", reviewerEmail: "" },
+    ]);
+  });
+
+  it("reads when the product was listed from its metadata", () => {
+    expect(parseProduct(rawProduct).createdAt).toBe("");
+    const listed = parseProduct({ ...rawProduct, meta: { createdAt: "2025-04-30T09:41:02Z" } });
+    expect(listed.createdAt).toBe("2025-04-30T09:41:02Z");
+  });
+
+  it("names the offending field when a required one is missing or mistyped", () => {
+    expect(() => parseProduct({ ...rawProduct, price: "12.5" })).toThrow(
+      new CatalogMalformedResponseError("product.price is not a number")
+    );
+    expect(() => parseProduct({ ...rawProduct, tags: ["ok", 3] })).toThrow(
+      "product.tags[1] is not a string"
+    );
+    expect(() => parseProduct(null)).toThrow("product is not an object");
+  });
+});
+
+describe("catalog requests", () => {
+  it("returns the parsed product", async () => {
+    respond(200, rawProduct);
+    await expect(fetchProduct(7)).resolves.toMatchObject({ id: 7, title: "Lipstick" });
+  });
+
+  it("maps a 404 to a not-found error", async () => {
+    respond(404, {});
+    await expect(fetchProduct(7)).rejects.toBeInstanceOf(CatalogNotFoundError);
+  });
+
+  it("maps other failed statuses to an HTTP error carrying the status", async () => {
+    respond(503, {});
+    const error = await fetchProduct(7).catch((e) => e);
+    expect(error).toBeInstanceOf(CatalogHttpError);
+    expect(error).toMatchObject({ kind: "http", status: 503 });
+  });
+
+  it("maps a failed fetch to a network error", async () => {
+    jest.spyOn(global, "fetch").mockRejectedValue(new TypeError("Network request failed"));
+    await expect(fetchProducts()).rejects.toBeInstanceOf(CatalogNetworkError);
+  });
+
+  it("maps a fetch cancelled through its signal to an abort error", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("Aborted"));
+    await expect(fetchProducts({ signal: controller.signal })).rejects.toBeInstanceOf(
+      CatalogAbortError
+    );
+  });
+
+  it("maps invalid JSON and unexpected shapes to a malformed-response error", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({
+      status: 200,
+      ok: true,
+      json: async () => {
+        throw new SyntaxError("Unexpected token");
+      },
+    } as unknown as Response);
+    await expect(fetchProduct(7)).rejects.toBeInstanceOf(CatalogMalformedResponseError);
+
+    respond(200, { products: "none" });
+    await expect(fetchProducts()).rejects.toThrow("response.products is not an array");
+  });
+});
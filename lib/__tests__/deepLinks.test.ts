@@ -0,0 +1,48 @@
+import {
+  consumePendingLink,
+  currentRoutePath,
+  isLinkableRoute,
+  setPendingLink,
+} from "@/lib/deepLinks";
+
+describe("currentRoutePath", () => {
+  it("leaves out params that are already part of the pathname", () => {
+    expect(currentRoutePath("/product/12", ["product", "[id]"], { id: "12" })).toBe("/product/12");
+  });
+
+  it("adds the remaining params as an encoded query", () => {
+    expect(currentRoutePath("/search", ["search"], { q: "red shoes & hats" })).toBe(
+      "/search?q=red%20shoes%20%26%20hats"
+    );
+  });
+
+  it("repeats array params and skips undefined ones", () => {
+    expect(
+      currentRoutePath("/category/beauty", ["category", "[slug]"], {
+        slug: "beauty",
+        tag: ["a", "b"],
+        sort: undefined,
+      })
+    ).toBe("/category/beauty?tag=a&tag=b");
+  });
+
+  it("treats catch-all segments like other dynamic segments", () => {
+    expect(currentRoutePath("/docs/a/b", ["docs", "[...rest]"], { rest: ["a", "b"] })).toBe(
+      "/docs/a/b"
+    );
+  });
+});
+
+describe("pending links", () => {
+  it("accepts only the screens that can be linked to", () => {
+    expect(isLinkableRoute("product")).toBe(true);
+    expect(isLinkableRoute("checkout")).toBe(false);
+    expect(isLinkableRoute(undefined)).toBe(false);
+  });
+
+  it("returns a held link only once", () => {
+    setPendingLink("/product/12");
+    expect(consumePendingLink()).toBe("/product/12");
+    expect(consumePendingLink()).toBeNull();
+  });
+});
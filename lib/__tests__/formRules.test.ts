@@ -0,0 +1,88 @@
+import {
+  confirmPasswordRules,
+  currentPasswordRules,
+  emailRules,
+  fullNameRules,
+  newPasswordRules,
+  phoneRules,
+  postalCodeRules,
+} from "@/lib/formRules";
+import { Schema, validateField } from "@/lib/validation";
+
+const check = (rules: ((value: string) => string | null)[], value: string) =>
+  validateField({ value: rules }, "value", { value });
+
+describe("emailRules", () => {
+  it("accepts a well-formed address", () => {
+    expect(check(emailRules, " ada.lovelace@example.co.uk ")).toBeUndefined();
+  });
+
+  it("rejects malformed addresses", () => {
+    expect(check(emailRules, "")).toBe("Email is required");
+    expect(check(emailRules, "ada@example")).toBe("Please enter a valid email address");
+    expect(check(emailRules, "ada..l@example.com")).toBe(
+      "Email cannot contain consecutive special characters"
+    );
+  });
+
+  it("suggests a fix for common domain typos and refuses disposable domains", () => {
+    expect(check(emailRules, "ada@gmial.com")).toBe("Did you mean gmail.com?");
+    expect(check(emailRules, "ada@tempmail.org")).toBe(
+      "Disposable email addresses aren't supported"
+    );
+  });
+});
+
+describe("password rules", () => {
+  it("only screens out bad input when signing in", () => {
+    expect(check(currentPasswordRules, "weak")).toBeUndefined();
+    expect(check(currentPasswordRules, "has space")).toBe("Password cannot contain spaces");
+    expect(check(currentPasswordRules, "bell\u0007")).toBe("Password contains invalid characters");
+  });
+
+  it("apply the strength requirements to a new password", () => {
+    expect(check(newPasswordRules, "short")).toBe("At least 8 characters");
+    expect(check(newPasswordRules, "Password1!")).toBeUndefined();
+  });
+
+  it("accept angle brackets both when setting and when entering a password", () => {
+    expect(check(newPasswordRules, "Pass<word>1")).toBeUndefined();
+    expect(check(currentPasswordRules, "Pass<word>1")).toBeUndefined();
+  });
+
+  it("require the confirmation to match", () => {
+    type Values = { password: string; confirm: string };
+    const schema: Schema<Values> = { confirm: confirmPasswordRules<Values>("password") };
+    expect(validateField(schema, "confirm", { password: "a", confirm: "b" })).toBe(
+      "Passwords do not match"
+    );
+    expect(validateField(schema, "confirm", { password: "a", confirm: "a" })).toBeUndefined();
+  });
+});
+
+describe("fullNameRules", () => {
+  it("accepts letters, spaces, hyphens and apostrophes", () => {
+    expect(check(fullNameRules, "Mary-Jane O'Neil")).toBeUndefined();
+    expect(check(fullNameRules, "R2D2")).toBe("Enter a valid name (2-50 characters, letters only)");
+    expect(check(fullNameRules, "Ada  Lovelace")).toBe(
+      "Enter a valid name (2-50 characters, letters only)"
+    );
+  });
+});
+
+describe("country-specific rules", () => {
+  it("check the phone number against the country's format", () => {
+    expect(check(phoneRules("US"), "(415) 555-0123")).toBeUndefined();
+    expect(check(phoneRules("US"), "+1 415 555 0123")).toBeUndefined();
+    expect(check(phoneRules("GB"), "+44 7700 900123")).toBeUndefined();
+    expect(check(phoneRules("IN"), "12345 67890")).toBe(
+      "Enter a valid India phone number, e.g. 98765 43210"
+    );
+  });
+
+  it("name the postal code the way the country does", () => {
+    expect(check(postalCodeRules("CA"), "V6B 1A1")).toBeUndefined();
+    expect(check(postalCodeRules("GB"), "")).toBe("Postcode is required");
+    expect(check(postalCodeRules("US"), "9410")).toBe("Enter a valid ZIP Code, e.g. 94103");
+  });
+});
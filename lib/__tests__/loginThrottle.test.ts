@@ -0,0 +1,93 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  MAX_ATTEMPTS,
+  clearFailedLogins,
+  clearLoginAudit,
+  getLoginAudit,
+  getThrottleStatus,
+  recordFailedLogin,
+  recordLockedAttempt,
+} from "@/lib/loginThrottle";
+
+const MINUTE = 60 * 1000;
+const email = "jane@example.com";
+const start = Date.UTC(2025, 0, 1);
+
+const failTimes = async (count: number, now = start) => {
+  let status = await getThrottleStatus(email, now);
+  for (let i = 0; i < count; i++) status = await recordFailedLogin(email, now);
+  return status;
+};
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("loginThrottle", () => {
+  it("starts with every attempt available", async () => {
+    await expect(getThrottleStatus(email, start)).resolves.toEqual({
+      lockedUntil: null,
+      remainingAttempts: MAX_ATTEMPTS,
+    });
+  });
+
+  it("counts failures down before locking", async () => {
+    const status = await failTimes(MAX_ATTEMPTS - 1);
+    expect(status).toEqual({ lockedUntil: null, remainingAttempts: 1 });
+  });
+
+  it("locks for a minute once the attempts run out", async () => {
+    const status = await failTimes(MAX_ATTEMPTS);
+    expect(status.lockedUntil).toBe(start + MINUTE);
+    expect(await getThrottleStatus(email, start + MINUTE - 1)).toMatchObject({
+      lockedUntil: start + MINUTE,
+    });
+    expect(await getThrottleStatus(email, start + MINUTE)).toMatchObject({ lockedUntil: null });
+  });
+
+  it("doubles the lockout with each further failure, up to an hour", async () => {
+    await failTimes(MAX_ATTEMPTS);
+    expect((await recordFailedLogin(email, start)).lockedUntil).toBe(start + 2 * MINUTE);
+    expect((await recordFailedLogin(email, start)).lockedUntil).toBe(start + 4 * MINUTE);
+
+    const capped = await failTimes(10);
+    expect(capped.lockedUntil).toBe(start + 60 * MINUTE);
+  });
+
+  it("treats emails case-insensitively", async () => {
+    await failTimes(MAX_ATTEMPTS - 1);
+    const status = await recordFailedLogin("  JANE@Example.com ", start);
+    expect(status.lockedUntil).toBe(start + MINUTE);
+  });
+
+  it("forgets failures after a quiet day", async () => {
+    await failTimes(MAX_ATTEMPTS - 1);
+    const nextDay = start + 24 * 60 * MINUTE + 1;
+    await expect(getThrottleStatus(email, nextDay)).resolves.toEqual({
+      lockedUntil: null,
+      remainingAttempts: MAX_ATTEMPTS,
+    });
+  });
+
+  it("clears failures after a successful login", async () => {
+    await failTimes(MAX_ATTEMPTS);
+    await clearFailedLogins(email);
+    await expect(getThrottleStatus(email, start)).resolves.toEqual({
+      lockedUntil: null,
+      remainingAttempts: MAX_ATTEMPTS,
+    });
+  });
+
+  it("keeps an audit trail per email", async () => {
+    await recordFailedLogin(email, start);
+    await recordLockedAttempt(email, start + 1);
+    await recordFailedLogin("someone@example.com", start + 2);
+
+    expect(await getLoginAudit(email)).toEqual([
+      { email, at: start + 1, reason: "locked_out" },
+      { email, at: start, reason: "invalid_credentials" },
+    ]);
+
+    await clearLoginAudit(email);
+    expect(await getLoginAudit(email)).toEqual([]);
+    expect(await getLoginAudit("someone@example.com")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Product } from "@/lib/catalog";
+import {
+  addNotifications,
+  bookmarkAlerts,
+  dismissNotification,
+  getNotifications,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from "@/lib/notifications";
+
+const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 1,
+  title: "Lipstick",
+  description: "",
+  category: "beauty",
+  price: 20,
+  discountPercentage: 0,
+  rating: 4,
+  stock: 10,
+  tags: [],
+  brand: "Brand",
+  sku: "",
+  weight: 0,
+  dimensions: { width: 0, height: 0, depth: 0 },
+  warrantyInformation: "",
+  shippingInformation: "",
+  availabilityStatus: "",
+  reviews: [],
+  returnPolicy: "",
+  minimumOrderQuantity: 1,
+  images: [],
+  thumbnail: "",
+  createdAt: "",
+  ...overrides,
+});
+
+const input = (title: string) => ({ kind: "new_login" as const, title, body: "" });
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("bookmarkAlerts", () => {
+  it("says nothing when nothing changed", () => {
+    expect(bookmarkAlerts(makeProduct(), makeProduct())).toEqual([]);
+  });
+
+  it("alerts when a sold-out product is back in stock", () => {
+    const alerts = bookmarkAlerts(makeProduct({ stock: 0 }), makeProduct({ stock: 3 }));
+    expect(alerts).toEqual([
+      {
+        kind: "back_in_stock",
+        title: "Back in stock",
+        body: "Lipstick is available again.",
+        target: { type: "product", productId: 1 },
+      },
+    ]);
+  });
+
+  it("alerts when the price after discount goes down", () => {
+    const [alert] = bookmarkAlerts(makeProduct(), makeProduct({ discountPercentage: 25 }));
+    expect(alert).toMatchObject({
+      kind: "price_drop",
+      body: "Lipstick is now $15.00, down from $20.00.",
+    });
+  });
+
+  it("ignores price rises and rounding noise", () => {
+    expect(bookmarkAlerts(makeProduct(), makeProduct({ price: 25 }))).toEqual([]);
+    expect(bookmarkAlerts(makeProduct(), makeProduct({ discountPercentage: 0.01 }))).toEqual([]);
+  });
+});
+
+describe("inbox", () => {
+  it("adds the newest first, unread, and tells subscribers", async () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToNotifications(listener);
+    await addNotifications("u1", [input("first")], 1);
+    const inbox = await addNotifications("u1", [input("second")], 2);
+    unsubscribe();
+
+    expect(inbox.map((n) => [n.title, n.read, n.createdAt])).toEqual([
+      ["second", false, 2],
+      ["first", false, 1],
+    ]);
+    expect(listener).toHaveBeenLastCalledWith("u1", inbox);
+    await expect(getNotifications("u2")).resolves.toEqual([]);
+  });
+
+  it("keeps every change when several arrive at once", async () => {
+    await Promise.all([
+      addNotifications("u1", [input("a")]),
+      addNotifications("u1", [input("b")]),
+      addNotifications("u1", [input("c")]),
+    ]);
+    await expect(getNotifications("u1")).resolves.toHaveLength(3);
+  });
+
+  it("keeps only the latest hundred", async () => {
+    const inputs = Array.from({ length: 105 }, (_, i) => input(`n${i}`));
+    await expect(addNotifications("u1", inputs)).resolves.toHaveLength(100);
+  });
+
+  it("marks some or all as read and dismisses one", async () => {
+    const [second, first] = await addNotifications("u1", [input("second"), input("first")]);
+    const marked = await markNotificationsRead("u1", [first.id]);
+    expect(marked.map((n) => n.read)).toEqual([false, true]);
+    const all = await markNotificationsRead("u1");
+    expect(all.every((n) => n.read)).toBe(true);
+    await expect(dismissNotification("u1", second.id)).resolves.toHaveLength(1);
+  });
+});
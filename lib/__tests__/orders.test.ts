@@ -0,0 +1,85 @@
+import { getCheckoutSummary } from "@/lib/cart";
+import {
+  Order,
+  advanceOrder,
+  canCancelOrder,
+  canTransition,
+  createOrder,
+  withStatus,
+} from "@/lib/orders";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const placed = (createdAt: number): Order => ({
+  ...createOrder({
+    items: [],
+    shipping: {
+      fullName: "Ada Lovelace",
+      email: "ada@example.com",
+      phone: "5550100",
+      address: "1 Main St",
+      city: "London",
+      zipCode: "10001",
+    },
+    paymentMethod: "card",
+    summary: getCheckoutSummary([]),
+  }),
+  createdAt,
+  statusHistory: [{ status: "placed", at: createdAt }],
+});
+
+describe("status transitions", () => {
+  it("only moves forward along the flow", () => {
+    expect(canTransition("placed", "processing")).toBe(true);
+    expect(canTransition("processing", "shipped")).toBe(true);
+    expect(canTransition("shipped", "delivered")).toBe(true);
+    expect(canTransition("placed", "shipped")).toBe(false);
+    expect(canTransition("delivered", "shipped")).toBe(false);
+  });
+
+  it("allows cancelling only before the order ships", () => {
+    const order = placed(0);
+    expect(canCancelOrder(order)).toBe(true);
+    expect(canCancelOrder(withStatus(order, "processing"))).toBe(true);
+    const shipped = withStatus(withStatus(order, "processing"), "shipped");
+    expect(canCancelOrder(shipped)).toBe(false);
+    expect(canCancelOrder(withStatus(order, "cancelled"))).toBe(false);
+  });
+
+  it("records each change in the history and rejects invalid ones", () => {
+    const order = withStatus(placed(0), "cancelled", 42);
+    expect(order.statusHistory).toEqual([
+      { status: "placed", at: 0 },
+      { status: "cancelled", at: 42 },
+    ]);
+    expect(() => withStatus(order, "processing")).toThrow(
+      `Order ${order.id} cannot move from cancelled to processing`
+    );
+  });
+});
+
+describe("advanceOrder", () => {
+  const start = Date.UTC(2025, 0, 1);
+
+  it("leaves a fresh order as placed", () => {
+    const order = placed(start);
+    expect(advanceOrder(order, start + 4 * MINUTE)).toBe(order);
+  });
+
+  it("moves through every step that is due, stamped with when it was due", () => {
+    const order = advanceOrder(placed(start), start + 2 * DAY);
+    expect(order.status).toBe("shipped");
+    expect(order.statusHistory).toEqual([
+      { status: "placed", at: start },
+      { status: "processing", at: start + 5 * MINUTE },
+      { status: "shipped", at: start + DAY },
+    ]);
+    expect(advanceOrder(order, start + 3 * DAY).status).toBe("delivered");
+  });
+
+  it("never moves a cancelled order", () => {
+    const cancelled = withStatus(placed(start), "cancelled", start + MINUTE);
+    expect(advanceOrder(cancelled, start + 10 * DAY)).toBe(cancelled);
+  });
+});
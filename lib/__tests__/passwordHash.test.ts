@@ -0,0 +1,34 @@
+import { hashPassword, needsRehash, verifyPassword } from "@/lib/passwordHash";
+
+describe("passwordHash", () => {
+  it("verifies the password it was made from", async () => {
+    const stored = await hashPassword("Correct-Horse-9");
+    expect(stored.algorithm).toBe("pbkdf2-sha256");
+    await expect(verifyPassword("Correct-Horse-9", stored)).resolves.toBe(true);
+  });
+
+  it("rejects any other password", async () => {
+    const stored = await hashPassword("Correct-Horse-9");
+    await expect(verifyPassword("correct-horse-9", stored)).resolves.toBe(false);
+    await expect(verifyPassword("", stored)).resolves.toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    const [first, second] = await Promise.all([hashPassword("same"), hashPassword("same")]);
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.hash).not.toBe(second.hash);
+  });
+
+  it("rejects a stored hash of the wrong length", async () => {
+    const stored = await hashPassword("Correct-Horse-9");
+    await expect(
+      verifyPassword("Correct-Horse-9", { ...stored, hash: stored.hash.slice(0, 32) })
+    ).resolves.toBe(false);
+  });
+
+  it("asks for a rehash only when the iteration count is out of date", async () => {
+    const stored = await hashPassword("Correct-Horse-9");
+    expect(needsRehash(stored)).toBe(false);
+    expect(needsRehash({ ...stored, iterations: stored.iterations - 1 })).toBe(true);
+  });
+});
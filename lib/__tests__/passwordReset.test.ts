@@ -0,0 +1,63 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  RESET_CODE_LENGTH,
+  RESET_CODE_TTL,
+  checkResetCode,
+  discardResetCode,
+  issueResetCode,
+} from "@/lib/passwordReset";
+
+const accountId = "account-1";
+const now = Date.UTC(2025, 0, 1);
+
+// Always differs from the real code, whatever it is
+const wrongCode = (code: string) =>
+  code.replace(/\d$/, (digit) => String((Number(digit) + 1) % 10));
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("passwordReset", () => {
+  it("issues a numeric code of the expected length", async () => {
+    const { code, expiresAt } = await issueResetCode(accountId, now);
+    expect(code).toMatch(new RegExp(`^\\d{${RESET_CODE_LENGTH}}$`));
+    expect(expiresAt).toBe(now + RESET_CODE_TTL);
+  });
+
+  it("accepts the code once", async () => {
+    const { code } = await issueResetCode(accountId, now);
+    await expect(checkResetCode(accountId, ` ${code} `, now)).resolves.toBe("valid");
+    await expect(checkResetCode(accountId, code, now)).resolves.toBe("expired");
+  });
+
+  it("rejects a code after it expires", async () => {
+    const { code } = await issueResetCode(accountId, now);
+    const later = now + RESET_CODE_TTL + 1;
+    await expect(checkResetCode(accountId, code, later)).resolves.toBe("expired");
+  });
+
+  it("discards the code after too many wrong guesses", async () => {
+    const { code } = await issueResetCode(accountId, now);
+    for (let i = 0; i < 4; i++) {
+      await expect(checkResetCode(accountId, wrongCode(code), now)).resolves.toBe("invalid");
+    }
+    await expect(checkResetCode(accountId, wrongCode(code), now)).resolves.toBe(
+      "too_many_attempts"
+    );
+    await expect(checkResetCode(accountId, code, now)).resolves.toBe("expired");
+  });
+
+  it("replaces an earlier code when a new one is issued", async () => {
+    const first = await issueResetCode(accountId, now);
+    const second = await issueResetCode(accountId, now);
+    if (first.code !== second.code) {
+      await expect(checkResetCode(accountId, first.code, now)).resolves.toBe("invalid");
+    }
+    await expect(checkResetCode(accountId, second.code, now)).resolves.toBe("valid");
+  });
+
+  it("forgets a discarded code", async () => {
+    const { code } = await issueResetCode(accountId, now);
+    await discardResetCode(accountId);
+    await expect(checkResetCode(accountId, code, now)).resolves.toBe("expired");
+  });
+});
@@ -0,0 +1,148 @@
+import { Product } from "@/lib/catalog";
+import {
+  EMPTY_FILTERS,
+  ProductFilters,
+  applySortAndFilters,
+  buildFacets,
+  countActiveFilters,
+  getFilterChips,
+  matchesFilters,
+  removeFilterChip,
+} from "@/lib/productFilters";
+
+const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 1,
+  title: "Product",
+  description: "",
+  category: "beauty",
+  price: 10,
+  discountPercentage: 0,
+  rating: 4,
+  stock: 10,
+  tags: [],
+  brand: "Brand",
+  sku: "",
+  weight: 0,
+  dimensions: { width: 0, height: 0, depth: 0 },
+  warrantyInformation: "",
+  shippingInformation: "",
+  availabilityStatus: "",
+  reviews: [],
+  returnPolicy: "",
+  minimumOrderQuantity: 1,
+  images: [],
+  thumbnail: "",
+  createdAt: "",
+  ...overrides,
+});
+
+const products = [
+  makeProduct({
+    id: 1,
+    brand: "Acme",
+    price: 20,
+    rating: 4.8,
+    discountPercentage: 50,
+    createdAt: "2025-01-01T00:00:00Z",
+  }),
+  makeProduct({
+    id: 2,
+    brand: "Zeta",
+    price: 15,
+    rating: 3.2,
+    stock: 0,
+    createdAt: "2025-03-01T00:00:00Z",
+  }),
+  makeProduct({ id: 3, brand: "Acme", price: 40, rating: 4.1, discountPercentage: 10 }),
+  makeProduct({ id: 4, brand: "", price: 5, rating: 2, createdAt: "2025-02-01T00:00:00Z" }),
+];
+
+const ids = (list: Product[]) => list.map((product) => product.id);
+
+const withFilters = (changes: Partial<ProductFilters>): ProductFilters => ({
+  ...EMPTY_FILTERS,
+  ...changes,
+});
+
+describe("buildFacets", () => {
+  it("counts brands, spans discounted prices and counts stock", () => {
+    expect(buildFacets(products)).toEqual({
+      brands: [
+        { name: "Acme", count: 2 },
+        { name: "Zeta", count: 1 },
+      ],
+      priceRange: { min: 5, max: 36 },
+      inStockCount: 3,
+    });
+  });
+
+  it("has no price range without products", () => {
+    expect(buildFacets([])).toEqual({ brands: [], priceRange: null, inStockCount: 0 });
+  });
+});
+
+describe("matchesFilters", () => {
+  it("compares prices after the product discount", () => {
+    const filters = withFilters({ maxPrice: 10 });
+    expect(matchesFilters(products[0], filters)).toBe(true);
+    expect(matchesFilters(products[1], filters)).toBe(false);
+  });
+
+  it("applies every filter at once", () => {
+    const filters = withFilters({ brands: ["Acme"], minRating: 4.5, inStockOnly: true });
+    expect(ids(products.filter((product) => matchesFilters(product, filters)))).toEqual([1]);
+  });
+});
+
+describe("applySortAndFilters", () => {
+  it.each([
+    ["featured", [1, 2, 3, 4]],
+    ["price_asc", [4, 1, 2, 3]],
+    ["price_desc", [3, 2, 1, 4]],
+    ["rating", [1, 3, 2, 4]],
+    ["discount", [1, 3, 2, 4]],
+    ["newest", [2, 4, 1, 3]],
+  ] as const)("sorts by %s", (sort, expected) => {
+    expect(ids(applySortAndFilters(products, sort, EMPTY_FILTERS))).toEqual(expected);
+  });
+
+  it("filters before sorting and leaves the input alone", () => {
+    const filters = withFilters({ inStockOnly: true });
+    expect(ids(applySortAndFilters(products, "price_desc", filters))).toEqual([3, 1, 4]);
+    expect(ids(products)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("filter chips", () => {
+  const filters = withFilters({
+    brands: ["Acme", "Zeta"],
+    minPrice: 10,
+    maxPrice: 30,
+    minRating: 4,
+    inStockOnly: true,
+  });
+
+  it("describes each active filter", () => {
+    expect(getFilterChips(filters).map((chip) => chip.label)).toEqual([
+      "Acme",
+      "Zeta",
+      "$10 – $30",
+      "4★ & up",
+      "In stock",
+    ]);
+    expect(getFilterChips(withFilters({ minPrice: 10 }))[0].label).toBe("$10+");
+    expect(getFilterChips(withFilters({ maxPrice: 30 }))[0].label).toBe("Up to $30");
+    expect(countActiveFilters(filters)).toBe(5);
+    expect(countActiveFilters(EMPTY_FILTERS)).toBe(0);
+  });
+
+  it("removes just the filter behind a chip", () => {
+    const [acme, , price] = getFilterChips(filters);
+    expect(removeFilterChip(filters, acme).brands).toEqual(["Zeta"]);
+    expect(removeFilterChip(filters, price)).toMatchObject({
+      minPrice: null,
+      maxPrice: null,
+      minRating: 4,
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { CartItem } from "@/lib/cart";
+import { Product } from "@/lib/catalog";
+import { Order } from "@/lib/orders";
+import {
+  Promotion,
+  countPromotionUses,
+  findPromotion,
+  getPromotionDiscount,
+  normalizePromoCode,
+  parsePromotions,
+  validatePromotion,
+} from "@/lib/promotions";
+
+const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 1,
+  title: "Product",
+  description: "",
+  category: "beauty",
+  price: 10,
+  discountPercentage: 0,
+  rating: 4,
+  stock: 10,
+  tags: [],
+  brand: "Brand",
+  sku: "",
+  weight: 0,
+  dimensions: { width: 0, height: 0, depth: 0 },
+  warrantyInformation: "",
+  shippingInformation: "",
+  availabilityStatus: "",
+  reviews: [],
+  returnPolicy: "",
+  minimumOrderQuantity: 1,
+  images: [],
+  thumbnail: "",
+  createdAt: "",
+  ...overrides,
+});
+
+const item = (overrides: Partial<Product>, quantity = 1): CartItem => ({
+  product: makeProduct(overrides),
+  quantity,
+});
+
+const percentage: Promotion = {
+  code: "TEN",
+  description: "10% off",
+  type: "percentage",
+  value: 10,
+};
+
+const order = (code: string | undefined, status: Order["status"] = "placed") =>
+  ({ status, summary: { promotion: code ? { code, discount: 1 } : undefined } }) as Order;
+
+const now = new Date("2025-06-01T00:00:00Z");
+
+describe("parsePromotions", () => {
+  it("normalizes codes and keeps optional fields", () => {
+    const [promotion] = parsePromotions([
+      { code: " save 5 ", description: "$5 off", type: "fixed", value: 5, minOrderValue: 30 },
+    ]);
+    expect(promotion).toMatchObject({ code: "SAVE5", type: "fixed", value: 5, minOrderValue: 30 });
+    expect(promotion.maxDiscount).toBeUndefined();
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parsePromotions({})).toThrow("promotions is not an array");
+    const entry = { code: "X", description: "x", type: "fixed", value: 1 };
+    expect(() => parsePromotions([{ ...entry, type: "bogo" }])).toThrow(
+      "promotions[0].type is not supported"
+    );
+    expect(() => parsePromotions([{ ...entry, value: -1 }])).toThrow(
+      "promotions[0].value is not a positive number"
+    );
+    expect(() => parsePromotions([{ ...entry, expiresAt: "soon" }])).toThrow(
+      "promotions[0].expiresAt is not a date"
+    );
+  });
+});
+
+describe("findPromotion", () => {
+  it("matches codes regardless of case and spacing", () => {
+    expect(normalizePromoCode(" we lcome10 ")).toBe("WELCOME10");
+    expect(findPromotion("ten", [percentage])).toBe(percentage);
+    expect(findPromotion("nope", [percentage])).toBeUndefined();
+  });
+});
+
+describe("validatePromotion", () => {
+  it("accepts a code that applies", () => {
+    expect(validatePromotion(percentage, [item({})], 0, now)).toBeNull();
+  });
+
+  it("rejects an expired code", () => {
+    const expired = { ...percentage, expiresAt: "2025-05-31T23:59:59Z" };
+    expect(validatePromotion(expired, [item({})], 0, now)).toBe("This promo code has expired");
+  });
+
+  it("enforces the per-user usage limit", () => {
+    const oneUse = { ...percentage, usageLimitPerUser: 1 };
+    const threeUses = { ...percentage, usageLimitPerUser: 3 };
+    expect(validatePromotion(oneUse, [item({})], 1, now)).toBe(
+      "You've already used this promo code"
+    );
+    expect(validatePromotion(threeUses, [item({})], 3, now)).toBe(
+      "This promo code can only be used 3 times"
+    );
+    expect(validatePromotion(threeUses, [item({})], 2, now)).toBeNull();
+  });
+
+  it("needs at least one qualifying item", () => {
+    const beautyOnly = { ...percentage, categories: ["beauty"] };
+    expect(validatePromotion(beautyOnly, [item({ category: "laptops" })], 0, now)).toBe(
+      "None of the items in your order qualify for this promo code"
+    );
+  });
+
+  it("measures the minimum on qualifying items after product discounts", () => {
+    const appleOnly = { ...percentage, brands: ["Apple"], minOrderValue: 100 };
+    const items = [
+      item({ brand: "Apple", price: 100, discountPercentage: 10 }),
+      item({ brand: "Other", price: 500 }),
+    ];
+    expect(validatePromotion(appleOnly, items, 0, now)).toBe(
+      "Spend at least $100.00 of qualifying items to use this code"
+    );
+  });
+});
+
+describe("getPromotionDiscount", () => {
+  it("takes a percentage off the qualifying items", () => {
+    const beautyOnly = { ...percentage, categories: ["beauty"] };
+    const items = [item({ price: 40 }, 2), item({ category: "laptops", price: 900 })];
+    expect(getPromotionDiscount(beautyOnly, items)).toBe(8);
+  });
+
+  it("caps a percentage at its maximum", () => {
+    expect(getPromotionDiscount({ ...percentage, maxDiscount: 5 }, [item({ price: 200 })])).toBe(5);
+  });
+
+  it("never takes off more than the qualifying items cost", () => {
+    const fixed: Promotion = { ...percentage, type: "fixed", value: 15 };
+    expect(getPromotionDiscount(fixed, [item({ price: 12 })])).toBe(12);
+  });
+
+  it("rounds to cents", () => {
+    expect(getPromotionDiscount(percentage, [item({ price: 9.99 })])).toBe(1);
+  });
+});
+
+describe("countPromotionUses", () => {
+  it("counts orders that used the code, except cancelled ones", () => {
+    const orders = [
+      order("TEN"),
+      order("TEN", "delivered"),
+      order("TEN", "cancelled"),
+      order("OTHER"),
+      order(undefined),
+    ];
+    expect(countPromotionUses("TEN", orders)).toBe(2);
+  });
+});
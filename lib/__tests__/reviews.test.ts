@@ -0,0 +1,122 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Review } from "@/lib/catalog";
+import {
+  LocalReview,
+  countReviewsByUser,
+  deleteReview,
+  deleteReviewsByUser,
+  filterReviewsByStars,
+  getLocalReviews,
+  getRatingSummary,
+  mergeReviews,
+  saveReview,
+  sortReviews,
+} from "@/lib/reviews";
+
+const ada = { id: "u1", name: "Ada", email: "ada@example.com" };
+const bob = { id: "u2", name: "Bob", email: "bob@example.com" };
+
+const review = (rating: number, date = "2025-01-01T00:00:00Z"): Review => ({
+  rating,
+  comment: "",
+  date,
+  reviewerName: "Reviewer",
+  reviewerEmail: "",
+});
+
+const local = (rating: number, userId = "u1"): LocalReview => ({
+  ...review(rating),
+  id: `1-${userId}`,
+  userId,
+});
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("local reviews", () => {
+  it("keeps one review per account and product, latest first", async () => {
+    await saveReview(1, ada, 3, "  Not bad at all  ");
+    await saveReview(1, bob, 5, "Great value for money");
+    const reviews = await saveReview(1, ada, 4, "Better after a week");
+    expect(reviews.map((r) => [r.userId, r.rating])).toEqual([
+      ["u1", 4],
+      ["u2", 5],
+    ]);
+    await expect(getLocalReviews(2)).resolves.toEqual([]);
+  });
+
+  it("trims the comment and rejects ratings outside 1 to 5", async () => {
+    const [saved] = await saveReview(1, ada, 3, "  Not bad at all  ");
+    expect(saved.comment).toBe("Not bad at all");
+    await expect(saveReview(1, ada, 6, "Too good to be true")).rejects.toThrow("Invalid rating: 6");
+    await expect(saveReview(1, ada, 2.5, "Somewhere in between")).rejects.toThrow();
+  });
+
+  it("counts the reviews an account wrote across products", async () => {
+    await saveReview(1, ada, 3, "Not bad at all");
+    await saveReview(2, ada, 4, "Pretty good");
+    await saveReview(2, bob, 5, "Great value");
+    await expect(countReviewsByUser("u1")).resolves.toBe(2);
+    await expect(countReviewsByUser("u3")).resolves.toBe(0);
+  });
+
+  it("deletes one review or everything an account wrote", async () => {
+    await saveReview(1, ada, 3, "Not bad at all");
+    await saveReview(2, ada, 4, "Pretty good");
+    await saveReview(2, bob, 5, "Great value");
+    await expect(deleteReview(1, "u1")).resolves.toEqual([]);
+    await deleteReviewsByUser("u1");
+    const remaining = await getLocalReviews(2);
+    expect(remaining.map((r) => r.userId)).toEqual(["u2"]);
+  });
+});
+
+describe("display helpers", () => {
+  it("lists local reviews before the catalog's", () => {
+    const merged = mergeReviews([review(5)], [local(2)]);
+    expect(merged.map((r) => r.id)).toEqual(["1-u1", "api-0"]);
+  });
+
+  it("sorts by date or rating, newest first on ties", () => {
+    const older = { ...review(5, "2024-01-01T00:00:00Z"), id: "older" };
+    const newer = { ...review(5, "2025-01-01T00:00:00Z"), id: "newer" };
+    const low = { ...review(1, "2023-01-01T00:00:00Z"), id: "low" };
+    const ids = (sort: "newest" | "highest" | "lowest") =>
+      sortReviews([older, low, newer], sort).map((r) => r.id);
+    expect(ids("newest")).toEqual(["newer", "older", "low"]);
+    expect(ids("highest")).toEqual(["newer", "older", "low"]);
+    expect(ids("lowest")).toEqual(["low", "newer", "older"]);
+  });
+
+  it("filters by whole stars", () => {
+    const reviews = [review(4), review(5), review(4.4)].map((r, i) => ({ ...r, id: `${i}` }));
+    expect(filterReviewsByStars(reviews, 4).map((r) => r.id)).toEqual(["0", "2"]);
+    expect(filterReviewsByStars(reviews, null)).toBe(reviews);
+  });
+});
+
+describe("getRatingSummary", () => {
+  it("counts reviews per star across the catalog and local reviews", () => {
+    const summary = getRatingSummary(4, [review(5), review(3)], [local(4), local(1, "u2")]);
+    expect(summary.count).toBe(4);
+    expect(summary.distribution).toEqual({ 1: 1, 2: 0, 3: 1, 4: 1, 5: 1 });
+  });
+
+  it("averages the same reviews the histogram counts", () => {
+    // The catalog's aggregate of 4.9 doesn't match its reviews, so it's left out
+    const summary = getRatingSummary(4.9, [review(5), review(3)], [local(1)]);
+    expect(summary.average).toBe(3);
+    expect(summary.distribution).toEqual({ 1: 1, 2: 0, 3: 1, 4: 0, 5: 1 });
+  });
+
+  it("averages local reviews alone when the catalog has none", () => {
+    expect(getRatingSummary(0, [], [local(4), local(5, "u2")]).average).toBe(4.5);
+  });
+
+  it("falls back to the catalog rating when there are no reviews", () => {
+    expect(getRatingSummary(4.27, [], [])).toEqual({
+      average: 4.27,
+      count: 0,
+      distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  getRecentSearches,
+  normalizeQuery,
+  removeRecentSearch,
+  splitMatches,
+} from "@/lib/search";
+
+beforeEach(() => AsyncStorage.clear());
+
+describe("splitMatches", () => {
+  it("marks every occurrence of each query word, ignoring case", () => {
+    expect(splitMatches("Red Shoes and red hats", "red  hat")).toEqual([
+      { text: "Red", match: true },
+      { text: " Shoes and ", match: false },
+      { text: "red", match: true },
+      { text: " ", match: false },
+      { text: "hat", match: true },
+      { text: "s", match: false },
+    ]);
+  });
+
+  it("matches regex characters literally", () => {
+    expect(splitMatches("C++ (2nd ed.)", "c++ (2nd")).toEqual([
+      { text: "C++", match: true },
+      { text: " ", match: false },
+      { text: "(2nd", match: true },
+      { text: " ed.)", match: false },
+    ]);
+  });
+
+  it("returns the text unmarked for an empty query", () => {
+    expect(splitMatches("Red Shoes", "   ")).toEqual([{ text: "Red Shoes", match: false }]);
+  });
+});
+
+describe("recent searches", () => {
+  it("keeps the latest first without case-insensitive duplicates", async () => {
+    await addRecentSearch("u1", "  red   shoes ");
+    await addRecentSearch("u1", "hats");
+    await expect(addRecentSearch("u1", "Red Shoes")).resolves.toEqual(["Red Shoes", "hats"]);
+    expect(normalizeQuery("  red   shoes ")).toBe("red shoes");
+  });
+
+  it("ignores queries that are too short", async () => {
+    await expect(addRecentSearch("u1", " a ")).resolves.toEqual([]);
+  });
+
+  it("keeps only the ten most recent", async () => {
+    for (let i = 0; i < 12; i++) await addRecentSearch("u1", `query ${i}`);
+    const recent = await getRecentSearches("u1");
+    expect(recent).toHaveLength(10);
+    expect(recent[0]).toBe("query 11");
+  });
+
+  it("keeps each user's searches apart", async () => {
+    await addRecentSearch("u1", "shoes");
+    await addRecentSearch("u2", "hats");
+    await removeRecentSearch("u2", "hats");
+    await expect(getRecentSearches("u1")).resolves.toEqual(["shoes"]);
+    await clearRecentSearches("u1");
+    await expect(getRecentSearches("u1")).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  TOUCH_THROTTLE_MS,
+  createSession,
+  isSessionValid,
+  shouldPersistTouch,
+  touchSession,
+} from "@/lib/session";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const user = { id: "user-1", email: "jane@example.com", name: "Jane" };
+const issuedAt = Date.UTC(2025, 0, 1);
+
+describe("createSession", () => {
+  it("expires a standard session after 30 idle minutes", () => {
+    const session = createSession(user, false, issuedAt);
+    expect(session.token).toBeTruthy();
+    expect(session.expiresAt).toBe(issuedAt + 30 * MINUTE);
+  });
+
+  it("keeps a remembered session for 30 idle days", () => {
+    expect(createSession(user, true, issuedAt).expiresAt).toBe(issuedAt + 30 * DAY);
+  });
+
+  it("issues a different token every time", () => {
+    expect(createSession(user, false, issuedAt).token).not.toBe(
+      createSession(user, false, issuedAt).token
+    );
+  });
+});
+
+describe("isSessionValid", () => {
+  const session = createSession(user, false, issuedAt);
+
+  it("accepts a session until it expires", () => {
+    expect(isSessionValid(session, session.expiresAt - 1)).toBe(true);
+    expect(isSessionValid(session, session.expiresAt)).toBe(false);
+  });
+
+  it("rejects a missing session or token", () => {
+    expect(isSessionValid(null, issuedAt)).toBe(false);
+    expect(isSessionValid(undefined, issuedAt)).toBe(false);
+    expect(isSessionValid({ ...session, token: "" }, issuedAt)).toBe(false);
+  });
+});
+
+describe("touchSession", () => {
+  it("slides the expiry forward from the latest activity", () => {
+    const session = createSession(user, false, issuedAt);
+    const touched = touchSession(session, issuedAt + 20 * MINUTE);
+    expect(touched.lastActiveAt).toBe(issuedAt + 20 * MINUTE);
+    expect(touched.expiresAt).toBe(issuedAt + 50 * MINUTE);
+  });
+
+  it("never extends past the absolute lifetime", () => {
+    const standard = touchSession(
+      createSession(user, false, issuedAt),
+      issuedAt + 11 * HOUR + 50 * MINUTE
+    );
+    expect(standard.expiresAt).toBe(issuedAt + 12 * HOUR);
+
+    const remembered = touchSession(createSession(user, true, issuedAt), issuedAt + 80 * DAY);
+    expect(remembered.expiresAt).toBe(issuedAt + 90 * DAY);
+  });
+});
+
+describe("shouldPersistTouch", () => {
+  it("skips activity within the throttle window", () => {
+    const session = createSession(user, false, issuedAt);
+    expect(shouldPersistTouch(session, issuedAt + TOUCH_THROTTLE_MS - 1)).toBe(false);
+    expect(shouldPersistTouch(session, issuedAt + TOUCH_THROTTLE_MS)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  Schema,
+  equalsField,
+  matches,
+  maxLength,
+  minLength,
+  notMatches,
+  optional,
+  required,
+  validateField,
+  validateValues,
+} from "@/lib/validation";
+
+type SignupValues = { name: string; password: string; confirm: string; nickname: string };
+
+const schema: Schema<SignupValues> = {
+  name: [required("Name is required"), minLength(2, "Name is too short")],
+  password: [required(), maxLength(8, "Password is too long")],
+  confirm: [equalsField<SignupValues>("password", "Passwords do not match")],
+  nickname: [optional(matches(/^[a-z]+$/, "Lowercase letters only"))],
+};
+
+const values = (overrides: Partial<SignupValues> = {}): SignupValues => ({
+  name: "Ada",
+  password: "secret",
+  confirm: "secret",
+  nickname: "",
+  ...overrides,
+});
+
+describe("rules", () => {
+  it("treat whitespace-only values as empty", () => {
+    expect(required()("   ")).toBe("This field is required");
+    expect(minLength(2, "short")(" a ")).toBe("short");
+    expect(matches(/^\d+$/, "digits")(" 42 ")).toBeNull();
+  });
+
+  it("reject values that contain a pattern", () => {
+    expect(notMatches(/\s/, "no spaces")("a b")).toBe("no spaces");
+    expect(notMatches(/\s/, "no spaces")("ab")).toBeNull();
+  });
+});
+
+describe("validateField", () => {
+  it("returns the first failing rule's message", () => {
+    expect(validateField(schema, "name", values({ name: "" }))).toBe("Name is required");
+    expect(validateField(schema, "name", values({ name: "A" }))).toBe("Name is too short");
+    expect(validateField(schema, "name", values())).toBeUndefined();
+  });
+
+  it("lets a rule compare against other fields", () => {
+    expect(validateField(schema, "confirm", values({ confirm: "other" }))).toBe(
+      "Passwords do not match"
+    );
+  });
+
+  it("skips optional rules for an empty field", () => {
+    expect(validateField(schema, "nickname", values())).toBeUndefined();
+    expect(validateField(schema, "nickname", values({ nickname: "Ada" }))).toBe(
+      "Lowercase letters only"
+    );
+  });
+});
+
+describe("validateValues", () => {
+  it("collects an error for every failing field", () => {
+    expect(validateValues(schema, values({ name: "", password: "much too long" }))).toEqual({
+      name: "Name is required",
+      password: "Password is too long",
+      confirm: "Passwords do not match",
+    });
+    expect(validateValues(schema, values())).toEqual({});
+  });
+});
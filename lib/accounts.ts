@@ -0,0 +1,127 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { randomUUID } from "expo-crypto";
+import { PasswordHash, hashPassword, needsRehash, verifyPassword } from "@/lib/passwordHash";
+import { readSecureJSON, secureStorage, writeSecureJSON } from "@/lib/secureStorage";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+export interface Account {
+  id: string;
+  email: string;
+  name: string;
+  createdAt: number;
+}
+
+// Public account details live in AsyncStorage keyed by normalized email;
+// password hashes are kept per account in secure storage.
+const REGISTRY_KEY = "accounts";
+const passwordKey = (accountId: string) => `auth.password.${accountId}`;
+
+// Earlier builds kept a single account as plaintext in AsyncStorage, under the
+// fixed user ID "1".
+const LEGACY_USER_ID = "1";
+const LEGACY_PLAINTEXT_KEY = "credentials";
+
+interface LegacyPlaintextCredentials {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+type Registry = Record<string, Account>;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const saveRegistry = (registry: Registry) => writeJSON(REGISTRY_KEY, registry);
+
+const loadRegistry = () => readJSON<Registry>(REGISTRY_KEY, {});
+
+export const listAccounts = async (): Promise<Account[]> =>
+  Object.values(await loadRegistry()).sort((a, b) => a.createdAt - b.createdAt);
+
+export const getAccountById = async (accountId: string): Promise<Account | null> =>
+  (await listAccounts()).find((account) => account.id === accountId) ?? null;
+
+const findLegacyPlaintext = async (email: string) => {
+  const legacy = await readJSON<LegacyPlaintextCredentials | null>(LEGACY_PLAINTEXT_KEY, null);
+  return legacy && normalizeEmail(legacy.email) === email ? legacy : null;
+};
+
+export const accountExists = async (email: string) => {
+  const normalized = normalizeEmail(email);
+  const registry = await loadRegistry();
+  return Boolean(registry[normalized] || (await findLegacyPlaintext(normalized)));
+};
+
+// Returns null when the email is already registered
+export const createAccount = async (
+  email: string,
+  name: string,
+  password: string
+): Promise<Account | null> => {
+  const normalized = normalizeEmail(email);
+  if (await accountExists(normalized)) return null;
+
+  const account: Account = { id: randomUUID(), email: normalized, name, createdAt: Date.now() };
+  await writeSecureJSON(passwordKey(account.id), await hashPassword(password));
+  const registry = await loadRegistry();
+  await saveRegistry({ ...registry, [normalized]: account });
+  return account;
+};
+
+// Returns the account when the password matches. Plaintext credentials from old
+// builds are hashed into the registry on their first successful check.
+export const verifyAccount = async (email: string, password: string): Promise<Account | null> => {
+  const normalized = normalizeEmail(email);
+  const registry = await loadRegistry();
+  const account = registry[normalized];
+
+  if (account) {
+    const hash = await readSecureJSON<PasswordHash | null>(passwordKey(account.id), null);
+    if (!hash || !(await verifyPassword(password, hash))) return null;
+    if (needsRehash(hash)) {
+      await writeSecureJSON(passwordKey(account.id), await hashPassword(password));
+    }
+    return account;
+  }
+
+  const legacy = await findLegacyPlaintext(normalized);
+  if (!legacy || legacy.password !== password) return null;
+
+  // Keep the old ID so the cart, wishlist and orders stored under it stay attached
+  const migrated: Account = {
+    id: LEGACY_USER_ID,
+    email: normalized,
+    name: legacy.name || normalized.split("@")[0],
+    createdAt: Date.now(),
+  };
+  await writeSecureJSON(passwordKey(migrated.id), await hashPassword(password));
+  await saveRegistry({ ...registry, [normalized]: migrated });
+  await AsyncStorage.removeItem(LEGACY_PLAINTEXT_KEY);
+  return migrated;
+};
+
+export const findAccountByEmail = async (email: string): Promise<Account | null> =>
+  (await loadRegistry())[normalizeEmail(email)] ?? null;
+
+export const setAccountPassword = async (accountId: string, password: string) => {
+  await writeSecureJSON(passwordKey(accountId), await hashPassword(password));
+};
+
+export const renameAccount = async (accountId: string, name: string): Promise<Account | null> => {
+  const registry = await loadRegistry();
+  const entry = Object.entries(registry).find(([, account]) => account.id === accountId);
+  if (!entry) return null;
+  const [email, account] = entry;
+  const renamed = { ...account, name };
+  await saveRegistry({ ...registry, [email]: renamed });
+  return renamed;
+};
+
+// Removes the account and its password; the caller clears the rest of its data
+export const removeAccount = async (accountId: string) => {
+  const registry = await loadRegistry();
+  await saveRegistry(
+    Object.fromEntries(Object.entries(registry).filter(([, account]) => account.id !== accountId))
+  );
+  await secureStorage.removeItem(passwordKey(accountId));
+};
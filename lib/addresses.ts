@@ -0,0 +1,53 @@
+import { randomUUID } from "expo-crypto";
+import { COUNTRY_FORMATS, CountryCode } from "@/lib/countries";
+
+export interface SavedAddress {
+  id: string;
+  // Optional nickname, e.g. "Home" or "Work"
+  label?: string;
+  fullName: string;
+  // National number, without the dial code
+  phone: string;
+  address: string;
+  city: string;
+  zipCode: string;
+  country: CountryCode;
+  createdAt: number;
+}
+
+export type AddressInput = Omit<SavedAddress, "id" | "createdAt">;
+
+export interface AddressBook {
+  addresses: SavedAddress[];
+  defaultId: string | null;
+}
+
+export const EMPTY_ADDRESS_BOOK: AddressBook = { addresses: [], defaultId: null };
+
+export const createAddress = (input: AddressInput, now = Date.now()): SavedAddress => ({
+  ...input,
+  id: randomUUID(),
+  createdAt: now,
+});
+
+const comparable = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Same recipient at the same place; the label doesn't matter
+export const isSameAddress = (a: AddressInput, b: AddressInput) =>
+  a.country === b.country &&
+  (["fullName", "phone", "address", "city", "zipCode"] as const).every(
+    (field) => comparable(a[field]) === comparable(b[field])
+  );
+
+// The default first, then the most recently added
+export const sortAddresses = ({ addresses, defaultId }: AddressBook) =>
+  [...addresses].sort(
+    (a, b) => Number(b.id === defaultId) - Number(a.id === defaultId) || b.createdAt - a.createdAt
+  );
+
+export const addressTitle = (address: Pick<SavedAddress, "label" | "fullName">) =>
+  address.label?.trim() || address.fullName;
+
+export const formatAddressLine = (
+  address: Pick<SavedAddress, "address" | "city" | "zipCode" | "country">
+) => `${address.address}, ${address.city} ${address.zipCode}, ${COUNTRY_FORMATS[address.country].name}`;
@@ -0,0 +1,85 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+// A persistent key/value cache for network data. Each entry lives under its own
+// storage key; a small index tracks sizes and last use so the least recently
+// used entries can be evicted once the cache outgrows MAX_CACHE_BYTES.
+const ENTRY_PREFIX = "cache.entry.";
+const INDEX_KEY = "cache.index";
+const MAX_CACHE_BYTES = 2 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 300;
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+interface IndexEntry {
+  size: number;
+  lastUsedAt: number;
+}
+
+type CacheIndex = Record<string, IndexEntry>;
+
+export const isFresh = (entry: CacheEntry<unknown>, ttl: number, now = Date.now()) =>
+  now - entry.storedAt < ttl;
+
+// Reads and writes can overlap (several lists load at once), so index updates are
+// chained to run one at a time instead of overwriting each other.
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+const updateIndex = <T>(update: (index: CacheIndex) => Promise<T> | T): Promise<T> => {
+  const next = indexQueue.then(async () => update(await readJSON<CacheIndex>(INDEX_KEY, {})));
+  indexQueue = next.catch(() => undefined);
+  return next;
+};
+
+const evict = async (index: CacheIndex, keep: string) => {
+  const byAge = Object.entries(index)
+    .filter(([key]) => key !== keep)
+    .sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+  let total = Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+  let count = Object.keys(index).length;
+
+  const evicted: string[] = [];
+  for (const [key, entry] of byAge) {
+    if (total <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+    evicted.push(key);
+    total -= entry.size;
+    count -= 1;
+    delete index[key];
+  }
+  if (evicted.length > 0) {
+    await AsyncStorage.multiRemove(evicted.map((key) => ENTRY_PREFIX + key));
+  }
+};
+
+export const readCache = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const entry = await readJSON<CacheEntry<T> | null>(ENTRY_PREFIX + key, null);
+  if (!entry) return null;
+  updateIndex(async (index) => {
+    if (!index[key]) return;
+    index[key] = { ...index[key], lastUsedAt: Date.now() };
+    await writeJSON(INDEX_KEY, index);
+  }).catch((error) => console.error("Error updating cache index:", error));
+  return entry;
+};
+
+export const writeCache = async <T>(key: string, value: T): Promise<void> => {
+  const raw = JSON.stringify({ value, storedAt: Date.now() } satisfies CacheEntry<T>);
+  // Entries bigger than the whole cache would only evict everything else
+  if (raw.length > MAX_CACHE_BYTES) return;
+
+  await AsyncStorage.setItem(ENTRY_PREFIX + key, raw);
+  await updateIndex(async (index) => {
+    index[key] = { size: raw.length, lastUsedAt: Date.now() };
+    await evict(index, key);
+    await writeJSON(INDEX_KEY, index);
+  });
+};
+
+export const clearCache = async (): Promise<void> => {
+  await updateIndex(async (index) => {
+    await AsyncStorage.multiRemove([...Object.keys(index).map((key) => ENTRY_PREFIX + key), INDEX_KEY]);
+  });
+};
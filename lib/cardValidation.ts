@@ -0,0 +1,177 @@
+export type CardBrand = "visa" | "mastercard" | "amex" | "rupay" | "unknown";
+
+interface CardBrandSpec {
+  label: string;
+  pattern: RegExp;
+  lengths: number[];
+  // Sizes of the digit groups shown while typing, e.g. 4-6-5 for Amex
+  gaps: number[];
+  cvvLength: number;
+}
+
+const BRAND_SPECS: Record<Exclude<CardBrand, "unknown">, CardBrandSpec> = {
+  amex: {
+    label: "American Express",
+    pattern: /^3[47]/,
+    lengths: [15],
+    gaps: [4, 6, 5],
+    cvvLength: 4,
+  },
+  rupay: {
+    label: "RuPay",
+    pattern: /^(60|65|81|82|508)/,
+    lengths: [16],
+    gaps: [4, 4, 4, 4],
+    cvvLength: 3,
+  },
+  mastercard: {
+    label: "Mastercard",
+    pattern: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/,
+    lengths: [16],
+    gaps: [4, 4, 4, 4],
+    cvvLength: 3,
+  },
+  visa: {
+    label: "Visa",
+    pattern: /^4/,
+    lengths: [13, 16, 19],
+    gaps: [4, 4, 4, 4, 3],
+    cvvLength: 3,
+  },
+};
+
+const UNKNOWN_SPEC: CardBrandSpec = {
+  label: "Card",
+  pattern: /^$/,
+  lengths: [16],
+  gaps: [4, 4, 4, 4],
+  cvvLength: 3,
+};
+
+export const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+export const detectCardBrand = (cardNumber: string): CardBrand => {
+  const digits = digitsOnly(cardNumber);
+  if (!digits) return "unknown";
+  const match = (Object.keys(BRAND_SPECS) as (keyof typeof BRAND_SPECS)[]).find((brand) =>
+    BRAND_SPECS[brand].pattern.test(digits)
+  );
+  return match ?? "unknown";
+};
+
+const getSpec = (brand: CardBrand) => (brand === "unknown" ? UNKNOWN_SPEC : BRAND_SPECS[brand]);
+
+export const getCardBrandLabel = (brand: CardBrand) => getSpec(brand).label;
+
+export const getCvvLength = (brand: CardBrand) => getSpec(brand).cvvLength;
+
+export const getMaxCardLength = (brand: CardBrand) => Math.max(...getSpec(brand).lengths);
+
+// Length of the formatted value, spaces included, so it can be used as a maxLength
+export const getFormattedCardLength = (brand: CardBrand) => {
+  const digits = getMaxCardLength(brand);
+  const groups = getSpec(brand).gaps.reduce(
+    (acc, size) => (acc.total < digits ? { total: acc.total + size, count: acc.count + 1 } : acc),
+    { total: 0, count: 0 }
+  );
+  return digits + groups.count - 1;
+};
+
+export const formatCardNumber = (value: string) => {
+  const brand = detectCardBrand(value);
+  const digits = digitsOnly(value).slice(0, getMaxCardLength(brand));
+  const groups: string[] = [];
+  let offset = 0;
+  for (const size of getSpec(brand).gaps) {
+    if (offset >= digits.length) break;
+    groups.push(digits.slice(offset, offset + size));
+    offset += size;
+  }
+  return groups.join(" ");
+};
+
+export const formatExpiryDate = (value: string) => {
+  const digits = digitsOnly(value).slice(0, 4);
+  return digits.length >= 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+};
+
+export const passesLuhn = (cardNumber: string) => {
+  const digits = digitsOnly(cardNumber);
+  if (!digits) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+export const validateCardNumber = (cardNumber: string): string | null => {
+  const digits = digitsOnly(cardNumber);
+  if (!digits) return "Card number is required";
+  const brand = detectCardBrand(digits);
+  if (brand === "unknown") return "We accept Visa, Mastercard, American Express and RuPay";
+  if (!BRAND_SPECS[brand].lengths.includes(digits.length)) {
+    return `${getCardBrandLabel(brand)} numbers must be ${BRAND_SPECS[brand].lengths.join(" or ")} digits`;
+  }
+  if (!passesLuhn(digits)) return "Card number is invalid";
+  return null;
+};
+
+export const validateCardName = (name: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return "Cardholder name is required";
+  if (!/^[a-zA-Z][a-zA-Z .'-]*$/.test(trimmed)) return "Name can only contain letters";
+  return null;
+};
+
+// Cards are valid through the last day of their expiry month
+export const validateExpiryDate = (expiry: string, now = new Date()): string | null => {
+  if (!expiry) return "Expiry date is required";
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry);
+  if (!match) return "Use MM/YY format";
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return "Month must be between 01 and 12";
+
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  if (year < currentYear || (year === currentYear && month < currentMonth)) {
+    return "This card has expired";
+  }
+  if (year > currentYear + 20) return "Expiry date is too far in the future";
+  return null;
+};
+
+export const validateCvv = (cvv: string, brand: CardBrand): string | null => {
+  if (!cvv) return "CVV is required";
+  const length = getCvvLength(brand);
+  if (!new RegExp(`^\\d{${length}}$`).test(cvv)) return `CVV must be ${length} digits`;
+  return null;
+};
+
+export interface CardFields {
+  cardNumber: string;
+  cardName: string;
+  expiryDate: string;
+  cvv: string;
+}
+
+export type CardErrors = Partial<Record<keyof CardFields, string>>;
+
+export const validateCard = (fields: CardFields, now = new Date()): CardErrors => {
+  const brand = detectCardBrand(fields.cardNumber);
+  const errors: CardErrors = {
+    cardNumber: validateCardNumber(fields.cardNumber) ?? undefined,
+    cardName: validateCardName(fields.cardName) ?? undefined,
+    expiryDate: validateExpiryDate(fields.expiryDate, now) ?? undefined,
+    cvv: validateCvv(fields.cvv, brand) ?? undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(errors).filter(([, message]) => message)
+  ) as CardErrors;
+};
@@ -0,0 +1,79 @@
+import { Product } from "@/lib/catalog";
+
+export interface CartItem {
+  product: Product;
+  quantity: number;
+}
+
+export interface CartTotals {
+  itemCount: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+// A product can be ordered between its minimum order quantity and what's in stock.
+// When stock is below the minimum, the whole remaining stock is the only valid order.
+export const getQuantityBounds = (product: Product) => {
+  const max = Math.max(0, product.stock);
+  const min = Math.min(Math.max(1, product.minimumOrderQuantity), max);
+  return { min, max };
+};
+
+export const clampQuantity = (product: Product, quantity: number) => {
+  const { min, max } = getQuantityBounds(product);
+  return Math.min(Math.max(Math.round(quantity), min), max);
+};
+
+export const getCartTotals = (items: CartItem[]): CartTotals =>
+  items.reduce<CartTotals>(
+    (totals, { product, quantity }) => {
+      const lineSubtotal = product.price * quantity;
+      const lineDiscount = (lineSubtotal * product.discountPercentage) / 100;
+      return {
+        itemCount: totals.itemCount + quantity,
+        subtotal: totals.subtotal + lineSubtotal,
+        discount: totals.discount + lineDiscount,
+        total: totals.total + lineSubtotal - lineDiscount,
+      };
+    },
+    { itemCount: 0, subtotal: 0, discount: 0, total: 0 }
+  );
+
+export const TAX_RATE = 0.08;
+export const SHIPPING_FEE = 4.99;
+export const FREE_SHIPPING_THRESHOLD = 50;
+
+// A promo code that was accepted at checkout and what it took off
+export interface AppliedPromotion {
+  code: string;
+  discount: number;
+}
+
+export interface CheckoutSummary extends CartTotals {
+  // Missing on orders placed without a promo code
+  promotion?: AppliedPromotion;
+  tax: number;
+  shipping: number;
+  grandTotal: number;
+}
+
+// Tax is charged on the discounted total, after any promo code, and shipping is
+// free once that amount reaches the threshold
+export const getCheckoutSummary = (
+  items: CartItem[],
+  promotion?: AppliedPromotion
+): CheckoutSummary => {
+  const totals = getCartTotals(items);
+  const taxable = Math.max(0, totals.total - (promotion?.discount ?? 0));
+  const tax = taxable * TAX_RATE;
+  const shipping =
+    totals.itemCount === 0 || taxable >= FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_FEE;
+  return {
+    ...totals,
+    ...(promotion && { promotion }),
+    tax,
+    shipping,
+    grandTotal: taxable + tax + shipping,
+  };
+};
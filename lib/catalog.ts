@@ -0,0 +1,298 @@
+import { CATALOG_API_URL } from "@/constants/config";
+
+export interface Review {
+  rating: number;
+  comment: string;
+  date: string;
+  reviewerName: string;
+  reviewerEmail: string;
+}
+
+export interface Product {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  price: number;
+  discountPercentage: number;
+  rating: number;
+  stock: number;
+  tags: string[];
+  brand: string;
+  sku: string;
+  weight: number;
+  dimensions: {
+    width: number;
+    height: number;
+    depth: number;
+  };
+  warrantyInformation: string;
+  shippingInformation: string;
+  availabilityStatus: string;
+  reviews: Review[];
+  returnPolicy: string;
+  minimumOrderQuantity: number;
+  images: string[];
+  thumbnail: string;
+  // ISO timestamp of when the product was listed; empty if the API omits it
+  createdAt: string;
+}
+
+export interface Category {
+  slug: string;
+  name: string;
+  url: string;
+}
+
+export interface ProductPage {
+  products: Product[];
+  total: number;
+  skip: number;
+  limit: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface PageOptions extends RequestOptions {
+  limit?: number;
+  skip?: number;
+}
+
+interface CatalogConfig {
+  baseUrl: string;
+}
+
+const config: CatalogConfig = {
+  baseUrl: CATALOG_API_URL,
+};
+
+export const configureCatalog = (overrides: Partial<CatalogConfig>) => {
+  Object.assign(config, overrides);
+};
+
+export type CatalogErrorKind = "not_found" | "network" | "malformed" | "http" | "aborted";
+
+export class CatalogError extends Error {
+  readonly kind: CatalogErrorKind;
+
+  constructor(kind: CatalogErrorKind, message: string) {
+    super(message);
+    this.name = "CatalogError";
+    this.kind = kind;
+  }
+}
+
+export class CatalogNotFoundError extends CatalogError {
+  constructor(path: string) {
+    super("not_found", `Catalog resource not found: ${path}`);
+    this.name = "CatalogNotFoundError";
+  }
+}
+
+export class CatalogNetworkError extends CatalogError {
+  constructor(path: string) {
+    super("network", `Network request failed: ${path}`);
+    this.name = "CatalogNetworkError";
+  }
+}
+
+export class CatalogMalformedResponseError extends CatalogError {
+  constructor(detail: string) {
+    super("malformed", `Malformed catalog response: ${detail}`);
+    this.name = "CatalogMalformedResponseError";
+  }
+}
+
+export class CatalogHttpError extends CatalogError {
+  readonly status: number;
+
+  constructor(path: string, status: number) {
+    super("http", `Catalog request failed with status ${status}: ${path}`);
+    this.name = "CatalogHttpError";
+    this.status = status;
+  }
+}
+
+export class CatalogAbortError extends CatalogError {
+  constructor() {
+    super("aborted", "Catalog request was cancelled");
+    this.name = "CatalogAbortError";
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof CatalogAbortError;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectObject = (value: unknown, path: string): JsonObject => {
+  if (!isObject(value)) throw new CatalogMalformedResponseError(`${path} is not an object`);
+  return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new CatalogMalformedResponseError(`${path} is not an array`);
+  return value;
+};
+
+const readNumber = (obj: JsonObject, key: string, path: string, fallback?: number): number => {
+  const value = obj[key];
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (value === undefined && fallback !== undefined) return fallback;
+  throw new CatalogMalformedResponseError(`${path}.${key} is not a number`);
+};
+
+const readString = (obj: JsonObject, key: string, path: string, fallback?: string): string => {
+  const value = obj[key];
+  if (typeof value === "string") return value;
+  if (value === undefined && fallback !== undefined) return fallback;
+  throw new CatalogMalformedResponseError(`${path}.${key} is not a string`);
+};
+
+const readStringArray = (obj: JsonObject, key: string, path: string): string[] => {
+  if (obj[key] === undefined) return [];
+  return expectArray(obj[key], `${path}.${key}`).map((item, index) => {
+    if (typeof item !== "string") {
+      throw new CatalogMalformedResponseError(`${path}.${key}[${index}] is not a string`);
+    }
+    return item;
+  });
+};
+
+const parseReview = (value: unknown, path: string): Review => {
+  const obj = expectObject(value, path);
+  return {
+    rating: readNumber(obj, "rating", path),
+    comment: readString(obj, "comment", path, ""),
+    date: readString(obj, "date", path, ""),
+    reviewerName: readString(obj, "reviewerName", path, "Anonymous"),
+    reviewerEmail: readString(obj, "reviewerEmail", path, ""),
+  };
+};
+
+export const parseProduct = (value: unknown, path = "product"): Product => {
+  const obj = expectObject(value, path);
+  const dimensions = obj.dimensions === undefined ? {} : expectObject(obj.dimensions, `${path}.dimensions`);
+  const thumbnail = readString(obj, "thumbnail", path);
+  const images = readStringArray(obj, "images", path);
+  const reviews = obj.reviews === undefined ? [] : expectArray(obj.reviews, `${path}.reviews`);
+  const meta = obj.meta === undefined ? {} : expectObject(obj.meta, `${path}.meta`);
+
+  return {
+    id: readNumber(obj, "id", path),
+    title: readString(obj, "title", path),
+    description: readString(obj, "description", path, ""),
+    category: readString(obj, "category", path, ""),
+    price: readNumber(obj, "price", path),
+    discountPercentage: readNumber(obj, "discountPercentage", path, 0),
+    rating: readNumber(obj, "rating", path, 0),
+    stock: readNumber(obj, "stock", path, 0),
+    tags: readStringArray(obj, "tags", path),
+    // Some catalog entries (e.g. groceries) have no brand at all.
+    brand: readString(obj, "brand", path, ""),
+    sku: readString(obj, "sku", path, ""),
+    weight: readNumber(obj, "weight", path, 0),
+    dimensions: {
+      width: readNumber(dimensions, "width", `${path}.dimensions`, 0),
+      height: readNumber(dimensions, "height", `${path}.dimensions`, 0),
+      depth: readNumber(dimensions, "depth", `${path}.dimensions`, 0),
+    },
+    warrantyInformation: readString(obj, "warrantyInformation", path, ""),
+    shippingInformation: readString(obj, "shippingInformation", path, ""),
+    availabilityStatus: readString(obj, "availabilityStatus", path, ""),
+    reviews: reviews.map((review, index) => parseReview(review, `${path}.reviews[${index}]`)),
+    returnPolicy: readString(obj, "returnPolicy", path, ""),
+    minimumOrderQuantity: readNumber(obj, "minimumOrderQuantity", path, 1),
+    images: images.length > 0 ? images : [thumbnail],
+    thumbnail,
+    createdAt: readString(meta, "createdAt", `${path}.meta`, ""),
+  };
+};
+
+const parseProductPage = (value: unknown): ProductPage => {
+  const obj = expectObject(value, "response");
+  const products = expectArray(obj.products, "response.products");
+  return {
+    products: products.map((product, index) => parseProduct(product, `products[${index}]`)),
+    total: readNumber(obj, "total", "response", products.length),
+    skip: readNumber(obj, "skip", "response", 0),
+    limit: readNumber(obj, "limit", "response", products.length),
+  };
+};
+
+const parseCategories = (value: unknown): Category[] =>
+  expectArray(value, "categories").map((item, index) => {
+    const path = `categories[${index}]`;
+    const obj = expectObject(item, path);
+    return {
+      slug: readString(obj, "slug", path),
+      name: readString(obj, "name", path),
+      url: readString(obj, "url", path, ""),
+    };
+  });
+
+const request = async (path: string, { signal }: RequestOptions = {}): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(`${config.baseUrl}${path}`, { signal });
+  } catch {
+    if (signal?.aborted) throw new CatalogAbortError();
+    throw new CatalogNetworkError(path);
+  }
+
+  if (response.status === 404) throw new CatalogNotFoundError(path);
+  if (!response.ok) throw new CatalogHttpError(path, response.status);
+
+  try {
+    return await response.json();
+  } catch {
+    if (signal?.aborted) throw new CatalogAbortError();
+    throw new CatalogMalformedResponseError(`${path} did not return valid JSON`);
+  }
+};
+
+const pageQuery = ({ limit, skip }: PageOptions, extra: string[] = []) => {
+  const params = [...extra];
+  if (limit !== undefined) params.push(`limit=${limit}`);
+  if (skip !== undefined) params.push(`skip=${skip}`);
+  return params.length > 0 ? `?${params.join("&")}` : "";
+};
+
+export const fetchCategories = async (options: RequestOptions = {}): Promise<Category[]> =>
+  parseCategories(await request("/products/categories", options));
+
+export const fetchProducts = async (options: PageOptions = {}): Promise<ProductPage> =>
+  parseProductPage(await request(`/products${pageQuery(options)}`, options));
+
+export const fetchProductsByCategory = async (
+  slug: string,
+  options: PageOptions = {}
+): Promise<ProductPage> =>
+  parseProductPage(
+    await request(`/products/category/${encodeURIComponent(slug)}${pageQuery(options)}`, options)
+  );
+
+export const searchProducts = async (
+  query: string,
+  options: PageOptions = {}
+): Promise<ProductPage> =>
+  parseProductPage(
+    await request(
+      `/products/search${pageQuery(options, [`q=${encodeURIComponent(query)}`])}`,
+      options
+    )
+  );
+
+export const fetchProduct = async (
+  id: number | string,
+  options: RequestOptions = {}
+): Promise<Product> =>
+  parseProduct(await request(`/products/${encodeURIComponent(String(id))}`, options));
+
+export const getDiscountedPrice = (product: Pick<Product, "price" | "discountPercentage">) =>
+  product.price - (product.price * product.discountPercentage) / 100;
@@ -0,0 +1,14 @@
+// How long cached catalog data counts as fresh. Older entries are still shown
+// straight away, but get refetched in the background.
+export const CATALOG_TTL = {
+  categories: 24 * 60 * 60 * 1000,
+  productList: 10 * 60 * 1000,
+  product: 30 * 60 * 1000,
+};
+
+export const catalogCacheKeys = {
+  categories: () => "catalog.categories",
+  productPage: (listKey: string, skip: number, limit: number) =>
+    `catalog.list.${listKey}.${skip}.${limit}`,
+  product: (id: number | string) => `catalog.product.${id}`,
+};
@@ -0,0 +1,84 @@
+export type CountryCode = "US" | "CA" | "GB" | "IN" | "AU" | "DE";
+
+export interface CountryFormat {
+  name: string;
+  dialCode: string;
+  // Matched against the national number with spaces, dashes, dots and brackets removed
+  phonePattern: RegExp;
+  phoneExample: string;
+  postalLabel: string;
+  postalPattern: RegExp;
+  postalExample: string;
+}
+
+export const COUNTRY_FORMATS: Record<CountryCode, CountryFormat> = {
+  US: {
+    name: "United States",
+    dialCode: "+1",
+    phonePattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    phoneExample: "(415) 555-0123",
+    postalLabel: "ZIP Code",
+    postalPattern: /^\d{5}(-\d{4})?$/,
+    postalExample: "94103",
+  },
+  CA: {
+    name: "Canada",
+    dialCode: "+1",
+    phonePattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    phoneExample: "(604) 555-0123",
+    postalLabel: "Postal Code",
+    postalPattern: /^[A-Za-z]\d[A-Za-z] ?\d[A-Za-z]\d$/,
+    postalExample: "V6B 1A1",
+  },
+  GB: {
+    name: "United Kingdom",
+    dialCode: "+44",
+    phonePattern: /^0?[1-9]\d{8,9}$/,
+    phoneExample: "07700 900123",
+    postalLabel: "Postcode",
+    postalPattern: /^[A-Za-z]{1,2}\d[A-Za-z\d]? ?\d[A-Za-z]{2}$/,
+    postalExample: "SW1A 1AA",
+  },
+  IN: {
+    name: "India",
+    dialCode: "+91",
+    phonePattern: /^0?[6-9]\d{9}$/,
+    phoneExample: "98765 43210",
+    postalLabel: "PIN Code",
+    postalPattern: /^[1-9]\d{5}$/,
+    postalExample: "560001",
+  },
+  AU: {
+    name: "Australia",
+    dialCode: "+61",
+    phonePattern: /^0?[2-478]\d{8}$/,
+    phoneExample: "0412 345 678",
+    postalLabel: "Postcode",
+    postalPattern: /^\d{4}$/,
+    postalExample: "2000",
+  },
+  DE: {
+    name: "Germany",
+    dialCode: "+49",
+    phonePattern: /^0?[1-9]\d{5,12}$/,
+    phoneExample: "030 123456",
+    postalLabel: "Postleitzahl",
+    postalPattern: /^\d{5}$/,
+    postalExample: "10115",
+  },
+};
+
+export const COUNTRY_CODES = Object.keys(COUNTRY_FORMATS) as CountryCode[];
+
+export const DEFAULT_COUNTRY: CountryCode = "US";
+
+export const isCountryCode = (value: string): value is CountryCode => value in COUNTRY_FORMATS;
+
+// Strips formatting and the country's own dialling prefix, leaving the national number
+export const normalizePhone = (phone: string, country: CountryCode) => {
+  const compact = phone.replace(/[\s().-]/g, "");
+  const { dialCode } = COUNTRY_FORMATS[country];
+  if (compact.startsWith(dialCode)) return compact.slice(dialCode.length);
+  if (compact.startsWith(`00${dialCode.slice(1)}`)) return compact.slice(dialCode.length + 1);
+  return compact;
+};
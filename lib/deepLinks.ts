@@ -0,0 +1,61 @@
+import { router } from "expo-router";
+import * as Linking from "expo-linking";
+
+// Screens that can be opened from outside the app. They all need a signed-in
+// user, so a link that arrives before login is held until the user signs in.
+const LINKABLE_ROUTES = ["product", "category", "search"];
+
+export const productLink = (productId: number | string) =>
+  Linking.createURL(`/product/${productId}`);
+
+export const categoryLink = (slug: string) => Linking.createURL(`/category/${slug}`);
+
+export const searchLink = (query: string) =>
+  Linking.createURL("/search", { queryParams: { q: query } });
+
+export const isLinkableRoute = (firstSegment: string | undefined) =>
+  !!firstSegment && LINKABLE_ROUTES.includes(firstSegment);
+
+// Rebuilds the in-app path for the current route. Dynamic segment params like
+// [id] are already part of the pathname, so only the rest go in the query.
+export const currentRoutePath = (
+  pathname: string,
+  segments: string[],
+  params: Record<string, string | string[] | undefined>
+) => {
+  const segmentParams = segments
+    .map((segment) => /^\[\.{0,3}(.+)\]$/.exec(segment)?.[1])
+    .filter(Boolean);
+  const pairs: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || segmentParams.includes(key)) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(item)}`);
+    }
+  }
+  const query = pairs.join("&");
+  return query ? `${pathname}?${query}` : pathname;
+};
+
+// A screen opened from a link may have nothing behind it to go back to
+export const goBackOrHome = () => {
+  if (router.canGoBack()) {
+    router.back();
+  } else {
+    router.replace("/HomePage");
+  }
+};
+
+// A link that arrived before login, waiting for the user to sign in
+let pendingLink: string | null = null;
+
+export const setPendingLink = (path: string) => {
+  pendingLink = path;
+};
+
+// Returns the held link once, so it isn't followed again on the next login
+export const consumePendingLink = () => {
+  const link = pendingLink;
+  pendingLink = null;
+  return link;
+};
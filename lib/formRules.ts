@@ -0,0 +1,114 @@
+import { COUNTRY_FORMATS, CountryCode, normalizePhone } from "@/lib/countries";
+import { checkPasswordStrength } from "@/lib/passwordRules";
+import {
+  FormValues,
+  Rule,
+  equalsField,
+  matches,
+  maxLength,
+  minLength,
+  notMatches,
+  required,
+} from "@/lib/validation";
+
+// Field rules shared by the auth and checkout forms
+
+const EMAIL_PATTERN =
+  /^[a-zA-Z0-9]([a-zA-Z0-9._-])*[a-zA-Z0-9]@[a-zA-Z0-9]([a-zA-Z0-9.-])*[a-zA-Z0-9]\.[a-zA-Z]{2,}$/;
+
+const DOMAIN_SUGGESTIONS: Record<string, string> = {
+  "gmial.com": "gmail.com",
+  "gmai.com": "gmail.com",
+  "yahooo.com": "yahoo.com",
+  "hotmial.com": "hotmail.com",
+  "outlok.com": "outlook.com",
+};
+
+const DISPOSABLE_DOMAINS = ["10minutemail.com", "tempmail.org", "guerrillamail.com"];
+
+const emailParts = (value: string) => {
+  const [localPart = "", domain = ""] = value.trim().toLowerCase().split("@");
+  return { localPart, domain };
+};
+
+const emailStructure = (value: string) => {
+  const { localPart, domain } = emailParts(value);
+  if (localPart.length > 64) return "Email username too long (max 64 characters)";
+  if (/[._-]{2,}/.test(localPart)) return "Email cannot contain consecutive special characters";
+  if (domain.length > 253) return "Email domain too long";
+  if (domain.split(".").some((part) => part.length === 0 || part.length > 63)) {
+    return "Invalid domain structure";
+  }
+  return null;
+};
+
+const emailDomain = (value: string) => {
+  const { domain } = emailParts(value);
+  if (DOMAIN_SUGGESTIONS[domain]) return `Did you mean ${DOMAIN_SUGGESTIONS[domain]}?`;
+  if (DISPOSABLE_DOMAINS.includes(domain)) return "Disposable email addresses aren't supported";
+  return null;
+};
+
+export const emailRules = [
+  required("Email is required"),
+  maxLength(254, "Email address too long (max 254 characters)"),
+  matches(EMAIL_PATTERN, "Please enter a valid email address"),
+  emailStructure,
+  emailDomain,
+];
+
+const hasControlCharacter = (value: string) =>
+  [...value].some((char) => {
+    const code = char.charCodeAt(0);
+    return code < 0x20 || code === 0x7f;
+  });
+
+// Sign-in only screens out obviously bad input; strength rules apply when a password is set
+export const currentPasswordRules = [
+  required("Password is required"),
+  maxLength(128, "Password too long (max 128 characters)"),
+  notMatches(/\s/, "Password cannot contain spaces"),
+  (value: string) => (hasControlCharacter(value) ? "Password contains invalid characters" : null),
+];
+
+export const newPasswordRules = [
+  required("Password is required"),
+  (value: string) => checkPasswordStrength(value) || null,
+];
+
+export const confirmPasswordRules = <V extends FormValues>(passwordField: keyof V): Rule<V>[] => [
+  required("Please confirm your password"),
+  equalsField<V>(passwordField, "Passwords do not match"),
+];
+
+export const fullNameRules = [
+  required("Full name is required"),
+  matches(/^[a-zA-Z\s\-']{2,50}$/, "Enter a valid name (2-50 characters, letters only)"),
+  notMatches(/[\s\-']{2,}/, "Enter a valid name (2-50 characters, letters only)"),
+];
+
+export const phoneRules = (country: CountryCode) => {
+  const format = COUNTRY_FORMATS[country];
+  return [
+    required("Phone number is required"),
+    (value: string) =>
+      format.phonePattern.test(normalizePhone(value, country))
+        ? null
+        : `Enter a valid ${format.name} phone number, e.g. ${format.phoneExample}`,
+  ];
+};
+
+export const postalCodeRules = (country: CountryCode) => {
+  const format = COUNTRY_FORMATS[country];
+  return [
+    required(`${format.postalLabel} is required`),
+    matches(format.postalPattern, `Enter a valid ${format.postalLabel}, e.g. ${format.postalExample}`),
+  ];
+};
+
+export const streetAddressRules = [
+  required("Address is required"),
+  minLength(5, "Enter your full street address"),
+];
+
+export const cityRules = [required("City is required")];
@@ -0,0 +1,26 @@
+// Stand-in for push/SMS delivery: messages are shown in-app by LocalNotificationHost
+export interface LocalNotification {
+  id: string;
+  title: string;
+  body: string;
+  createdAt: number;
+}
+
+type Listener = (notification: LocalNotification) => void;
+
+const listeners = new Set<Listener>();
+let counter = 0;
+
+export const subscribeToLocalNotifications = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const showLocalNotification = (title: string, body: string): LocalNotification => {
+  counter += 1;
+  const notification = { id: `local_${Date.now()}_${counter}`, title, body, createdAt: Date.now() };
+  listeners.forEach((listener) => listener(notification));
+  return notification;
+};
@@ -0,0 +1,98 @@
+import { normalizeEmail } from "@/lib/accounts";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+interface ThrottleRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+export interface ThrottleStatus {
+  lockedUntil: number | null;
+  // Attempts left before the next lockout kicks in
+  remainingAttempts: number;
+}
+
+export type LoginAuditReason = "invalid_credentials" | "locked_out";
+
+export interface LoginAuditEntry {
+  email: string;
+  at: number;
+  reason: LoginAuditReason;
+}
+
+const THROTTLE_KEY = "auth.throttle";
+const AUDIT_KEY = "auth.auditLog";
+
+export const MAX_ATTEMPTS = 5;
+const MINUTE = 60 * 1000;
+// The first lockout lasts a minute and each further failure doubles it, up to an hour
+const BASE_LOCKOUT = MINUTE;
+const MAX_LOCKOUT = 60 * MINUTE;
+// A quiet day wipes the slate clean
+const FAILURE_RESET_AFTER = 24 * 60 * MINUTE;
+const MAX_AUDIT_ENTRIES = 200;
+
+type ThrottleTable = Record<string, ThrottleRecord>;
+
+const lockoutFor = (failures: number) =>
+  Math.min(BASE_LOCKOUT * 2 ** (failures - MAX_ATTEMPTS), MAX_LOCKOUT);
+
+const currentRecord = (table: ThrottleTable, email: string, now: number) => {
+  const record = table[email];
+  if (!record || now - record.lastFailureAt > FAILURE_RESET_AFTER) return null;
+  return record;
+};
+
+const toStatus = (record: ThrottleRecord | null, now: number): ThrottleStatus => {
+  if (!record) return { lockedUntil: null, remainingAttempts: MAX_ATTEMPTS };
+  const locked = record.lockedUntil && record.lockedUntil > now ? record.lockedUntil : null;
+  return { lockedUntil: locked, remainingAttempts: Math.max(MAX_ATTEMPTS - record.failures, 0) };
+};
+
+export const getThrottleStatus = async (email: string, now = Date.now()): Promise<ThrottleStatus> => {
+  const table = await readJSON<ThrottleTable>(THROTTLE_KEY, {});
+  return toStatus(currentRecord(table, normalizeEmail(email), now), now);
+};
+
+const appendAudit = async (entry: LoginAuditEntry) => {
+  const log = await readJSON<LoginAuditEntry[]>(AUDIT_KEY, []);
+  await writeJSON(AUDIT_KEY, [entry, ...log].slice(0, MAX_AUDIT_ENTRIES));
+};
+
+export const recordLockedAttempt = (email: string, now = Date.now()) =>
+  appendAudit({ email: normalizeEmail(email), at: now, reason: "locked_out" });
+
+export const recordFailedLogin = async (email: string, now = Date.now()): Promise<ThrottleStatus> => {
+  const normalized = normalizeEmail(email);
+  const table = await readJSON<ThrottleTable>(THROTTLE_KEY, {});
+  const failures = (currentRecord(table, normalized, now)?.failures ?? 0) + 1;
+  const record: ThrottleRecord = {
+    failures,
+    lastFailureAt: now,
+    lockedUntil: failures >= MAX_ATTEMPTS ? now + lockoutFor(failures) : null,
+  };
+  await writeJSON(THROTTLE_KEY, { ...table, [normalized]: record });
+  await appendAudit({ email: normalized, at: now, reason: "invalid_credentials" });
+  return toStatus(record, now);
+};
+
+export const clearFailedLogins = async (email: string) => {
+  const normalized = normalizeEmail(email);
+  const table = await readJSON<ThrottleTable>(THROTTLE_KEY, {});
+  if (!table[normalized]) return;
+  const { [normalized]: _cleared, ...rest } = table;
+  await writeJSON(THROTTLE_KEY, rest);
+};
+
+export const getLoginAudit = async (email: string): Promise<LoginAuditEntry[]> => {
+  const normalized = normalizeEmail(email);
+  const log = await readJSON<LoginAuditEntry[]>(AUDIT_KEY, []);
+  return log.filter((entry) => entry.email === normalized);
+};
+
+export const clearLoginAudit = async (email: string) => {
+  const normalized = normalizeEmail(email);
+  const log = await readJSON<LoginAuditEntry[]>(AUDIT_KEY, []);
+  await writeJSON(AUDIT_KEY, log.filter((entry) => entry.email !== normalized));
+};
@@ -0,0 +1,150 @@
+import { randomUUID } from "expo-crypto";
+import { Product, getDiscountedPrice } from "@/lib/catalog";
+import { ORDER_STATUS_LABELS, Order } from "@/lib/orders";
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+export type NotificationKind =
+  | "order_placed"
+  | "order_status"
+  | "price_drop"
+  | "back_in_stock"
+  | "new_login"
+  | "account_locked";
+
+// Where tapping the notification takes the user
+export type NotificationTarget =
+  | { type: "order"; orderId: string }
+  | { type: "product"; productId: number };
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  createdAt: number;
+  read: boolean;
+  target?: NotificationTarget;
+}
+
+export type NotificationInput = Pick<AppNotification, "kind" | "title" | "body" | "target">;
+
+// Older notifications fall off the end once the inbox is full
+const MAX_NOTIFICATIONS = 100;
+
+const notificationsKey = (userId: string) => userStorageKey(userId, "notifications");
+
+type Listener = (userId: string, notifications: AppNotification[]) => void;
+
+const listeners = new Set<Listener>();
+
+export const subscribeToNotifications = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getNotifications = (userId: string) =>
+  readJSON<AppNotification[]>(notificationsKey(userId), []);
+
+// Notifications are also recorded for accounts that aren't signed in (e.g. a lockout),
+// so every change goes through here, one at a time, rather than through a context
+let pending: Promise<unknown> = Promise.resolve();
+
+const updateNotifications = (
+  userId: string,
+  update: (current: AppNotification[]) => AppNotification[]
+): Promise<AppNotification[]> => {
+  const run = pending.then(async () => {
+    const next = update(await getNotifications(userId));
+    await writeJSON(notificationsKey(userId), next);
+    listeners.forEach((listener) => listener(userId, next));
+    return next;
+  });
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+export const addNotifications = (userId: string, inputs: NotificationInput[], now = Date.now()) =>
+  updateNotifications(userId, (current) =>
+    [
+      ...inputs.map((input) => ({ ...input, id: randomUUID(), createdAt: now, read: false })),
+      ...current,
+    ].slice(0, MAX_NOTIFICATIONS)
+  );
+
+// Marks every notification read when no ids are given
+export const markNotificationsRead = (userId: string, ids?: string[]) =>
+  updateNotifications(userId, (current) =>
+    current.map((notification) =>
+      !ids || ids.includes(notification.id) ? { ...notification, read: true } : notification
+    )
+  );
+
+export const dismissNotification = (userId: string, notificationId: string) =>
+  updateNotifications(userId, (current) =>
+    current.filter((notification) => notification.id !== notificationId)
+  );
+
+const ORDER_STATUS_MESSAGES: Partial<Record<Order["status"], string>> = {
+  processing: "is being prepared for shipping",
+  shipped: "is on its way",
+  delivered: "has been delivered",
+  cancelled: "was cancelled. Any payment has been refunded",
+};
+
+export const orderPlacedNotification = (order: Order): NotificationInput => ({
+  kind: "order_placed",
+  title: "Order placed",
+  body: `Order #${order.id} for $${order.summary.grandTotal.toFixed(2)} is confirmed.`,
+  target: { type: "order", orderId: order.id },
+});
+
+export const orderStatusNotification = (order: Order): NotificationInput => ({
+  kind: "order_status",
+  title: `Order ${ORDER_STATUS_LABELS[order.status].toLowerCase()}`,
+  body: `Order #${order.id} ${ORDER_STATUS_MESSAGES[order.status] ?? "has been updated"}.`,
+  target: { type: "order", orderId: order.id },
+});
+
+// What changed about a bookmarked product since it was last seen
+export const bookmarkAlerts = (previous: Product, current: Product): NotificationInput[] => {
+  const alerts: NotificationInput[] = [];
+  const target: NotificationTarget = { type: "product", productId: current.id };
+  if (previous.stock <= 0 && current.stock > 0) {
+    alerts.push({
+      kind: "back_in_stock",
+      title: "Back in stock",
+      body: `${current.title} is available again.`,
+      target,
+    });
+  }
+  const before = getDiscountedPrice(previous);
+  const after = getDiscountedPrice(current);
+  // Ignore rounding noise from the discount percentage
+  if (before - after >= 0.01) {
+    alerts.push({
+      kind: "price_drop",
+      title: "Price drop",
+      body: `${current.title} is now $${after.toFixed(2)}, down from $${before.toFixed(2)}.`,
+      target,
+    });
+  }
+  return alerts;
+};
+
+export const newLoginNotification = (at = Date.now()): NotificationInput => ({
+  kind: "new_login",
+  title: "New sign-in",
+  body:
+    `Your account was signed in on this device at ${new Date(at).toLocaleString()}. ` +
+    "If this wasn't you, change your password.",
+});
+
+export const accountLockedNotification = (lockedUntil: number): NotificationInput => ({
+  kind: "account_locked",
+  title: "Sign-in temporarily locked",
+  body:
+    "There were too many failed attempts to sign in to your account. " +
+    `Sign-in is paused until ${new Date(lockedUntil).toLocaleTimeString()}.`,
+});
@@ -0,0 +1,115 @@
+import { CartItem, CheckoutSummary } from "@/lib/cart";
+import { CountryCode } from "@/lib/countries";
+
+export type OrderStatus = "placed" | "processing" | "shipped" | "delivered" | "cancelled";
+
+export type PaymentMethod = "card" | "upi" | "wallet";
+
+export interface ShippingDetails {
+  fullName: string;
+  email: string;
+  // National number, without the dial code
+  phone: string;
+  address: string;
+  city: string;
+  zipCode: string;
+  // Missing on orders placed before checkout asked for it
+  country?: CountryCode;
+}
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  at: number;
+}
+
+export interface Order {
+  id: string;
+  createdAt: number;
+  items: CartItem[];
+  shipping: ShippingDetails;
+  paymentMethod: PaymentMethod;
+  // Gateway payment reference, used for refunds when the order is cancelled
+  paymentId?: string;
+  summary: CheckoutSummary;
+  status: OrderStatus;
+  statusHistory: OrderStatusEvent[];
+}
+
+export const ORDER_STATUS_FLOW: OrderStatus[] = ["placed", "processing", "shipped", "delivered"];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  placed: "Placed",
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: "Credit/Debit Card",
+  upi: "UPI Payment",
+  wallet: "Digital Wallet",
+};
+
+const ALLOWED_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  placed: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ALLOWED_TRANSITIONS[from].includes(to);
+
+export const canCancelOrder = (order: Order) => canTransition(order.status, "cancelled");
+
+export const withStatus = (order: Order, status: OrderStatus, at = Date.now()): Order => {
+  if (!canTransition(order.status, status)) {
+    throw new Error(`Order ${order.id} cannot move from ${order.status} to ${status}`);
+  }
+  return {
+    ...order,
+    status,
+    statusHistory: [...order.statusHistory, { status, at }],
+  };
+};
+
+// There is no fulfilment backend, so orders move along the flow on a fixed schedule
+// measured from when they were placed.
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const FULFILMENT_SCHEDULE: { status: OrderStatus; after: number }[] = [
+  { status: "processing", after: 5 * MINUTE },
+  { status: "shipped", after: DAY },
+  { status: "delivered", after: 3 * DAY },
+];
+
+export const advanceOrder = (order: Order, now = Date.now()): Order =>
+  FULFILMENT_SCHEDULE.reduce((current, step) => {
+    const at = order.createdAt + step.after;
+    if (at > now || !canTransition(current.status, step.status)) return current;
+    return withStatus(current, step.status, at);
+  }, order);
+
+export const generateOrderId = () => {
+  const suffix = Math.random().toString(36).slice(2, 5).toUpperCase();
+  return `ORD${Date.now().toString().slice(-6)}${suffix}`;
+};
+
+export const createOrder = (input: {
+  items: CartItem[];
+  shipping: ShippingDetails;
+  paymentMethod: PaymentMethod;
+  paymentId?: string;
+  summary: CheckoutSummary;
+}): Order => {
+  const createdAt = Date.now();
+  return {
+    ...input,
+    id: generateOrderId(),
+    createdAt,
+    status: "placed",
+    statusHistory: [{ status: "placed", at: createdAt }],
+  };
+};
@@ -0,0 +1,38 @@
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { getRandomBytes } from "expo-crypto";
+
+export interface PasswordHash {
+  algorithm: "pbkdf2-sha256";
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
+// Each stored hash records its own iteration count, so this can be raised later
+// and older hashes upgraded on the next successful login (see needsRehash).
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const derive = (password: string, salt: string, iterations: number) =>
+  pbkdf2Async(sha256, password, hexToBytes(salt), { c: iterations, dkLen: KEY_BYTES });
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = bytesToHex(getRandomBytes(SALT_BYTES));
+  const key = await derive(password, salt, ITERATIONS);
+  return { algorithm: "pbkdf2-sha256", iterations: ITERATIONS, salt, hash: bytesToHex(key) };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash) => {
+  const key = await derive(password, stored.salt, stored.iterations);
+  const expected = hexToBytes(stored.hash);
+  if (key.length !== expected.length) return false;
+  // Compare every byte so timing doesn't leak how much of the hash matched
+  let diff = 0;
+  for (let i = 0; i < key.length; i++) diff |= key[i] ^ expected[i];
+  return diff === 0;
+};
+
+export const needsRehash = (stored: PasswordHash) => stored.iterations < ITERATIONS;
@@ -0,0 +1,68 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { getRandomBytes } from "expo-crypto";
+import { readSecureJSON, secureStorage, writeSecureJSON } from "@/lib/secureStorage";
+
+interface ResetChallenge {
+  codeHash: string;
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+export type ResetCodeCheck = "valid" | "invalid" | "expired" | "too_many_attempts";
+
+export const RESET_CODE_LENGTH = 6;
+export const RESET_CODE_TTL = 10 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+const challengeKey = (accountId: string) => `auth.reset.${accountId}`;
+
+const hashCode = (code: string) => bytesToHex(sha256(utf8ToBytes(code)));
+
+const generateCode = () => {
+  const value = getRandomBytes(4).reduce((acc, byte) => acc * 256 + byte, 0);
+  return String(value % 10 ** RESET_CODE_LENGTH).padStart(RESET_CODE_LENGTH, "0");
+};
+
+// Issues a fresh code, replacing any earlier one. Only the hash is stored.
+export const issueResetCode = async (accountId: string, now = Date.now()) => {
+  const code = generateCode();
+  const challenge: ResetChallenge = {
+    codeHash: hashCode(code),
+    expiresAt: now + RESET_CODE_TTL,
+    attemptsLeft: MAX_CODE_ATTEMPTS,
+  };
+  await writeSecureJSON(challengeKey(accountId), challenge);
+  return { code, expiresAt: challenge.expiresAt };
+};
+
+// A wrong guess uses up an attempt; the code is discarded once it is used,
+// expires, or runs out of attempts.
+export const checkResetCode = async (
+  accountId: string,
+  code: string,
+  now = Date.now()
+): Promise<ResetCodeCheck> => {
+  const key = challengeKey(accountId);
+  const challenge = await readSecureJSON<ResetChallenge | null>(key, null);
+  if (!challenge) return "expired";
+  if (now > challenge.expiresAt) {
+    await secureStorage.removeItem(key);
+    return "expired";
+  }
+  if (hashCode(code.trim()) === challenge.codeHash) {
+    await secureStorage.removeItem(key);
+    return "valid";
+  }
+
+  const attemptsLeft = challenge.attemptsLeft - 1;
+  if (attemptsLeft <= 0) {
+    await secureStorage.removeItem(key);
+    return "too_many_attempts";
+  }
+  await writeSecureJSON(key, { ...challenge, attemptsLeft });
+  return "invalid";
+};
+
+export const discardResetCode = (accountId: string) =>
+  secureStorage.removeItem(challengeKey(accountId));
@@ -0,0 +1,36 @@
+export interface PasswordRequirement {
+  met: boolean;
+  text: string;
+}
+
+const COMMON_PASSWORDS = [
+  'password', '123456', '123456789', 'qwerty', 'abc123', 'password123',
+  'admin', 'letmein', 'welcome', '12345678', 'monkey', '1234567890'
+];
+
+export const isCommonPassword = (password: string): boolean =>
+  COMMON_PASSWORDS.includes(password.toLowerCase());
+
+export const getPasswordRequirements = (password: string): Record<string, PasswordRequirement> => {
+  return {
+    minLength: { met: password.length >= 8, text: "At least 8 characters" },
+    maxLength: { met: password.length <= 128, text: "Maximum 128 characters" },
+    uppercase: { met: /[A-Z]/.test(password), text: "One uppercase letter" },
+    lowercase: { met: /[a-z]/.test(password), text: "One lowercase letter" },
+    number: { met: /[0-9]/.test(password), text: "One number" },
+    special: { met: /[!@#$%^&*(),.?":{}|<>_+=\[\]\\;'`~\-]/.test(password), text: "One special character" },
+    noSpaces: { met: !/\s/.test(password), text: "No spaces allowed" },
+    noCommon: { met: !isCommonPassword(password), text: "Not a common password" }
+  };
+};
+
+// Returns the first unmet requirement, or "" when the password is strong enough
+export const checkPasswordStrength = (password: string): string => {
+  const requirements = getPasswordRequirements(password);
+  const unmetRequirements = Object.values(requirements).filter(req => !req.met);
+
+  if (unmetRequirements.length > 0) {
+    return unmetRequirements[0].text;
+  }
+  return "";
+};
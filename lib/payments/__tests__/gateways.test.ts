@@ -0,0 +1,209 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  createCardGateway,
+  createCardVault,
+  createUpiGateway,
+  createWalletGateway,
+} from "../gateways";
+import { MOCK_3DS_CODE, MockPaymentProcessor } from "../mockProcessor";
+import { PaymentDetails, PaymentError, PaymentErrorCode } from "../types";
+
+const card = (cardNumber: string): PaymentDetails => ({
+  method: "card",
+  cardNumber,
+  expiryDate: "12/40",
+  cvv: "123",
+  cardName: "Jane Doe",
+});
+
+const expectPaymentError = async (promise: Promise<unknown>, code: PaymentErrorCode) => {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(PaymentError);
+  expect((error as PaymentError).code).toBe(code);
+};
+
+let processor: MockPaymentProcessor;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  processor = new MockPaymentProcessor({ latencyMs: 0, timeoutMs: 0 });
+});
+
+describe("card gateway", () => {
+  it("authorizes, captures and refunds an approved card", async () => {
+    const gateway = createCardGateway(processor);
+    const payment = await gateway.authorize({
+      amount: 42,
+      currency: "USD",
+      details: card("4111 1111 1111 1111"),
+    });
+    expect(payment).toMatchObject({ method: "card", amount: 42, status: "authorized" });
+
+    await expect(gateway.capture(payment.id)).resolves.toMatchObject({ status: "captured" });
+    await expect(gateway.refund(payment.id)).resolves.toMatchObject({
+      status: "refunded",
+      refundedAmount: 42,
+    });
+    await expect(gateway.getStatus(payment.id)).resolves.toMatchObject({ status: "refunded" });
+  });
+
+  it.each([
+    ["4000000000000002", "card_declined"],
+    ["4000000000009995", "insufficient_funds"],
+    ["4000000000000119", "timeout"],
+    ["4111", "invalid_request"],
+  ] as const)("fails test card %s with %s", async (number, code) => {
+    const gateway = createCardGateway(processor);
+    await expectPaymentError(
+      gateway.authorize({ amount: 10, currency: "USD", details: card(number) }),
+      code
+    );
+  });
+
+  it("holds a challenged card until the right code is entered", async () => {
+    const gateway = createCardGateway(processor);
+    const payment = await gateway.authorize({
+      amount: 10,
+      currency: "USD",
+      details: card("4000000000003220"),
+    });
+    expect(payment.status).toBe("requires_action");
+    await expectPaymentError(gateway.capture(payment.id), "invalid_request");
+
+    await expectPaymentError(gateway.authenticate(payment.id, "000000"), "authentication_failed");
+    await expect(gateway.authenticate(payment.id, MOCK_3DS_CODE)).resolves.toMatchObject({
+      status: "authorized",
+    });
+  });
+
+  it("only refunds captured payments, within the amount paid", async () => {
+    const gateway = createCardGateway(processor);
+    const payment = await gateway.authorize({
+      amount: 10,
+      currency: "USD",
+      details: card("4111111111111111"),
+    });
+    await expectPaymentError(gateway.refund(payment.id), "invalid_request");
+    await gateway.capture(payment.id);
+    await expectPaymentError(gateway.refund(payment.id, 11), "invalid_request");
+    await expect(gateway.refund(payment.id, 4)).resolves.toMatchObject({ refundedAmount: 4 });
+  });
+
+  it("cancels an authorization that won't be captured", async () => {
+    const gateway = createCardGateway(processor);
+    const payment = await gateway.authorize({
+      amount: 10,
+      currency: "USD",
+      details: card("4111111111111111"),
+    });
+    await expect(gateway.cancel(payment.id)).resolves.toMatchObject({ status: "cancelled" });
+    await expectPaymentError(gateway.capture(payment.id), "invalid_request");
+    await expectPaymentError(gateway.cancel(payment.id), "invalid_request");
+  });
+
+  it("cancels a payment still waiting on its challenge, but not a captured one", async () => {
+    const gateway = createCardGateway(processor);
+    const challenged = await gateway.authorize({
+      amount: 10,
+      currency: "USD",
+      details: card("4000000000003220"),
+    });
+    await expect(gateway.cancel(challenged.id)).resolves.toMatchObject({
+      status: "cancelled",
+      challenge: undefined,
+    });
+
+    const captured = await gateway.authorize({
+      amount: 10,
+      currency: "USD",
+      details: card("4111111111111111"),
+    });
+    await gateway.capture(captured.id);
+    await expectPaymentError(gateway.cancel(captured.id), "invalid_request");
+  });
+
+  it("rejects details for another method and unknown payments", async () => {
+    const gateway = createCardGateway(processor);
+    await expectPaymentError(
+      gateway.authorize({ amount: 10, currency: "USD", details: { method: "upi", vpa: "a@b" } }),
+      "invalid_request"
+    );
+    await expectPaymentError(gateway.getStatus("pay_missing"), "not_found");
+  });
+
+  it("rejects a zero amount", async () => {
+    const gateway = createCardGateway(processor);
+    await expectPaymentError(
+      gateway.authorize({ amount: 0, currency: "USD", details: card("4111111111111111") }),
+      "invalid_request"
+    );
+  });
+});
+
+describe("card vault", () => {
+  it("charges a saved card like the number it was made from", async () => {
+    const vault = createCardVault(processor);
+    const gateway = createCardGateway(processor);
+    const saved = await vault.tokenize({ cardNumber: "4000 0000 0000 0002", expiryDate: "12/40" });
+    expect(saved).toMatchObject({ brand: "visa", last4: "0002", expiryDate: "12/40" });
+
+    await expectPaymentError(
+      gateway.authorize({
+        amount: 10,
+        currency: "USD",
+        details: { method: "card", token: saved.token, cvv: "123" },
+      }),
+      "card_declined"
+    );
+  });
+
+  it("needs the CVV and a token that hasn't been revoked", async () => {
+    const vault = createCardVault(processor);
+    const gateway = createCardGateway(processor);
+    const { token } = await vault.tokenize({ cardNumber: "4111111111111111", expiryDate: "12/40" });
+    const pay = (cvv: string) =>
+      gateway.authorize({ amount: 10, currency: "USD", details: { method: "card", token, cvv } });
+
+    await expectPaymentError(pay("1"), "invalid_request");
+    await expect(pay("123")).resolves.toMatchObject({ status: "authorized" });
+    await vault.revoke(token);
+    await expectPaymentError(pay("123"), "invalid_request");
+  });
+
+  it("refuses to save an invalid card", async () => {
+    const vault = createCardVault(processor);
+    await expectPaymentError(
+      vault.tokenize({ cardNumber: "4111111111111112", expiryDate: "12/40" }),
+      "invalid_request"
+    );
+  });
+});
+
+describe("UPI and wallet gateways", () => {
+  it("maps test UPI IDs onto outcomes", async () => {
+    const gateway = createUpiGateway(processor);
+    const pay = (vpa: string) =>
+      gateway.authorize({ amount: 10, currency: "USD", details: { method: "upi", vpa } });
+
+    await expect(pay("jane@okbank")).resolves.toMatchObject({
+      method: "upi",
+      status: "authorized",
+    });
+    await expectPaymentError(pay(" Decline@UPI "), "card_declined");
+    await expectPaymentError(pay("not-an-id"), "invalid_request");
+  });
+
+  it("approves wallet payments", async () => {
+    const gateway = createWalletGateway(processor);
+    await expect(
+      gateway.authorize({
+        amount: 10,
+        currency: "USD",
+        details: { method: "wallet", provider: "gpay" },
+      })
+    ).resolves.toMatchObject({ method: "wallet", status: "authorized" });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  detectCardBrand,
+  digitsOnly,
+  validateCardNumber,
+  validateExpiryDate,
+} from "@/lib/cardValidation";
+import { PaymentMethod } from "@/lib/orders";
+import { MockPaymentProcessor, MockScenario } from "./mockProcessor";
+import { CardVault, PaymentDetails, PaymentError, PaymentGateway } from "./types";
+
+type DetailsFor<M extends PaymentMethod> = Extract<PaymentDetails, { method: M }>;
+
+// Test credentials understood by the mock processor. Anything else is approved.
+export const TEST_CARD_NUMBERS: Record<string, MockScenario> = {
+  "4000000000000002": "decline",
+  "4000000000009995": "insufficient_funds",
+  "4000000000003220": "challenge",
+  "4000000000000119": "timeout",
+};
+
+export const TEST_UPI_IDS: Record<string, MockScenario> = {
+  "decline@upi": "decline",
+  "nofunds@upi": "insufficient_funds",
+  "verify@upi": "challenge",
+  "timeout@upi": "timeout",
+};
+
+const createGateway = <M extends PaymentMethod>(
+  method: M,
+  processor: MockPaymentProcessor,
+  resolve: (details: DetailsFor<M>) => MockScenario | Promise<MockScenario>
+): PaymentGateway => ({
+  method,
+  authorize: async ({ amount, currency, details }) => {
+    if (details.method !== method) {
+      throw new PaymentError("invalid_request", `Expected ${method} details, got ${details.method}`);
+    }
+    return processor.authorize(method, amount, currency, await resolve(details as DetailsFor<M>));
+  },
+  authenticate: (paymentId, code) => processor.authenticate(paymentId, code),
+  capture: (paymentId) => processor.capture(paymentId),
+  cancel: (paymentId) => processor.cancel(paymentId),
+  refund: (paymentId, amount) => processor.refund(paymentId, amount),
+  getStatus: (paymentId) => processor.getStatus(paymentId),
+});
+
+export const createCardGateway = (processor: MockPaymentProcessor) =>
+  createGateway("card", processor, (details) => {
+    if ("token" in details) {
+      if (!/^\d{3,4}$/.test(details.cvv)) {
+        throw new PaymentError("invalid_request", "Enter the card's CVV");
+      }
+      return processor.scenarioForToken(details.token);
+    }
+    const digits = digitsOnly(details.cardNumber);
+    if (digits.length < 12) {
+      throw new PaymentError("invalid_request", "Card number is incomplete");
+    }
+    return TEST_CARD_NUMBERS[digits] ?? "approve";
+  });
+
+export const createCardVault = (processor: MockPaymentProcessor): CardVault => ({
+  tokenize: async ({ cardNumber, expiryDate }) => {
+    const problem = validateCardNumber(cardNumber) ?? validateExpiryDate(expiryDate);
+    if (problem) throw new PaymentError("invalid_request", problem);
+    const digits = digitsOnly(cardNumber);
+    const token = await processor.createToken(TEST_CARD_NUMBERS[digits] ?? "approve");
+    return { token, brand: detectCardBrand(digits), last4: digits.slice(-4), expiryDate };
+  },
+  revoke: (token) => processor.revokeToken(token),
+});
+
+export const createUpiGateway = (processor: MockPaymentProcessor) =>
+  createGateway("upi", processor, ({ vpa }) => {
+    const id = vpa.trim().toLowerCase();
+    if (!/^[\w.-]+@[\w]+$/.test(id)) {
+      throw new PaymentError("invalid_request", "Enter a valid UPI ID (e.g. name@bank)");
+    }
+    return TEST_UPI_IDS[id] ?? "approve";
+  });
+
+export const createWalletGateway = (processor: MockPaymentProcessor) =>
+  createGateway("wallet", processor, () => "approve");
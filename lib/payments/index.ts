@@ -0,0 +1,25 @@
+import { PaymentMethod } from "@/lib/orders";
+import {
+  createCardGateway,
+  createCardVault,
+  createUpiGateway,
+  createWalletGateway,
+} from "./gateways";
+import { mockProcessor } from "./mockProcessor";
+import { CardVault, PaymentGateway } from "./types";
+
+export * from "./types";
+export { MOCK_3DS_CODE, mockProcessor } from "./mockProcessor";
+export { TEST_CARD_NUMBERS, TEST_UPI_IDS } from "./gateways";
+
+// Every method currently runs against the local mock processor. Swapping in a real
+// provider only means returning a different PaymentGateway here.
+const gateways: Record<PaymentMethod, PaymentGateway> = {
+  card: createCardGateway(mockProcessor),
+  upi: createUpiGateway(mockProcessor),
+  wallet: createWalletGateway(mockProcessor),
+};
+
+export const getPaymentGateway = (method: PaymentMethod): PaymentGateway => gateways[method];
+
+export const cardVault: CardVault = createCardVault(mockProcessor);
@@ -0,0 +1,187 @@
+import { randomUUID } from "expo-crypto";
+import { PaymentMethod } from "@/lib/orders";
+import { readJSON, writeJSON } from "@/lib/storage";
+import { PaymentError, PaymentIntent } from "./types";
+
+// What the mock does with an authorization. Gateways map their test credentials
+// (card numbers, UPI IDs, ...) onto one of these so outcomes are reproducible.
+export type MockScenario = "approve" | "decline" | "insufficient_funds" | "challenge" | "timeout";
+
+export const MOCK_3DS_CODE = "123456";
+
+const STORAGE_KEY = "mockPayments";
+// Stands in for the provider's card vault. Tokens map straight to the scenario the
+// card number would have triggered, so no card data is kept even here.
+const TOKENS_KEY = "mockPayments.tokens";
+
+interface MockProcessorOptions {
+  latencyMs: number;
+  timeoutMs: number;
+  // When set, every authorization follows this scenario regardless of the credentials used
+  forcedScenario?: MockScenario;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MockPaymentProcessor {
+  private intents: Record<string, PaymentIntent> | null = null;
+  private tokens: Record<string, MockScenario> | null = null;
+  private counter = 0;
+  options: MockProcessorOptions;
+
+  constructor(options: Partial<MockProcessorOptions> = {}) {
+    this.options = { latencyMs: 1500, timeoutMs: 8000, ...options };
+  }
+
+  async authorize(
+    method: PaymentMethod,
+    amount: number,
+    currency: string,
+    requestedScenario: MockScenario
+  ): Promise<PaymentIntent> {
+    const scenario = this.options.forcedScenario ?? requestedScenario;
+    if (!(amount > 0)) {
+      throw new PaymentError("invalid_request", "Amount must be greater than zero");
+    }
+
+    if (scenario === "timeout") {
+      await wait(this.options.timeoutMs);
+      throw new PaymentError("timeout", "The payment provider did not respond in time");
+    }
+    await wait(this.options.latencyMs);
+
+    const intent: PaymentIntent = {
+      id: this.nextId(),
+      method,
+      amount,
+      currency,
+      status: "authorized",
+      createdAt: Date.now(),
+    };
+
+    if (scenario === "decline") {
+      await this.save({ ...intent, status: "failed" });
+      throw new PaymentError("card_declined", "Your payment was declined");
+    }
+    if (scenario === "insufficient_funds") {
+      await this.save({ ...intent, status: "failed" });
+      throw new PaymentError("insufficient_funds", "Insufficient funds for this purchase");
+    }
+    if (scenario === "challenge") {
+      return this.save({
+        ...intent,
+        status: "requires_action",
+        challenge: {
+          type: "3ds",
+          message: `Enter the one-time code sent by your bank (test code: ${MOCK_3DS_CODE})`,
+        },
+      });
+    }
+    return this.save(intent);
+  }
+
+  async authenticate(paymentId: string, code: string): Promise<PaymentIntent> {
+    const intent = await this.find(paymentId);
+    if (intent.status !== "requires_action") {
+      throw new PaymentError("invalid_request", "This payment does not need authentication");
+    }
+    await wait(this.options.latencyMs);
+    if (code.trim() !== MOCK_3DS_CODE) {
+      throw new PaymentError("authentication_failed", "The verification code is incorrect");
+    }
+    return this.save({ ...intent, status: "authorized", challenge: undefined });
+  }
+
+  async capture(paymentId: string): Promise<PaymentIntent> {
+    const intent = await this.find(paymentId);
+    if (intent.status !== "authorized") {
+      throw new PaymentError("invalid_request", `Cannot capture a payment that is ${intent.status}`);
+    }
+    await wait(this.options.latencyMs / 3);
+    return this.save({ ...intent, status: "captured" });
+  }
+
+  async cancel(paymentId: string): Promise<PaymentIntent> {
+    const intent = await this.find(paymentId);
+    if (intent.status !== "authorized" && intent.status !== "requires_action") {
+      throw new PaymentError("invalid_request", `Cannot cancel a payment that is ${intent.status}`);
+    }
+    await wait(this.options.latencyMs / 3);
+    return this.save({ ...intent, status: "cancelled", challenge: undefined });
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<PaymentIntent> {
+    const intent = await this.find(paymentId);
+    if (intent.status !== "captured") {
+      throw new PaymentError("invalid_request", `Cannot refund a payment that is ${intent.status}`);
+    }
+    const refundAmount = amount ?? intent.amount;
+    if (refundAmount <= 0 || refundAmount > intent.amount) {
+      throw new PaymentError("invalid_request", "Refund amount is out of range");
+    }
+    await wait(this.options.latencyMs / 3);
+    return this.save({ ...intent, status: "refunded", refundedAmount: refundAmount });
+  }
+
+  async getStatus(paymentId: string): Promise<PaymentIntent> {
+    return this.find(paymentId);
+  }
+
+  async createToken(scenario: MockScenario): Promise<string> {
+    await wait(this.options.latencyMs / 3);
+    const tokens = await this.loadTokens();
+    const token = `tok_${randomUUID()}`;
+    tokens[token] = scenario;
+    await writeJSON(TOKENS_KEY, tokens);
+    return token;
+  }
+
+  async scenarioForToken(token: string): Promise<MockScenario> {
+    const scenario = (await this.loadTokens())[token];
+    if (!scenario) {
+      throw new PaymentError("invalid_request", "This saved card is no longer available");
+    }
+    return scenario;
+  }
+
+  async revokeToken(token: string): Promise<void> {
+    const tokens = await this.loadTokens();
+    delete tokens[token];
+    await writeJSON(TOKENS_KEY, tokens);
+  }
+
+  private nextId() {
+    this.counter += 1;
+    return `pay_${Date.now().toString(36)}${this.counter}`;
+  }
+
+  private async load() {
+    if (!this.intents) {
+      this.intents = await readJSON<Record<string, PaymentIntent>>(STORAGE_KEY, {});
+    }
+    return this.intents;
+  }
+
+  private async loadTokens() {
+    if (!this.tokens) {
+      this.tokens = await readJSON<Record<string, MockScenario>>(TOKENS_KEY, {});
+    }
+    return this.tokens;
+  }
+
+  private async find(paymentId: string) {
+    const intents = await this.load();
+    const intent = intents[paymentId];
+    if (!intent) throw new PaymentError("not_found", `Unknown payment ${paymentId}`);
+    return intent;
+  }
+
+  private async save(intent: PaymentIntent) {
+    const intents = await this.load();
+    intents[intent.id] = intent;
+    await writeJSON(STORAGE_KEY, intents);
+    return intent;
+  }
+}
+
+export const mockProcessor = new MockPaymentProcessor();
@@ -0,0 +1,92 @@
+import { CardBrand } from "@/lib/cardValidation";
+import { PaymentMethod } from "@/lib/orders";
+
+export type WalletProvider = "paytm" | "phonepe" | "gpay";
+
+export type PaymentDetails =
+  | { method: "card"; cardNumber: string; expiryDate: string; cvv: string; cardName: string }
+  // A card saved earlier: the provider holds the number, so only the CVV is sent again
+  | { method: "card"; token: string; cvv: string }
+  | { method: "upi"; vpa: string }
+  | { method: "wallet"; provider: WalletProvider };
+
+export interface AuthorizeRequest {
+  amount: number;
+  currency: string;
+  details: PaymentDetails;
+}
+
+export type PaymentStatus =
+  | "requires_action"
+  | "authorized"
+  | "captured"
+  | "refunded"
+  | "cancelled"
+  | "failed";
+
+export interface PaymentChallenge {
+  type: "3ds";
+  message: string;
+}
+
+export interface PaymentIntent {
+  id: string;
+  method: PaymentMethod;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  createdAt: number;
+  challenge?: PaymentChallenge;
+  refundedAmount?: number;
+}
+
+export type PaymentErrorCode =
+  | "card_declined"
+  | "insufficient_funds"
+  | "authentication_failed"
+  | "timeout"
+  | "invalid_request"
+  | "not_found";
+
+const RETRYABLE_CODES: PaymentErrorCode[] = ["timeout", "authentication_failed"];
+
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode;
+  readonly retryable: boolean;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentError";
+    this.code = code;
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+}
+
+// All the app keeps of a saved card. The full number never leaves the provider
+// and the CVV is never stored.
+export interface CardToken {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+  expiryDate: string;
+}
+
+export interface CardVault {
+  tokenize(card: { cardNumber: string; expiryDate: string }): Promise<CardToken>;
+  // Tells the provider the token is no longer needed, e.g. when the card is removed
+  revoke(token: string): Promise<void>;
+}
+
+export interface PaymentGateway {
+  readonly method: PaymentMethod;
+  // Reserves the amount. May come back as "requires_action" when the customer
+  // has to complete a challenge (e.g. 3-D Secure) before it can be captured.
+  authorize(request: AuthorizeRequest): Promise<PaymentIntent>;
+  // Completes a pending challenge with the code the customer entered.
+  authenticate(paymentId: string, code: string): Promise<PaymentIntent>;
+  capture(paymentId: string): Promise<PaymentIntent>;
+  // Releases an authorization that won't be captured, so the customer's funds aren't held.
+  cancel(paymentId: string): Promise<PaymentIntent>;
+  refund(paymentId: string, amount?: number): Promise<PaymentIntent>;
+  getStatus(paymentId: string): Promise<PaymentIntent>;
+}
@@ -0,0 +1,129 @@
+import { Product, getDiscountedPrice } from "@/lib/catalog";
+
+export type SortOption = "featured" | "price_asc" | "price_desc" | "rating" | "discount" | "newest";
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: "featured", label: "Featured" },
+  { value: "price_asc", label: "Price: Low to High" },
+  { value: "price_desc", label: "Price: High to Low" },
+  { value: "rating", label: "Top Rated" },
+  { value: "discount", label: "Biggest Discount" },
+  { value: "newest", label: "Newest" },
+];
+
+export const RATING_THRESHOLDS = [4.5, 4, 3];
+
+export interface ProductFilters {
+  brands: string[];
+  // Bounds on the discounted price; null means unbounded
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  inStockOnly: boolean;
+}
+
+export const EMPTY_FILTERS: ProductFilters = {
+  brands: [],
+  minPrice: null,
+  maxPrice: null,
+  minRating: null,
+  inStockOnly: false,
+};
+
+export interface ProductFacets {
+  brands: { name: string; count: number }[];
+  priceRange: { min: number; max: number } | null;
+  inStockCount: number;
+}
+
+// Facets only describe the products passed in, so every option they offer has at least one match
+export const buildFacets = (products: Product[]): ProductFacets => {
+  const brandCounts = new Map<string, number>();
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const product of products) {
+    if (product.brand) brandCounts.set(product.brand, (brandCounts.get(product.brand) ?? 0) + 1);
+    const price = getDiscountedPrice(product);
+    min = Math.min(min, price);
+    max = Math.max(max, price);
+  }
+
+  return {
+    brands: [...brandCounts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    priceRange: products.length > 0 ? { min: Math.floor(min), max: Math.ceil(max) } : null,
+    inStockCount: products.filter((product) => product.stock > 0).length,
+  };
+};
+
+export const matchesFilters = (product: Product, filters: ProductFilters) => {
+  const price = getDiscountedPrice(product);
+  if (filters.brands.length > 0 && !filters.brands.includes(product.brand)) return false;
+  if (filters.minPrice !== null && price < filters.minPrice) return false;
+  if (filters.maxPrice !== null && price > filters.maxPrice) return false;
+  if (filters.minRating !== null && product.rating < filters.minRating) return false;
+  if (filters.inStockOnly && product.stock <= 0) return false;
+  return true;
+};
+
+const listedAt = (product: Product) => Date.parse(product.createdAt) || 0;
+
+const COMPARATORS: Record<SortOption, ((a: Product, b: Product) => number) | null> = {
+  featured: null,
+  price_asc: (a, b) => getDiscountedPrice(a) - getDiscountedPrice(b),
+  price_desc: (a, b) => getDiscountedPrice(b) - getDiscountedPrice(a),
+  rating: (a, b) => b.rating - a.rating,
+  discount: (a, b) => b.discountPercentage - a.discountPercentage,
+  // Products without a listing date fall back to ID order, which tracks insertion
+  newest: (a, b) => listedAt(b) - listedAt(a) || b.id - a.id,
+};
+
+export const applySortAndFilters = (
+  products: Product[],
+  sort: SortOption,
+  filters: ProductFilters
+): Product[] => {
+  const filtered = products.filter((product) => matchesFilters(product, filters));
+  const compare = COMPARATORS[sort];
+  return compare ? filtered.sort(compare) : filtered;
+};
+
+export type FilterChip =
+  | { kind: "brand"; brand: string; label: string }
+  | { kind: "price"; label: string }
+  | { kind: "rating"; label: string }
+  | { kind: "stock"; label: string };
+
+export const getFilterChips = (filters: ProductFilters): FilterChip[] => {
+  const chips: FilterChip[] = filters.brands.map((brand) => ({ kind: "brand", brand, label: brand }));
+
+  if (filters.minPrice !== null || filters.maxPrice !== null) {
+    const label =
+      filters.maxPrice === null
+        ? `$${filters.minPrice}+`
+        : filters.minPrice === null
+          ? `Up to $${filters.maxPrice}`
+          : `$${filters.minPrice} – $${filters.maxPrice}`;
+    chips.push({ kind: "price", label });
+  }
+  if (filters.minRating !== null) chips.push({ kind: "rating", label: `${filters.minRating}★ & up` });
+  if (filters.inStockOnly) chips.push({ kind: "stock", label: "In stock" });
+  return chips;
+};
+
+export const removeFilterChip = (filters: ProductFilters, chip: FilterChip): ProductFilters => {
+  switch (chip.kind) {
+    case "brand":
+      return { ...filters, brands: filters.brands.filter((brand) => brand !== chip.brand) };
+    case "price":
+      return { ...filters, minPrice: null, maxPrice: null };
+    case "rating":
+      return { ...filters, minRating: null };
+    case "stock":
+      return { ...filters, inStockOnly: false };
+  }
+};
+
+export const countActiveFilters = (filters: ProductFilters) => getFilterChips(filters).length;
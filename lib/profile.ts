@@ -0,0 +1,38 @@
+import * as FileSystem from "expo-file-system";
+import { CountryCode } from "@/lib/countries";
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+// Optional details the user adds from the profile screen. The name and email
+// stay on the account itself, since sign-in and sessions depend on them.
+// Shipping addresses live in the address book.
+export interface UserProfile {
+  avatarUri?: string;
+  // National number, without the dial code
+  phone?: string;
+  phoneCountry?: CountryCode;
+}
+
+const profileKey = (userId: string) => userStorageKey(userId, "profile");
+
+export const getProfile = (userId: string) => readJSON<UserProfile>(profileKey(userId), {});
+
+export const saveProfile = (userId: string, profile: UserProfile) =>
+  writeJSON(profileKey(userId), profile);
+
+// The image picker hands back a file in the cache, which the OS may clear, so
+// avatars are copied into the app's documents.
+const AVATAR_DIRECTORY = `${FileSystem.documentDirectory}avatars/`;
+
+export const storeAvatar = async (userId: string, sourceUri: string): Promise<string> => {
+  await FileSystem.makeDirectoryAsync(AVATAR_DIRECTORY, { intermediates: true });
+  const extension = sourceUri.split(".").pop()?.toLowerCase() || "jpg";
+  // A new name each time so image caches don't keep showing the old picture
+  const destination = `${AVATAR_DIRECTORY}${userId}-${Date.now()}.${extension}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: destination });
+  return destination;
+};
+
+export const deleteAvatar = async (uri: string | undefined) => {
+  if (!uri?.startsWith(AVATAR_DIRECTORY)) return;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+};
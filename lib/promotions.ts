@@ -0,0 +1,140 @@
+import promotionConfig from "@/constants/promotions.json";
+import { CartItem, getCartTotals } from "@/lib/cart";
+import { Order } from "@/lib/orders";
+
+export type PromotionType = "percentage" | "fixed";
+
+export interface Promotion {
+  code: string;
+  description: string;
+  type: PromotionType;
+  // Percent off for "percentage", dollars off for "fixed"
+  value: number;
+  // Caps what a percentage code can take off
+  maxDiscount?: number;
+  // Measured on the eligible items, after their own product discounts
+  minOrderValue?: number;
+  // When either is set, only items in these categories or from these brands count
+  categories?: string[];
+  brands?: string[];
+  // ISO timestamp; the code stops working after it
+  expiresAt?: string;
+  usageLimitPerUser?: number;
+}
+
+// Codes are matched case-insensitively and ignore stray spaces
+export const normalizePromoCode = (code: string) => code.replace(/\s+/g, "").toUpperCase();
+
+// The config ships with the app, so a mistake in it should fail loudly during
+// development rather than quietly hand out the wrong discount.
+const parsePromotion = (value: unknown, path: string): Promotion => {
+  if (typeof value !== "object" || value === null) throw new Error(`${path} is not an object`);
+  const entry = value as Record<string, unknown>;
+
+  const readString = (key: string) => {
+    const text = entry[key];
+    if (typeof text !== "string" || !text) throw new Error(`${path}.${key} is not a string`);
+    return text;
+  };
+  const readNumber = (key: string) => {
+    const number = entry[key];
+    if (typeof number !== "number" || !Number.isFinite(number) || number <= 0) {
+      throw new Error(`${path}.${key} is not a positive number`);
+    }
+    return number;
+  };
+  const readStrings = (key: string) => {
+    const list = entry[key];
+    if (!Array.isArray(list) || !list.every((item) => typeof item === "string")) {
+      throw new Error(`${path}.${key} is not a list of strings`);
+    }
+    return list as string[];
+  };
+  const optional = <T>(key: string, read: (key: string) => T) =>
+    entry[key] === undefined ? undefined : read(key);
+
+  const type = readString("type");
+  if (type !== "percentage" && type !== "fixed") throw new Error(`${path}.type is not supported`);
+  const expiresAt = optional("expiresAt", readString);
+  if (expiresAt && Number.isNaN(Date.parse(expiresAt))) {
+    throw new Error(`${path}.expiresAt is not a date`);
+  }
+
+  return {
+    code: normalizePromoCode(readString("code")),
+    description: readString("description"),
+    type,
+    value: readNumber("value"),
+    maxDiscount: optional("maxDiscount", readNumber),
+    minOrderValue: optional("minOrderValue", readNumber),
+    categories: optional("categories", readStrings),
+    brands: optional("brands", readStrings),
+    expiresAt,
+    usageLimitPerUser: optional("usageLimitPerUser", readNumber),
+  };
+};
+
+export const parsePromotions = (value: unknown): Promotion[] => {
+  if (!Array.isArray(value)) throw new Error("promotions is not an array");
+  return value.map((entry, index) => parsePromotion(entry, `promotions[${index}]`));
+};
+
+export const PROMOTIONS = parsePromotions(promotionConfig);
+
+export const findPromotion = (code: string, promotions = PROMOTIONS) => {
+  const normalized = normalizePromoCode(code);
+  return promotions.find((promotion) => promotion.code === normalized);
+};
+
+const isEligibleItem = ({ categories, brands }: Promotion, { product }: CartItem) => {
+  if (!categories && !brands) return true;
+  return !!categories?.includes(product.category) || !!brands?.includes(product.brand);
+};
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// What the eligible items come to once their own product discounts are taken off
+const getEligibleTotal = (promotion: Promotion, items: CartItem[]) =>
+  getCartTotals(items.filter((item) => isEligibleItem(promotion, item))).total;
+
+// Cancelling an order hands its use of the code back
+export const countPromotionUses = (code: string, orders: Order[]) =>
+  orders.filter(
+    (order) => order.status !== "cancelled" && order.summary.promotion?.code === code
+  ).length;
+
+// Returns why the code can't be used on this order, or null when it can
+export const validatePromotion = (
+  promotion: Promotion,
+  items: CartItem[],
+  timesUsed: number,
+  now = new Date()
+): string | null => {
+  if (promotion.expiresAt && now.getTime() > Date.parse(promotion.expiresAt)) {
+    return "This promo code has expired";
+  }
+  if (promotion.usageLimitPerUser !== undefined && timesUsed >= promotion.usageLimitPerUser) {
+    return promotion.usageLimitPerUser === 1
+      ? "You've already used this promo code"
+      : `This promo code can only be used ${promotion.usageLimitPerUser} times`;
+  }
+  const eligibleTotal = getEligibleTotal(promotion, items);
+  if (eligibleTotal === 0) {
+    return "None of the items in your order qualify for this promo code";
+  }
+  if (promotion.minOrderValue !== undefined && eligibleTotal < promotion.minOrderValue) {
+    const qualifying = promotion.categories || promotion.brands ? " of qualifying items" : "";
+    return `Spend at least $${promotion.minOrderValue.toFixed(2)}${qualifying} to use this code`;
+  }
+  return null;
+};
+
+// Never takes off more than the eligible items cost
+export const getPromotionDiscount = (promotion: Promotion, items: CartItem[]) => {
+  const eligibleTotal = getEligibleTotal(promotion, items);
+  const discount =
+    promotion.type === "percentage"
+      ? Math.min((eligibleTotal * promotion.value) / 100, promotion.maxDiscount ?? Infinity)
+      : promotion.value;
+  return roundToCents(Math.min(discount, eligibleTotal));
+};
@@ -0,0 +1,133 @@
+import { Review } from "@/lib/catalog";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+// Reviews written on this device, keyed by product ID. They are shared by every
+// account here, like the catalog's own reviews, but each account gets one review
+// per product: writing again replaces it.
+const REVIEWS_KEY = "reviews.local";
+
+export interface LocalReview extends Review {
+  id: string;
+  userId: string;
+}
+
+export type DisplayReview = Review & { id: string; userId?: string };
+
+export type ReviewSort = "newest" | "highest" | "lowest";
+
+export const REVIEW_SORT_OPTIONS: { value: ReviewSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "highest", label: "Highest" },
+  { value: "lowest", label: "Lowest" },
+];
+
+export const MIN_COMMENT_LENGTH = 10;
+export const MAX_COMMENT_LENGTH = 1000;
+
+type ReviewStore = Record<string, LocalReview[]>;
+
+const readStore = () => readJSON<ReviewStore>(REVIEWS_KEY, {});
+
+export const getLocalReviews = async (productId: number): Promise<LocalReview[]> =>
+  (await readStore())[productId] ?? [];
+
+interface ReviewAuthor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export const saveReview = async (
+  productId: number,
+  author: ReviewAuthor,
+  rating: number,
+  comment: string
+): Promise<LocalReview[]> => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error(`Invalid rating: ${rating}`);
+  }
+  const store = await readStore();
+  const others = (store[productId] ?? []).filter((review) => review.userId !== author.id);
+  const review: LocalReview = {
+    id: `${productId}-${author.id}`,
+    userId: author.id,
+    rating,
+    comment: comment.trim(),
+    date: new Date().toISOString(),
+    reviewerName: author.name,
+    reviewerEmail: author.email,
+  };
+  const next = [review, ...others];
+  await writeJSON(REVIEWS_KEY, { ...store, [productId]: next });
+  return next;
+};
+
+export const deleteReview = async (productId: number, userId: string): Promise<LocalReview[]> => {
+  const store = await readStore();
+  const next = (store[productId] ?? []).filter((review) => review.userId !== userId);
+  await writeJSON(REVIEWS_KEY, { ...store, [productId]: next });
+  return next;
+};
+
+export const countReviewsByUser = async (userId: string): Promise<number> =>
+  Object.values(await readStore())
+    .flat()
+    .filter((review) => review.userId === userId).length;
+
+// Removes everything an account wrote, e.g. when the account is deleted
+export const deleteReviewsByUser = async (userId: string): Promise<void> => {
+  const store = await readStore();
+  const next = Object.fromEntries(
+    Object.entries(store).map(([productId, reviews]) => [
+      productId,
+      reviews.filter((review) => review.userId !== userId),
+    ])
+  );
+  await writeJSON(REVIEWS_KEY, next);
+};
+
+export const mergeReviews = (apiReviews: Review[], localReviews: LocalReview[]): DisplayReview[] => [
+  ...localReviews,
+  ...apiReviews.map((review, index) => ({ ...review, id: `api-${index}` })),
+];
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  // Number of reviews per whole star, 1 to 5
+  distribution: Record<number, number>;
+}
+
+// The average and the histogram both come from the individual reviews, so they always
+// agree. The catalog's own aggregate rating is only shown when there are none.
+export const getRatingSummary = (
+  catalogRating: number,
+  apiReviews: Review[],
+  localReviews: LocalReview[]
+): RatingSummary => {
+  const reviews = [...apiReviews, ...localReviews];
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const review of reviews) {
+    const star = Math.min(5, Math.max(1, Math.round(review.rating)));
+    distribution[star] += 1;
+  }
+
+  const count = reviews.length;
+  const average =
+    count > 0 ? reviews.reduce((sum, review) => sum + review.rating, 0) / count : catalogRating;
+
+  return { average: Math.round(average * 100) / 100, count, distribution };
+};
+
+const reviewTime = (review: Review) => Date.parse(review.date) || 0;
+
+export const sortReviews = (reviews: DisplayReview[], sort: ReviewSort): DisplayReview[] => {
+  const sorted = [...reviews];
+  if (sort === "newest") sorted.sort((a, b) => reviewTime(b) - reviewTime(a));
+  if (sort === "highest") sorted.sort((a, b) => b.rating - a.rating || reviewTime(b) - reviewTime(a));
+  if (sort === "lowest") sorted.sort((a, b) => a.rating - b.rating || reviewTime(b) - reviewTime(a));
+  return sorted;
+};
+
+export const filterReviewsByStars = (reviews: DisplayReview[], stars: number | null) =>
+  stars === null ? reviews : reviews.filter((review) => Math.round(review.rating) === stars);
@@ -0,0 +1,52 @@
+import { randomUUID } from "expo-crypto";
+import { getCardBrandLabel, validateExpiryDate } from "@/lib/cardValidation";
+import { CardToken } from "@/lib/payments";
+import { readSecureJSON, secureStorage, writeSecureJSON } from "@/lib/secureStorage";
+
+// Only the provider's token and what's needed to recognise the card are kept
+export interface SavedCard extends CardToken {
+  id: string;
+  createdAt: number;
+}
+
+export interface SavedCardStore {
+  cards: SavedCard[];
+  defaultId: string | null;
+}
+
+export const EMPTY_CARD_STORE: SavedCardStore = { cards: [], defaultId: null };
+
+// Tokens are credentials for charging the card, so they go in secure storage
+const cardsKey = (userId: string) => `payments.cards.${userId}`;
+
+export const getSavedCards = (userId: string) =>
+  readSecureJSON<SavedCardStore>(cardsKey(userId), EMPTY_CARD_STORE);
+
+export const saveSavedCards = (userId: string, store: SavedCardStore) =>
+  writeSecureJSON(cardsKey(userId), store);
+
+export const deleteSavedCards = (userId: string) => secureStorage.removeItem(cardsKey(userId));
+
+export const createSavedCard = (token: CardToken, now = Date.now()): SavedCard => ({
+  ...token,
+  id: randomUUID(),
+  createdAt: now,
+});
+
+type CardIdentity = Pick<CardToken, "brand" | "last4" | "expiryDate">;
+
+// Without the full number this is as close as we can get to "the same card"
+export const isSameCard = (a: CardIdentity, b: CardIdentity) =>
+  a.brand === b.brand && a.last4 === b.last4 && a.expiryDate === b.expiryDate;
+
+export const isCardExpired = (card: Pick<CardToken, "expiryDate">, now = new Date()) =>
+  validateExpiryDate(card.expiryDate, now) !== null;
+
+// The default first, then the most recently added
+export const sortCards = ({ cards, defaultId }: SavedCardStore) =>
+  [...cards].sort(
+    (a, b) => Number(b.id === defaultId) - Number(a.id === defaultId) || b.createdAt - a.createdAt
+  );
+
+export const describeCard = (card: Pick<CardToken, "brand" | "last4">) =>
+  `${getCardBrandLabel(card.brand)} •••• ${card.last4}`;
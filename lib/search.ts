@@ -0,0 +1,55 @@
+import { readJSON, userStorageKey, writeJSON } from "@/lib/storage";
+
+export const MIN_QUERY_LENGTH = 2;
+const MAX_RECENT_SEARCHES = 10;
+
+const recentSearchesKey = (userId: string) => userStorageKey(userId, "recentSearches");
+
+// Collapses whitespace so "  red   shoes " and "red shoes" are the same search
+export const normalizeQuery = (query: string) => query.trim().replace(/\s+/g, " ");
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text into runs that do and don't match any word of the query, for highlighting
+export const splitMatches = (text: string, query: string): TextSegment[] => {
+  const terms = normalizeQuery(query).split(" ").filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // With a capture group, split() puts the matches at the odd indexes
+  return text
+    .split(new RegExp(`(${terms.join("|")})`, "gi"))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0);
+};
+
+// Recent searches are kept per user, most recent first
+export const getRecentSearches = (userId: string) =>
+  readJSON<string[]>(recentSearchesKey(userId), []);
+
+export const addRecentSearch = async (userId: string, query: string): Promise<string[]> => {
+  const term = normalizeQuery(query);
+  const current = await getRecentSearches(userId);
+  if (term.length < MIN_QUERY_LENGTH) return current;
+
+  const next = [
+    term,
+    ...current.filter((item) => item.toLowerCase() !== term.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  await writeJSON(recentSearchesKey(userId), next);
+  return next;
+};
+
+export const removeRecentSearch = async (userId: string, query: string): Promise<string[]> => {
+  const next = (await getRecentSearches(userId)).filter((item) => item !== query);
+  await writeJSON(recentSearchesKey(userId), next);
+  return next;
+};
+
+export const clearRecentSearches = async (userId: string): Promise<void> => {
+  await writeJSON(recentSearchesKey(userId), []);
+};
@@ -0,0 +1,52 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+
+export interface KeyValueStore {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+const keychainStore: KeyValueStore = {
+  getItem: (key) => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: (key) => SecureStore.deleteItemAsync(key),
+};
+
+const asyncStorageStore: KeyValueStore = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
+
+let backend: Promise<KeyValueStore> | null = null;
+
+// The keychain/keystore isn't available on web, so fall back to AsyncStorage there.
+// Keys must only use letters, digits, ".", "-" and "_" to be valid on both.
+const resolveBackend = () => {
+  backend ??= SecureStore.isAvailableAsync()
+    .then((available) => (available ? keychainStore : asyncStorageStore))
+    .catch(() => asyncStorageStore);
+  return backend;
+};
+
+export const secureStorage: KeyValueStore = {
+  getItem: async (key) => (await resolveBackend()).getItem(key),
+  setItem: async (key, value) => (await resolveBackend()).setItem(key, value),
+  removeItem: async (key) => (await resolveBackend()).removeItem(key),
+};
+
+export const readSecureJSON = async <T>(key: string, fallback: T): Promise<T> => {
+  const raw = await secureStorage.getItem(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Corrupt secure data under "${key}", ignoring:`, error);
+    return fallback;
+  }
+};
+
+export const writeSecureJSON = async (key: string, value: unknown): Promise<void> => {
+  await secureStorage.setItem(key, JSON.stringify(value));
+};
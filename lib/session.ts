@@ -0,0 +1,59 @@
+import { randomUUID } from "expo-crypto";
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface Session {
+  token: string;
+  user: SessionUser;
+  rememberMe: boolean;
+  issuedAt: number;
+  lastActiveAt: number;
+  // Slides forward with activity, but never past the absolute lifetime from issuedAt
+  expiresAt: number;
+}
+
+interface SessionPolicy {
+  idleTimeout: number;
+  maxLifetime: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const POLICIES: Record<"remembered" | "standard", SessionPolicy> = {
+  remembered: { idleTimeout: 30 * DAY, maxLifetime: 90 * DAY },
+  standard: { idleTimeout: 30 * MINUTE, maxLifetime: 12 * HOUR },
+};
+
+// Activity within this window of the last recorded touch isn't persisted again
+export const TOUCH_THROTTLE_MS = MINUTE;
+
+const policyFor = (session: Pick<Session, "rememberMe">) =>
+  session.rememberMe ? POLICIES.remembered : POLICIES.standard;
+
+const expiryFor = (session: Pick<Session, "rememberMe" | "issuedAt">, activeAt: number) => {
+  const { idleTimeout, maxLifetime } = policyFor(session);
+  return Math.min(activeAt + idleTimeout, session.issuedAt + maxLifetime);
+};
+
+export const createSession = (user: SessionUser, rememberMe: boolean, now = Date.now()): Session => {
+  const base = { token: randomUUID(), user, rememberMe, issuedAt: now, lastActiveAt: now };
+  return { ...base, expiresAt: expiryFor(base, now) };
+};
+
+export const isSessionValid = (session: Session | null | undefined, now = Date.now()) =>
+  Boolean(session && session.token && now < session.expiresAt);
+
+export const touchSession = (session: Session, now = Date.now()): Session => ({
+  ...session,
+  lastActiveAt: now,
+  expiresAt: expiryFor(session, now),
+});
+
+export const shouldPersistTouch = (session: Session, now = Date.now()) =>
+  now - session.lastActiveAt >= TOUCH_THROTTLE_MS;
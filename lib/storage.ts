@@ -0,0 +1,26 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Per-user data lives under "user:<id>:<name>" so accounts never see each other's state
+export const userStorageKey = (userId: string, name: string) => `user:${userId}:${name}`;
+
+export const readJSON = async <T>(key: string, fallback: T): Promise<T> => {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Corrupt data under "${key}", ignoring:`, error);
+    return fallback;
+  }
+};
+
+export const writeJSON = async (key: string, value: unknown): Promise<void> => {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+};
+
+// Removes everything stored under userStorageKey for this user
+export const clearUserData = async (userId: string): Promise<void> => {
+  const prefix = userStorageKey(userId, "");
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(prefix)));
+};
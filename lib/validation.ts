@@ -0,0 +1,63 @@
+// Small schema-based validation: each field maps to an ordered list of rules and
+// the first failing rule's message wins.
+
+export type FormValues = Record<string, string>;
+
+// Rules that only look at their own value can ignore `values`, which keeps them
+// assignable to any form's schema.
+export type Rule<V extends FormValues = FormValues> = (value: string, values: V) => string | null;
+
+export type Schema<V extends FormValues> = Partial<Record<keyof V, Rule<V>[]>>;
+
+export type FormErrors<V extends FormValues> = Partial<Record<keyof V, string>>;
+
+export const required =
+  (message = "This field is required") =>
+  (value: string) =>
+    value.trim() ? null : message;
+
+export const minLength = (length: number, message: string) => (value: string) =>
+  value.trim().length >= length ? null : message;
+
+export const maxLength = (length: number, message: string) => (value: string) =>
+  value.length <= length ? null : message;
+
+export const matches = (pattern: RegExp, message: string) => (value: string) =>
+  pattern.test(value.trim()) ? null : message;
+
+export const notMatches = (pattern: RegExp, message: string) => (value: string) =>
+  pattern.test(value) ? message : null;
+
+export const equalsField =
+  <V extends FormValues>(field: keyof V, message: string): Rule<V> =>
+  (value, values) =>
+    value === values[field] ? null : message;
+
+// Skips the wrapped rules when the field is empty, for optional fields
+export const optional =
+  <V extends FormValues>(...rules: Rule<V>[]): Rule<V> =>
+  (value, values) =>
+    value.trim() ? runRules(rules, value, values) : null;
+
+const runRules = <V extends FormValues>(rules: Rule<V>[], value: string, values: V) => {
+  for (const rule of rules) {
+    const message = rule(value, values);
+    if (message) return message;
+  }
+  return null;
+};
+
+export const validateField = <V extends FormValues>(
+  schema: Schema<V>,
+  field: keyof V,
+  values: V
+): string | undefined => runRules(schema[field] ?? [], values[field], values) ?? undefined;
+
+export const validateValues = <V extends FormValues>(schema: Schema<V>, values: V): FormErrors<V> => {
+  const errors: FormErrors<V> = {};
+  (Object.keys(schema) as (keyof V)[]).forEach((field) => {
+    const message = validateField(schema, field, values);
+    if (message) errors[field] = message;
+  });
+  return errors;
+};